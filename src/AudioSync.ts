@@ -0,0 +1,212 @@
+import { Writable } from 'stream';
+
+import { AudioIngredient, StreamIngredient, StreamIngredientType } from './Ingredient.js';
+import { RoundSyncOffset } from './Sync.js';
+import { IngredientSyncDecodeError, IngredientSyncNoSignalError, IngredientSyncStreamError } from './utils/errors/IngredientError.js';
+import { CreateFfmpegCommand } from './utils/ffmpeg/FfmpegEnvironment.js';
+
+export interface AudioSyncOptions {
+    start?: number; // Seconds into the reference where the compared window starts, default 0
+    duration?: number; // Seconds of reference audio compared, default 60
+    maxOffset?: number; // Largest offset searched in either direction in seconds, default 10
+    sampleRate?: number; // Audio is decoded to mono PCM at this rate, default 8000
+    apply?: boolean; // Set the candidate delay when the confidence is at least minConfidence
+    minConfidence?: number; // 0-1, default 0.5
+}
+
+export interface AudioSyncResult {
+    referenceId: number;
+    candidateId: number;
+    offset: number; // Seconds the candidate plays early compared to the reference, negative if it plays late
+    delay: number; // Candidate delay lining it up with the reference, reference delay + offset
+    confidence: number; // 0-1 correlation of the audio envelopes at the offset
+    applied: boolean;
+}
+
+export const DEFAULT_AUDIO_SYNC_OPTIONS: Required<Omit<AudioSyncOptions, 'apply'>> = {
+    start: 0,
+    duration: 60,
+    maxOffset: 10,
+    sampleRate: 8000,
+    minConfidence: 0.5
+};
+
+// Envelope values per second used for the coarse search
+const ENVELOPE_RATE = 100;
+
+export function ValidateAudioSyncOptions(options: AudioSyncOptions) {
+    const { start, duration, maxOffset, sampleRate, minConfidence } = { ...DEFAULT_AUDIO_SYNC_OPTIONS, ...options };
+    if (!Number.isFinite(start) || start < 0) {
+        throw new RangeError(`Invalid sync window start: ${start}`);
+    }
+    if (!Number.isFinite(duration) || duration < 1) {
+        throw new RangeError(`Invalid sync window duration: ${duration}`);
+    }
+    if (!Number.isFinite(maxOffset) || maxOffset <= 0) {
+        throw new RangeError(`Invalid maximum sync offset: ${maxOffset}`);
+    }
+    if (!Number.isInteger(sampleRate) || sampleRate < ENVELOPE_RATE || sampleRate % ENVELOPE_RATE !== 0) {
+        throw new RangeError(`Invalid sync sample rate: ${sampleRate}`);
+    }
+    if (!Number.isFinite(minConfidence) || minConfidence < 0 || minConfidence > 1) {
+        throw new RangeError(`Invalid minimum sync confidence: ${minConfidence}`);
+    }
+}
+
+// Decode a window of the stream to mono samples between -1 and 1
+export async function DecodeAudioWindow(ingredient: StreamIngredient, start: number, duration: number, sampleRate: number) {
+    return new Promise<Float32Array>((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        const output = new Writable({
+            write(chunk: Buffer, _encoding, callback) {
+                chunks.push(chunk);
+                callback();
+            }
+        });
+
+        CreateFfmpegCommand(ingredient.filePath)
+            .seekInput(start.toFixed(3))
+            .output(output)
+            .addOptions([
+                '-map', `0:${ingredient.index}`,
+                '-t', duration.toFixed(3),
+                '-ac', '1',
+                '-ar', `${sampleRate}`,
+                '-c:a', 'pcm_s16le',
+                '-f', 's16le'
+            ])
+            .on('end', () => {
+                const pcm = Buffer.concat(chunks);
+                const samples = new Float32Array(Math.floor(pcm.length / 2));
+                for (let i = 0; i < samples.length; i++) {
+                    samples[i] = pcm.readInt16LE(i * 2) / 32768;
+                }
+                resolve(samples);
+            })
+            .on('error', (err) => reject(new IngredientSyncDecodeError(ingredient.id, err)))
+            .run();
+    });
+}
+
+// Mean absolute amplitude of every block of samples
+export function AudioEnvelope(samples: Float32Array, blockSize: number) {
+    const envelope = new Float32Array(Math.floor(samples.length / blockSize));
+    for (let block = 0; block < envelope.length; block++) {
+        let sum = 0;
+        for (let i = block * blockSize; i < (block + 1) * blockSize; i++) {
+            sum += Math.abs(samples[i]);
+        }
+        envelope[block] = sum / blockSize;
+    }
+    return envelope;
+}
+
+// Pearson correlation of reference[i] and candidate[i + lag] over their overlap, undefined if the overlap is too short or flat
+function Correlate(reference: Float32Array, candidate: Float32Array, lag: number, minOverlap: number) {
+    const first = Math.max(0, -lag);
+    const last = Math.min(reference.length, candidate.length - lag);
+    const count = last - first;
+    if (count < minOverlap || count < 2) {
+        return undefined;
+    }
+
+    let sumX = 0, sumY = 0, sumXX = 0, sumYY = 0, sumXY = 0;
+    for (let i = first; i < last; i++) {
+        const x = reference[i];
+        const y = candidate[i + lag];
+        sumX += x;
+        sumY += y;
+        sumXX += x * x;
+        sumYY += y * y;
+        sumXY += x * y;
+    }
+
+    const denominator = Math.sqrt((count * sumXX - sumX * sumX) * (count * sumYY - sumY * sumY));
+    return denominator > 0 ? (count * sumXY - sumX * sumY) / denominator : undefined;
+}
+
+function BestLag(reference: Float32Array, candidate: Float32Array, minLag: number, maxLag: number, minOverlap: number) {
+    let best: { lag: number, correlation: number } | undefined;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+        const correlation = Correlate(reference, candidate, lag, minOverlap);
+        if (correlation !== undefined && (!best || correlation > best.correlation)) {
+            best = { lag, correlation };
+        }
+    }
+    return best;
+}
+
+/**
+ * Cross-correlate the envelopes to find the offset within 10 ms, then the samples around it for the exact offset
+ * candidateLead is how many seconds earlier the candidate window starts than the reference window
+ * Undefined if the audio is too short or silent
+ */
+export function EstimateAudioOffset(reference: Float32Array, candidate: Float32Array, sampleRate: number, candidateLead: number, maxOffset: number) {
+    const blockSize = sampleRate / ENVELOPE_RATE;
+    const referenceEnvelope = AudioEnvelope(reference, blockSize);
+    const candidateEnvelope = AudioEnvelope(candidate, blockSize);
+
+    // offset = candidateLead - lag / rate
+    const minLag = Math.ceil((candidateLead - maxOffset) * ENVELOPE_RATE);
+    const maxLag = Math.floor((candidateLead + maxOffset) * ENVELOPE_RATE);
+    const minOverlap = Math.ceil(referenceEnvelope.length / 2);
+    const coarse = BestLag(referenceEnvelope, candidateEnvelope, minLag, maxLag, minOverlap);
+    if (!coarse) {
+        return undefined;
+    }
+
+    const fine = BestLag(
+        reference,
+        candidate,
+        Math.max(minLag * blockSize, (coarse.lag - 1) * blockSize),
+        Math.min(maxLag * blockSize, (coarse.lag + 1) * blockSize),
+        minOverlap * blockSize
+    );
+    const lag = fine ? fine.lag / sampleRate : coarse.lag / ENVELOPE_RATE;
+
+    return {
+        offset: RoundSyncOffset(candidateLead - lag),
+        confidence: Math.round(Math.max(0, coarse.correlation) * 1000) / 1000
+    };
+}
+
+// Estimate the delay lining the candidate up with the reference, optionally setting it as the candidate delay
+export async function DetectAudioSync(reference: StreamIngredient, candidate: StreamIngredient, options: AudioSyncOptions = {}): Promise<AudioSyncResult> {
+    [reference, candidate].forEach((ingredient) => {
+        if (ingredient.type !== StreamIngredientType.audio) {
+            throw new IngredientSyncStreamError(ingredient.id, ingredient.type);
+        }
+    });
+    ValidateAudioSyncOptions(options);
+    const { start, duration, maxOffset, sampleRate, minConfidence } = { ...DEFAULT_AUDIO_SYNC_OPTIONS, ...options };
+
+    // The candidate window covers the reference window extended by maxOffset on both sides
+    const candidateStart = Math.max(0, start - maxOffset);
+    const candidateLead = start - candidateStart;
+    const referenceSamples = await DecodeAudioWindow(reference, start, duration, sampleRate);
+    const candidateSamples = await DecodeAudioWindow(candidate, candidateStart, duration + candidateLead + maxOffset, sampleRate);
+    if (referenceSamples.length < sampleRate) {
+        throw new IngredientSyncNoSignalError(reference.id);
+    }
+
+    const estimate = EstimateAudioOffset(referenceSamples, candidateSamples, sampleRate, candidateLead, maxOffset);
+    if (!estimate) {
+        throw new IngredientSyncNoSignalError(candidate.id);
+    }
+
+    const referenceDelay = (reference as AudioIngredient).delay;
+    const delay = RoundSyncOffset(referenceDelay + estimate.offset);
+    const applied = !!options.apply && estimate.confidence >= minConfidence;
+    if (applied) {
+        (candidate as AudioIngredient).delay = delay;
+    }
+
+    return {
+        referenceId: reference.id,
+        candidateId: candidate.id,
+        offset: estimate.offset,
+        delay,
+        confidence: estimate.confidence,
+        applied
+    };
+}
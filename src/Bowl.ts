@@ -3,6 +3,19 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { Readable } from 'stream';
 
+import { SerializeFFMetadataChapters } from './ChapterFormats.js';
+import {
+    BuildConcatFilter,
+    GetConcatEncoder,
+    GetConcatMethod,
+    GetConcatPartDuration,
+    GetConcatParts,
+    GetConcatPartStream,
+    MixingBowlConcatPlan
+} from './Concat.js';
+import { GetContainerCodecSupport, GetContainerFormat } from './Containers.js';
+import { RestoreSnapshot } from './History.js';
+import { GetExpectedMixDuration, MixProgress, NormalizeProgress } from './Progress.js';
 import {
     AttachmentIngredient,
     AudioIngredient,
@@ -15,27 +28,86 @@ import {
     Tags,
     VideoIngredient
 } from './Ingredient.js';
+import {
+    CacheSource,
+    GetSourceFilePath,
+    GetSourceName,
+    IngredientBowlSource,
+    IngredientBowlSourceOptions,
+    IsSeekableSource,
+    OpenSource,
+    ParseSource,
+    PIPE_SOURCE_PATH,
+    ReleaseCachedSource
+} from './Source.js';
+import {
+    CopyToStream,
+    GetStreamOutputEnd,
+    GetStreamOutputOptions,
+    GetStreamOutputTempPath,
+    GetTempFileOutputOptions,
+    MixingBowlStreamOutput,
+    MixingBowlStreamOutputPlan,
+    STREAM_OUTPUT
+} from './StreamOutput.js';
+import {
+    GetExpectedStart,
+    GetIngredientDelay,
+    GetRetimedSubtitleExtension,
+    GetRetimedSubtitlePath,
+    GetSyncInputOptions,
+    GetSyncStrategy,
+    MixingBowlSync,
+    RetimeSubtitle,
+    SyncVerification,
+    VerifySync
+} from './Sync.js';
+import {
+    BuildConcatList,
+    FindPreviousKeyframe,
+    GetConcatListPath,
+    GetSegmentPath,
+    GetTrimOptions,
+    GetTrimVideoEncoder,
+    MapTrimStart,
+    MixingBowlSegment,
+    MixingBowlTrim,
+    MixingBowlTrimPlan,
+    NormalizeTrimRanges,
+    TrimChapters,
+    TrimRange
+} from './Trim.js';
 import {
     BowlAccessError,
     BowlFFProbeError,
     BowlFileTypeError,
+    BowlMixCanceledError,
+    BowlMixFfmpegError,
+    BowlMixInProgressError,
     BowlMixInvalidOutputError,
     BowlMixNoIngredientsError,
-    BowlMixNoOutputError
+    BowlMixNoOutputError,
+    BowlMixNotSeekableError,
+    BowlMixNotStreamableError,
+    BowlMixStreamError,
+    BowlMixSyncError,
+    BowlMixValidationError
 } from './utils/errors/BowlError.js';
+import { CreateFfmpegCommand, GetFfmpegEnvironment, RunInFfmpegEnvironment } from './utils/ffmpeg/FfmpegEnvironment.js';
 import {
     BaseMeta,
     NutritionLogger
 } from './utils/logging/NutritionLogger.js';
 
 // https://www.npmjs.com/package/fluent-ffmpeg#progress-transcoding-progress-information
+// Raw fluent-ffmpeg progress, see MixProgress for progress normalized against the output duration
 export interface FfmpegProgress {
     frames: number; // total processed frame count
     currentFps: number; // framerate at which FFmpeg is currently processing
     currentKbps: number; // throughput at which FFmpeg is currently processing
     targetSize: number; // current size of the target file in kilobytes
-    timemark: string; // the timestamp of the current frame in seconds
-    percent: number; //an estimation of the progress percentage
+    timemark: string; // timestamp of the current frame, HH:MM:SS.xx
+    percent: number; // estimated from the duration of the first input, NaN for the chapters/metadata input
 }
 
 // TODO: Determine types
@@ -51,13 +123,87 @@ export interface FfmpegCodecData {
 
 export interface MixingBowlStatus {
     time: Date;
-    state: 'idle' | 'paused' | 'mixing' | 'done' | 'canceled' | 'error';
+    state: 'idle' | 'queued' | 'paused' | 'mixing' | 'done' | 'canceled' | 'error';
     fullFfmpegCommand?: string;
     codecData?: FfmpegCodecData;
     progress?: FfmpegProgress;
+    mixProgress?: MixProgress;
     error?: unknown;
 }
 
+export interface MixingBowlMixOptions {
+    progressInterval?: number; // Minimum milliseconds between progress callbacks, default 0
+}
+
+// Source of the chapters/metadata input piped to ffmpeg
+export const METADATA_INPUT = 'pipe:0';
+
+export interface MixingBowlPlanInput {
+    inputIndex: number;
+    source: string; // Ingredient file path or METADATA_INPUT
+    delay: number;
+    ingredients: {
+        ingredientId: number;
+        streamIndex: number; // Stream index within the input
+        expectedIngredientIndex: number; // Stream index within the output
+    }[];
+}
+
+// Everything needed to run ffmpeg for a Mixing Bowl
+export interface MixingBowlPlan {
+    bowlId: number;
+    output: string;
+    inputs: MixingBowlPlanInput[];
+    chaptersText: string; // FFMETADATA piped as the first input
+    customChapters: boolean; // chaptersText contains edited chapters
+    syncs: MixingBowlSync[]; // Delayed ingredients
+    trim?: MixingBowlTrimPlan;
+    concat?: MixingBowlConcatPlan;
+    streamOutput?: MixingBowlStreamOutputPlan; // Set when mixing to the output stream
+    options: string[]; // Arguments following the chapters/metadata input
+    args: string[]; // Full ffmpeg argument list, excluding the ffmpeg executable
+    validation: MixingBowlValidation;
+}
+
+interface MixingBowlPlannedOutput {
+    output: string;
+    options: string[]; // Format options following every other option
+    streamOutput?: MixingBowlStreamOutputPlan;
+}
+
+// Result of a successful mix
+export interface MixingBowlReport {
+    bowlId: number;
+    output: string;
+    startTime: Date;
+    endTime: Date;
+    elapsed: number; // milliseconds between mix start and ffmpeg exit
+    progress?: FfmpegProgress; // last progress reported by ffmpeg
+    mixProgress?: MixProgress; // last normalized progress
+    fullFfmpegCommand: string;
+    ffProbeData?: Ffmpeg.FfprobeData; // ffprobe of the written output
+    ffProbeError?: unknown; // set instead of ffProbeData if the output could not be probed
+    sync?: SyncVerification[]; // Probed start times of the delayed ingredients
+}
+
+export interface MixingBowlValidationIssue {
+    code: 'unknownContainer' | 'unsupportedStreamType' | 'unsupportedCodec' | 'limitedCodecSupport' | 'inexactSync'
+        | 'trimNotOnKeyframe' | 'trimReencode' | 'trimUnsupportedCodec'
+        | 'concatMissingStream' | 'concatReencode' | 'concatUnsupported';
+    message: string;
+    ingredientId?: number;
+    type?: StreamIngredientType;
+    codec?: string; // Codec after any pending conversion
+}
+
+// Result of checking the ingredients against the output container
+export interface MixingBowlValidation {
+    valid: boolean;
+    container?: string;
+    errors: MixingBowlValidationIssue[];
+    warnings: MixingBowlValidationIssue[];
+}
+
 // https://wiki.multimedia.cx/index.php/FFmpeg_Metadata
 export type BowlTags = MatroskaTags | QuicktimeTags;
 
@@ -88,31 +234,6 @@ export interface QuicktimeTags {
     lyrics?: string;
 }
 
-// const SUPPORTED_FORMATS: {
-//     [format: string]: {
-//         name: string;
-//         longName: string;
-//         ffmpegName: string;
-//         ffmpegLongName: string;
-//     }
-// } = {
-//     // mp4: 'MPEG-4', // TODO:
-//     // mov: 'MOV', // TODO:
-//     // avi: 'Audio Video Interleaved', // TODO: Selectively enable tracks
-//     webm: {
-//         name: 'webm',
-//         longName: 'WebM',
-//         ffmpegName: 'matroska,webm',
-//         ffmpegLongName: 'Matroska / WebM'
-//     },
-//     mkv: {
-//         name: 'mkv',
-//         longName: 'Matroska',
-//         ffmpegName: 'matroska,webm',
-//         ffmpegLongName: 'Matroska / WebM'
-//     }
-// };
-
 export class Bowl<TagType extends BowlTags = BowlTags> {
     // If necessary, Ids can be changed to the uuid library instead of sequential
     private static NEXT_ID = 0;
@@ -122,6 +243,9 @@ export class Bowl<TagType extends BowlTags = BowlTags> {
     protected readonly allIngredients: StreamIngredient[] = [];
     protected metadata?: TagType;
     private chaptersIngredient?: ChaptersIngredient;
+    // Logger and ffmpeg binaries of the VideoSalad that created the bowl, also used when its methods are called directly
+    private readonly nutritionLogger = NutritionLogger.current;
+    private readonly environment = GetFfmpegEnvironment();
 
     constructor(protected filePath: string) {
         // Set the id of the Bowl and increment the next id
@@ -142,6 +266,11 @@ export class Bowl<TagType extends BowlTags = BowlTags> {
         return this.filePath;
     }
 
+    // Entries logged and ffmpeg commands run by the command, and the asynchronous work it starts, use the logger and binaries of the bowl
+    protected withContext<T>(command: () => T) {
+        return NutritionLogger.Run(this.nutritionLogger, () => RunInFfmpegEnvironment(this.environment, command));
+    }
+
     public get fileName() {
         return path.basename(this.filePath);
     }
@@ -181,6 +310,20 @@ export class Bowl<TagType extends BowlTags = BowlTags> {
     public get tags() {
         return this.metadata;
     }
+
+    // Restores the path, tags, ingredients and chapters of the bowl to their current values
+    public snapshot(): RestoreSnapshot {
+        const { filePath, chaptersIngredient } = this;
+        const metadata = this.metadata ? { ...this.metadata } : undefined;
+        const ingredients = [...this.allIngredients];
+
+        return () => {
+            this.filePath = filePath;
+            this.metadata = metadata ? { ...metadata } : undefined;
+            this.allIngredients.splice(0, this.allIngredients.length, ...ingredients);
+            this.chaptersIngredient = chaptersIngredient;
+        };
+    }
 }
 
 export class IngredientBowl extends Bowl {
@@ -240,8 +383,70 @@ export class IngredientBowl extends Bowl {
             return Promise.reject(bowlError);
         }
 
+        return IngredientBowl.Probe(inputFilePath, inputFilePath, baseMeta);
+    }
+
+    /**
+     * Import a file path, file or HTTP URL, buffer or stream
+     * Buffers, streams and HTTP sources are cached to a temporary file unless options.cache is false,
+     * in which case they are probed once from a pipe and cannot be mixed
+     */
+    public static async InitializeSource(source: IngredientBowlSource, options: IngredientBowlSourceOptions = {}) {
+        const parsedSource = ParseSource(source);
+        const filePath = GetSourceFilePath(parsedSource);
+        if (filePath !== undefined) {
+            return IngredientBowl.Initialize(filePath);
+        }
+
+        const baseMeta: BaseMeta = {
+            location: 'IngredientBowl',
+            functionName: 'InitializeSource',
+            operation: 'Initialize new IngredientBowl'
+        };
+        const sourceName = GetSourceName(parsedSource);
+        const cache = options.cache ?? true;
+        NutritionLogger.Debug(
+            'Initialize new IngredientBowl from source',
+            {
+                ...baseMeta,
+                source: sourceName,
+                cache
+            }
+        );
+
+        let cachePath: string | undefined;
+        try {
+            const stream = await OpenSource(parsedSource as Buffer | Readable | URL);
+            if (!cache) {
+                return await IngredientBowl.Probe(stream, PIPE_SOURCE_PATH, baseMeta);
+            }
+
+            cachePath = await CacheSource(stream, sourceName, options.extension);
+            return await IngredientBowl.Initialize(cachePath);
+        } catch (error) {
+            // Sources that cannot be probed are not kept
+            if (cachePath) {
+                await ReleaseCachedSource(cachePath);
+            }
+
+            NutritionLogger.Error(
+                'Initialize new IngredientBowl from source',
+                {
+                    ...baseMeta,
+                    subOperations: [cache ? 'Cache source' : 'Probe source'],
+                    source: sourceName,
+                    error: error as Error
+                }
+            );
+
+            throw error;
+        }
+    }
+
+    // Probe the input once, inputFilePath is the path ffmpeg reads the ingredients from while mixing
+    private static async Probe(input: string | Readable, inputFilePath: string, baseMeta: BaseMeta) {
         return new Promise<IngredientBowl>((resolve, reject) => {
-            Ffmpeg.ffprobe(inputFilePath, ['-show_chapters'], async (err, data) => {
+            CreateFfmpegCommand(input).ffprobe(['-show_chapters'], async (err, data) => {
                 if (err) {
                     const bowlError = new BowlFFProbeError(inputFilePath, err);
                     NutritionLogger.Error(
@@ -250,7 +455,6 @@ export class IngredientBowl extends Bowl {
                             ...baseMeta,
                             subOperations: ['FFProbe'],
                             path: inputFilePath,
-                            fileStat,
                             error: bowlError,
                         }
                     );
@@ -323,59 +527,63 @@ export class IngredientBowl extends Bowl {
     }
 
     public addCopiedIngredient(ingredient: StreamIngredient) {
-        // Ensure the ingredient is not an original ingredient
-        if (ingredient.isOriginal) {
-            // Non-critical error, do not throw error
-            NutritionLogger.Warn(
-                'Cannot add original ingredient',
-                {
-                    location: 'IngredientBowl',
-                    functionName: 'addCopiedIngredient',
-                    operation: 'Add copied ingredient',
-                    ingredientId: ingredient.id
-                }
-            );
-            return;
-        }
+        return this.withContext(() => {
+            // Ensure the ingredient is not an original ingredient
+            if (ingredient.isOriginal) {
+                // Non-critical error, do not throw error
+                NutritionLogger.Warn(
+                    'Cannot add original ingredient',
+                    {
+                        location: 'IngredientBowl',
+                        functionName: 'addCopiedIngredient',
+                        operation: 'Add copied ingredient',
+                        ingredientId: ingredient.id
+                    }
+                );
+                return;
+            }
 
-        this.ingredients.push(ingredient);
+            this.ingredients.push(ingredient);
+        });
     }
 
     public removeCopiedIngredient(ingredient: StreamIngredient) {
-        // Ensure the ingredient is not an original ingredient
-        if (ingredient.isOriginal) {
-            // Non-critical error, do not throw error
-            NutritionLogger.Warn(
-                'Cannot remove original ingredient',
-                {
-                    location: 'IngredientBowl',
-                    functionName: 'removeCopiedIngredient',
-                    operation: 'Remove copied ingredient',
-                    ingredientId: ingredient.id
-                }
-            );
-            return;
-        }
+        return this.withContext(() => {
+            // Ensure the ingredient is not an original ingredient
+            if (ingredient.isOriginal) {
+                // Non-critical error, do not throw error
+                NutritionLogger.Warn(
+                    'Cannot remove original ingredient',
+                    {
+                        location: 'IngredientBowl',
+                        functionName: 'removeCopiedIngredient',
+                        operation: 'Remove copied ingredient',
+                        ingredientId: ingredient.id
+                    }
+                );
+                return;
+            }
 
-        // Find the ingredientId in the ingredients array
-        const index = this.ingredients.indexOf(ingredient);
-        // If the ingredientId is found, remove it from the ingredients array
-        if (index === -1) {
-            // Non-critical error, do not throw error
-            NutritionLogger.Warn(
-                'Ingredient not found in Bowl',
-                {
-                    location: 'IngredientBowl',
-                    functionName: 'removeCopiedIngredient',
-                    operation: 'Remove copied ingredient',
-                    subOperations: ['Find ingredient'],
-                    ingredientId: ingredient.id
-                }
-            );
-            return;
-        }
+            // Find the ingredientId in the ingredients array
+            const index = this.ingredients.indexOf(ingredient);
+            // If the ingredientId is found, remove it from the ingredients array
+            if (index === -1) {
+                // Non-critical error, do not throw error
+                NutritionLogger.Warn(
+                    'Ingredient not found in Bowl',
+                    {
+                        location: 'IngredientBowl',
+                        functionName: 'removeCopiedIngredient',
+                        operation: 'Remove copied ingredient',
+                        subOperations: ['Find ingredient'],
+                        ingredientId: ingredient.id
+                    }
+                );
+                return;
+            }
 
-        this.ingredients.splice(index, 1);
+            this.ingredients.splice(index, 1);
+        });
     }
 }
 
@@ -385,6 +593,10 @@ export class MixingBowl<TagType extends BowlTags = BowlTags> extends Bowl<TagTyp
 
     public statusHistory: MixingBowlStatus[] = [{ time: new Date(), state: 'idle' }];
 
+    private trimSettings?: MixingBowlTrim;
+    private concatParts?: IngredientBowl[];
+    private streamOutput?: MixingBowlStreamOutput;
+
     constructor(outputFilePath = '') {
         super(outputFilePath);
 
@@ -428,30 +640,278 @@ export class MixingBowl<TagType extends BowlTags = BowlTags> extends Bowl<TagTyp
         return this.statusHistory[this.statusHistory.length - 1];
     }
 
+    // Kept time ranges of the mixed timeline, the full duration is mixed if undefined
+    public get trim(): MixingBowlTrim | undefined {
+        return this.trimSettings;
+    }
+
+    public set trim(trim: MixingBowlTrim | undefined) {
+        this.trimSettings = trim ? { ranges: NormalizeTrimRanges(trim.ranges), mode: trim.mode } : undefined;
+    }
+
+    // Ingredient Bowls joined in order, the ingredients of the bowl select the streams of the first part
+    public get concat(): IngredientBowl[] | undefined {
+        return this.concatParts;
+    }
+
+    public set concat(parts: IngredientBowl[] | undefined) {
+        if (parts && parts.length < 2) {
+            throw new RangeError('At least two parts are required to concatenate');
+        }
+        this.concatParts = parts ? [...parts] : undefined;
+    }
+
+    // Written instead of the output path if set
+    public get outputStream(): MixingBowlStreamOutput | undefined {
+        return this.streamOutput;
+    }
+
+    public set outputStream(output: MixingBowlStreamOutput | undefined) {
+        const container = output && GetContainerFormat(output.format);
+        if (output && !container) {
+            throw new RangeError(`Unknown output stream format: ${output.format}`);
+        }
+        this.streamOutput = output && container ? { ...output, format: container.name } : undefined;
+    }
+
+    // Also restores the trim, concat parts and output stream, the mixing status is not restored
+    public snapshot(): RestoreSnapshot {
+        const restoreBowl = super.snapshot();
+        const { trimSettings, concatParts, streamOutput } = this;
+
+        return () => {
+            restoreBowl();
+            this.trimSettings = trimSettings;
+            this.concatParts = concatParts;
+            this.streamOutput = streamOutput;
+        };
+    }
+
+    // Output container, taken from the output stream format or the output file extension
+    public get container() {
+        return this.streamOutput?.format ?? path.extname(this.output).slice(1).toLowerCase();
+    }
+
     public addIngredient(ingredient: StreamIngredient) {
         this.ingredients.push(ingredient);
     }
 
-    public removeIngredient(ingredient: StreamIngredient) {
-        // Find the ingredientId in the ingredients array
-        const index = this.ingredients.indexOf(ingredient);
-        // If the ingredientId is found, remove it from the ingredients array
-        if (index === -1) {
-            // Non-critical error, do not throw error
-            NutritionLogger.Warn(
-                'Ingredient not found in Bowl',
+    // Check every ingredient, including pending conversions, against the output container
+    public validate(): MixingBowlValidation {
+        return this.withContext(() => {
+            const validation: MixingBowlValidation = {
+                valid: true,
+                container: this.container,
+                errors: [],
+                warnings: []
+            };
+
+            const containerFormat = GetContainerFormat(this.container);
+            if (!containerFormat) {
+                // ffmpeg may still support the container, compatibility is checked while mixing
+                validation.warnings.push({
+                    code: 'unknownContainer',
+                    message: `Unknown output container: ${this.container || 'none'}`
+                });
+            } else {
+                this.ingredients.forEach((ingredient) => {
+                    const codec = ingredient.outputCodec;
+                    const support = GetContainerCodecSupport(containerFormat, ingredient.type, codec);
+
+                    if (!containerFormat.codecs[ingredient.type]) {
+                        validation.errors.push({
+                            code: 'unsupportedStreamType',
+                            message: `${containerFormat.longName} does not support ${ingredient.type} streams`,
+                            ingredientId: ingredient.id,
+                            type: ingredient.type,
+                            codec
+                        });
+                    } else if (!support) {
+                        validation.errors.push({
+                            code: 'unsupportedCodec',
+                            message: `${containerFormat.longName} does not support ${codec} ${ingredient.type} streams`,
+                            ingredientId: ingredient.id,
+                            type: ingredient.type,
+                            codec
+                        });
+                    } else if (support === 'limited') {
+                        validation.warnings.push({
+                            code: 'limitedCodecSupport',
+                            message: `${containerFormat.longName} has limited support for ${codec} ${ingredient.type} streams`,
+                            ingredientId: ingredient.id,
+                            type: ingredient.type,
+                            codec
+                        });
+                    }
+                });
+            }
+
+            // Stream copied video can only be cut on a keyframe
+            this.ingredients.forEach((ingredient) => {
+                if (ingredient.type === StreamIngredientType.video && !ingredient.conversion.codec && GetIngredientDelay(ingredient) < 0) {
+                    validation.warnings.push({
+                        code: 'inexactSync',
+                        message: `Stream copied video advanced by ${-GetIngredientDelay(ingredient)}s starts on the previous keyframe`,
+                        ingredientId: ingredient.id,
+                        type: ingredient.type,
+                        codec: ingredient.outputCodec
+                    });
+                }
+            });
+
+            // Frame accurate cuts re-encode stream copied video
+            if (this.trim?.mode === 'accurate') {
+                this.ingredients.forEach((ingredient) => {
+                    if (ingredient.type !== StreamIngredientType.video || ingredient.conversion.codec) {
+                        return;
+                    }
+
+                    const encoder = GetTrimVideoEncoder(ingredient.codec);
+                    if (encoder) {
+                        validation.warnings.push({
+                            code: 'trimReencode',
+                            message: `${ingredient.codec} video is re-encoded with ${encoder} for a frame accurate cut`,
+                            ingredientId: ingredient.id,
+                            type: ingredient.type,
+                            codec: ingredient.codec
+                        });
+                    } else {
+                        validation.errors.push({
+                            code: 'trimUnsupportedCodec',
+                            message: `${ingredient.codec} video cannot be re-encoded for a frame accurate cut, convert it or use copy mode`,
+                            ingredientId: ingredient.id,
+                            type: ingredient.type,
+                            codec: ingredient.codec
+                        });
+                    }
+                });
+            }
+
+            if (this.concat) {
+                this.validateConcat(this.concat, validation);
+            }
+
+            validation.valid = !validation.errors.length;
+
+            NutritionLogger.Debug(
+                'Validate mixing bowl',
                 {
                     location: 'MixingBowl',
-                    functionName: 'removeIngredient',
-                    operation: 'Remove ingredient',
-                    subOperations: ['Find ingredient'],
-                    ingredientId: ingredient.id
+                    functionName: 'validate',
+                    operation: 'Validate mixing bowl',
+                    bowlId: this.id,
+                    validation
                 }
             );
-            return;
+
+            return validation;
+        });
+    }
+
+    // Every part must hold the streams selected from the first part, parts with other codec parameters are re-encoded
+    private validateConcat(parts: IngredientBowl[], validation: MixingBowlValidation) {
+        const [firstPart] = parts;
+        const method = GetConcatMethod(parts, this.ingredients);
+
+        if (this.trim) {
+            validation.errors.push({
+                code: 'concatUnsupported',
+                message: 'Concatenated Mixing Bowls cannot be trimmed'
+            });
         }
+        parts
+            .filter(part => !(GetConcatPartDuration(part) > 0))
+            .forEach((part) => {
+                validation.errors.push({
+                    code: 'concatUnsupported',
+                    message: `Duration of ${part.path} is unknown, the parts following it cannot be placed`
+                });
+            });
+
+        this.ingredients.forEach((ingredient) => {
+            const issue = { ingredientId: ingredient.id, type: ingredient.type, codec: ingredient.outputCodec };
+
+            if (ingredient.filePath !== firstPart.path) {
+                validation.errors.push({
+                    ...issue,
+                    code: 'concatUnsupported',
+                    message: `Concatenated ingredients must come from the first part: ${firstPart.path}`
+                });
+                return;
+            }
+            if (GetIngredientDelay(ingredient) !== 0) {
+                validation.errors.push({
+                    ...issue,
+                    code: 'concatUnsupported',
+                    message: 'Delayed ingredients cannot be concatenated'
+                });
+            }
+
+            parts
+                .filter(part => !GetConcatPartStream(part, ingredient, firstPart))
+                .forEach((part) => {
+                    validation.errors.push({
+                        ...issue,
+                        code: 'concatMissingStream',
+                        message: `${part.path} has no ${ingredient.type} stream matching stream ${ingredient.index} of the first part`
+                    });
+                });
 
-        this.ingredients.splice(index, 1);
+            if (method !== 'filter' || ingredient.type === StreamIngredientType.attachment) {
+                return;
+            }
+            if (ingredient.type !== StreamIngredientType.video && ingredient.type !== StreamIngredientType.audio) {
+                validation.errors.push({
+                    ...issue,
+                    code: 'concatUnsupported',
+                    message: `Parts have different streams or codec parameters, ${ingredient.type} streams cannot be joined with the concat filter`
+                });
+                return;
+            }
+
+            // Converted ingredients are already re-encoded
+            if (ingredient.conversion.codec) {
+                return;
+            }
+            const encoder = GetConcatEncoder(ingredient);
+            if (encoder) {
+                validation.warnings.push({
+                    ...issue,
+                    code: 'concatReencode',
+                    message: `Parts have different streams or codec parameters, ${ingredient.codec} ${ingredient.type} is re-encoded with ${encoder}`
+                });
+            } else {
+                validation.errors.push({
+                    ...issue,
+                    code: 'concatUnsupported',
+                    message: `Parts have different streams or codec parameters and ${ingredient.codec} ${ingredient.type} cannot be re-encoded, convert it`
+                });
+            }
+        });
+    }
+
+    public removeIngredient(ingredient: StreamIngredient) {
+        return this.withContext(() => {
+            // Find the ingredientId in the ingredients array
+            const index = this.ingredients.indexOf(ingredient);
+            // If the ingredientId is found, remove it from the ingredients array
+            if (index === -1) {
+                // Non-critical error, do not throw error
+                NutritionLogger.Warn(
+                    'Ingredient not found in Bowl',
+                    {
+                        location: 'MixingBowl',
+                        functionName: 'removeIngredient',
+                        operation: 'Remove ingredient',
+                        subOperations: ['Find ingredient'],
+                        ingredientId: ingredient.id
+                    }
+                );
+                return;
+            }
+
+            this.ingredients.splice(index, 1);
+        });
     }
 
     // TODO: Support adding custom chapters
@@ -538,51 +998,94 @@ export class MixingBowl<TagType extends BowlTags = BowlTags> extends Bowl<TagTyp
     //     });
     // }
 
+    // Mark the bowl as waiting for a free mixing slot
+    public queue() {
+        return this.withContext(() => {
+            if (this.status.state === 'queued' || this.status.state === 'mixing' || this.status.state === 'paused') {
+                const error = new BowlMixInProgressError(this.id, this.status.state);
+                NutritionLogger.Error(
+                    'Mixing bowl is already in progress',
+                    {
+                        location: 'MixingBowl',
+                        functionName: 'queue',
+                        operation: 'Queue mixing bowl',
+                        bowlId: this.id,
+                        status: this.status,
+                        error
+                    }
+                );
+
+                throw error;
+            }
+
+            this.statusHistory.push({
+                time: new Date(),
+                state: 'queued'
+            });
+        });
+    }
+
     public cancelMixing() {
-        if (!this.ffmpegCommand || !(this.status.state === 'mixing' || this.status.state === 'paused')) {
-            const error = new Error(`Mixing bowl ${this.id}(${this.fileName}) has not been started`);
-            NutritionLogger.Error(
-                'Mixing bowl has not been started',
-                {
-                    location: 'MixingBowl',
-                    functionName: 'cancelMixing',
-                    operation: 'Cancel mixing bowl',
-                    bowlId: this.id,
-                    status: this.status,
-                    error
-                }
-            );
+        return this.withContext(() => {
+            // Queued bowls have no ffmpeg process to kill
+            if (this.status.state === 'queued') {
+                this.statusHistory.push({
+                    ...this.status,
+                    time: new Date(),
+                    state: 'canceled'
+                });
+                return;
+            }
 
-            throw error;
-        }
+            if (!this.ffmpegCommand || !(this.status.state === 'mixing' || this.status.state === 'paused')) {
+                const error = new Error(`Mixing bowl ${this.id}(${this.fileName}) has not been started`);
+                NutritionLogger.Error(
+                    'Mixing bowl has not been started',
+                    {
+                        location: 'MixingBowl',
+                        functionName: 'cancelMixing',
+                        operation: 'Cancel mixing bowl',
+                        bowlId: this.id,
+                        status: this.status,
+                        error
+                    }
+                );
+
+                throw error;
+            }
 
-        this.ffmpegCommand.kill('SIGKILL');
+            this.ffmpegCommand.kill('SIGKILL');
 
-        this.statusHistory.push({
-            ...this.status,
-            time: new Date(),
-            state: 'canceled'
+            this.statusHistory.push({
+                ...this.status,
+                time: new Date(),
+                state: 'canceled'
+            });
         });
     }
 
-    // Write the output video file to the output path
-    public mix(onStatusChange?: (status: MixingBowlStatus) => void) {
+    // Build the ffmpeg command without running it
+    public async plan(): Promise<MixingBowlPlan> {
+        return this.withContext(() => this.buildPlan());
+    }
+
+    private async buildPlan(): Promise<MixingBowlPlan> {
         const baseMeta: BaseMeta = {
             location: 'MixingBowl',
-            functionName: 'mix',
-            operation: 'Mix bowl'
+            functionName: 'plan',
+            operation: 'Plan bowl'
         };
 
         NutritionLogger.Debug(
-            'Mix bowl',
+            'Plan bowl',
             {
                 ...baseMeta,
                 bowlId: this.id,
             }
         );
 
-        // Ensure an output path was provided
-        if (!this.output) {
+        // Ensure an output path or stream was provided
+        if (!this.output && !this.streamOutput) {
             const error = new BowlMixNoOutputError(this.id);
             NutritionLogger.Error(
                 'Invalid output path',
@@ -597,6 +1100,9 @@ export class MixingBowl<TagType extends BowlTags = BowlTags> extends Bowl<TagTyp
             throw error;
         }
 
+        // Streamed outputs are checked before any work is done
+        const plannedOutput = this.planOutput();
+
         // Ensure at least one ingredient is supplied
         if (!this.allIngredients.length) {
             const error = new BowlMixNoIngredientsError(this.id);
@@ -613,15 +1119,39 @@ export class MixingBowl<TagType extends BowlTags = BowlTags> extends Bowl<TagTyp
             throw error;
         }
 
-        // Ensure the outputPath directory exists and is writable
-        const outputDirectory = path.dirname(this.path);
-        if (!fs.existsSync(outputDirectory)) {
-            // create the directory
-            fs.mkdirSync(outputDirectory, { recursive: true });
+        // Ensure ffmpeg can read every ingredient, sources probed from a pipe were consumed by ffprobe
+        const notSeekable = [...this.allIngredients, ...(this.concat ?? []).flatMap(part => part.ingredients)]
+            .filter(ingredient => !IsSeekableSource(ingredient.filePath));
+        if (notSeekable.length) {
+            const error = new BowlMixNotSeekableError(this.id, [...new Set(notSeekable.map(ingredient => ingredient.id))]);
+            NutritionLogger.Error(
+                'Ingredients cannot be read again',
+                {
+                    ...baseMeta,
+                    bowlId: this.id,
+                    error
+                }
+            );
+
+            throw error;
         }
 
-        // Add output to ffmpeg command
-        this.ffmpegCommand = Ffmpeg().output(this.path);
+        // Ensure every ingredient can be muxed into the output container
+        const validation = this.validate();
+        if (!validation.valid) {
+            const error = new BowlMixValidationError(this.id, validation.errors);
+            NutritionLogger.Error(
+                'Incompatible ingredients',
+                {
+                    ...baseMeta,
+                    bowlId: this.id,
+                    validation,
+                    error
+                }
+            );
+
+            throw error;
+        }
 
         // Get unique inputs
         const ingredientInputsMap: { 
@@ -631,12 +1161,13 @@ export class MixingBowl<TagType extends BowlTags = BowlTags> extends Bowl<TagTyp
                     ingredients: {
                         expectedIngredientIndex: number;
                         ingredient: StreamIngredient;
+                        streamIndex: number;
                     }[];
                 }
             }
         } = {};
 
-        function addIngredientToIngredientInputsMap(filePath: string, ingredient: StreamIngredient, expectedIngredientIndex: number, delay = 0) {
+        function addIngredientToIngredientInputsMap(filePath: string, ingredient: StreamIngredient, expectedIngredientIndex: number, delay = 0, streamIndex = ingredient.index) {
             // New input file path
             if (!ingredientInputsMap[filePath]) {
                 ingredientInputsMap[filePath] = {};
@@ -647,35 +1178,40 @@ export class MixingBowl<TagType extends BowlTags = BowlTags> extends Bowl<TagTyp
             }
             // Existing input file path with same delay
             if (!ingredientInputsMap[filePath][delay].ingredients.some(added => added.ingredient.id === ingredient.id)) {
-                ingredientInputsMap[filePath][delay].ingredients.push({ expectedIngredientIndex, ingredient });
+                ingredientInputsMap[filePath][delay].ingredients.push({ expectedIngredientIndex, ingredient, streamIndex });
             }
         }
 
+        const syncs: MixingBowlSync[] = [];
         this.ingredients.forEach((ingredient, expectedIngredientIndex) => {
             // Ingredients with different delay values require unique inputs
-            let delay: number;
-
-            switch (ingredient.type) {
-                case StreamIngredientType.video:
-                    delay = (ingredient as VideoIngredient).delay;
-                    break;
-                case StreamIngredientType.audio:
-                    delay = (ingredient as AudioIngredient).delay;
-                    break;
-                case StreamIngredientType.subtitle: {
-                    delay = (ingredient as SubtitleIngredient).delay;
-                    break;
-                }
-                default:
-                    delay = 0;                 
-                    break;
+            const delay = GetIngredientDelay(ingredient);
+            const strategy = GetSyncStrategy(ingredient, delay);
+            if (!strategy) {
+                addIngredientToIngredientInputsMap(ingredient.filePath, ingredient, expectedIngredientIndex);
+                return;
             }
 
-            addIngredientToIngredientInputsMap(ingredient.filePath, ingredient, expectedIngredientIndex, delay);
+            const sync: MixingBowlSync = {
+                ingredientId: ingredient.id,
+                expectedIngredientIndex,
+                delay,
+                strategy,
+                expectedStart: GetExpectedStart(ingredient, delay)
+            };
+            syncs.push(sync);
+
+            if (strategy === 'retime') {
+                // Retimed subtitles are written before mixing as the only stream of a temporary file
+                sync.retimedPath = GetRetimedSubtitlePath(this.id, ingredient.id, GetRetimedSubtitleExtension(ingredient) ?? '');
+                addIngredientToIngredientInputsMap(sync.retimedPath, ingredient, expectedIngredientIndex, 0, 0);
+            } else {
+                addIngredientToIngredientInputsMap(ingredient.filePath, ingredient, expectedIngredientIndex, delay);
+            }
         });
 
         // Ensure output path is not the same as any Ingredients
-        if (ingredientInputsMap[this.output]) {
+        if (this.ingredients.some((ingredient) => ingredient.filePath === this.output) || this.concat?.some(part => part.path === this.output)) {
             const error = new BowlMixInvalidOutputError(
                 this.id,
                 this.output,
@@ -696,15 +1232,35 @@ export class MixingBowl<TagType extends BowlTags = BowlTags> extends Bowl<TagTyp
             throw error;
         }
 
+        // Parts are joined in order, ingredient delays and trims are rejected by validation
+        if (this.concat) {
+            return this.planConcat(this.concat, validation, plannedOutput);
+        }
+
+        // Kept ranges, cut starts are moved to keyframes in copy mode
+        const trim = this.trim;
+        const trimRanges = trim ? await this.alignTrimRanges(trim, validation) : undefined;
+        const segmented = trimRanges !== undefined && trimRanges.length > 1;
+        const trimmedChapters = trimRanges
+            ? TrimChapters(this.chapters?.sortedChapters.map(chapter => chapter.toChapter()) ?? [], trimRanges)
+            : undefined;
+        if (trimRanges) {
+            syncs.forEach((sync) => {
+                sync.expectedStart = MapTrimStart(sync.expectedStart, trimRanges) ?? 0;
+            });
+        }
+
         // fluent-ffmpeg requires at least one input
         // Use the chapters/metadata Readable stream as the first input
 
         // Generate custom chapters metadata string or otherwise use a default chapters metadata string
-        const customChaptersText = this.chapters?.buildChaptersText();
+        // ffmpeg moves chapters to a single kept range itself, segments are joined with the trimmed chapters
+        const customChaptersText = segmented
+            ? SerializeFFMetadataChapters(trimmedChapters ?? [])
+            : this.chapters?.buildChaptersText();
         const chaptersText = customChaptersText ?? ';FFMETADATA1\n';
-        // Create a stream for fluent-ffmpeg to pipe as first input (absoluteInputIndex 0)
-        const metadataStream = Readable.from(chaptersText);
-        this.ffmpegCommand.input(metadataStream);
+        // The chapters/metadata Readable stream is piped as the first input (absoluteInputIndex 0)
+        const inputs: MixingBowlPlanInput[] = [{ inputIndex: 0, source: METADATA_INPUT, delay: 0, ingredients: [] }];
 
         /**
          * Add unique inputs to ffmpeg command
@@ -715,14 +1271,9 @@ export class MixingBowl<TagType extends BowlTags = BowlTags> extends Bowl<TagTyp
         const { inputOptions, optionsList } = Object.entries(ingredientInputsMap).reduce(({ inputOptions, optionsList }, [filePath, ingredientInputs]) => {
             Object.values(ingredientInputs).forEach((ingredientInput) => {
                 
-                // Delayed or advanced (negative delay) inputs are prefixed with -itsoffset
+                // Delayed inputs are prefixed with -itsoffset, advanced (negative delay) inputs skip their start with -ss
                 if (ingredientInput.delay !== 0) {
-                    // Add itsoffset option for input
-                    inputOptions.push([`-itsoffset`, `${ingredientInput.delay}`]);
-                    // inputOptions.push([`-ss`, `${ingredientInput.delay}`]);
-                // } else {
-                //     // Add copyts option for input
-                //     inputOptions.push([`-copyts`, `-start_at_zero`]);
+                    inputOptions.push(GetSyncInputOptions(ingredientInput.delay > 0 ? 'offset' : 'seek', ingredientInput.delay));
                 }
                 
                 // Add -map_chapters option for non-custom chapters that share the same input as a StreamIngredient
@@ -733,14 +1284,30 @@ export class MixingBowl<TagType extends BowlTags = BowlTags> extends Bowl<TagTyp
 
                 // Add input
                 inputOptions.push([`-i`, `${filePath}`]);
-                
+                inputs.push({
+                    inputIndex: absoluteInputIndex,
+                    source: filePath,
+                    delay: ingredientInput.delay,
+                    ingredients: ingredientInput.ingredients.map(({ ingredient, expectedIngredientIndex, streamIndex }) => ({
+                        ingredientId: ingredient.id,
+                        streamIndex,
+                        expectedIngredientIndex
+                    }))
+                });
+
                 // Build and add options for ingredients
-                ingredientInput.ingredients.forEach(({ ingredient, expectedIngredientIndex }) => {
-                    // if (ingredientInput.delay !== 0) {
-                    //     optionsList.push({ expectedIngredientIndex, options: ingredient.buildOptions(absoluteInputIndex, expectedIngredientIndex).concat([`-avoid_negative_ts`, `1`]) });
-                    // } else {
-                    optionsList.push({ expectedIngredientIndex, options: ingredient.buildOptions(absoluteInputIndex, expectedIngredientIndex) });
-                    // }
+                ingredientInput.ingredients.forEach(({ ingredient, expectedIngredientIndex, streamIndex }) => {
+                    let ingredientOptions = ingredient.buildOptions(absoluteInputIndex, expectedIngredientIndex, streamIndex);
+
+                    // Frame accurate cuts re-encode stream copied video
+                    const trimEncoder = trim?.mode === 'accurate' && ingredient.type === StreamIngredientType.video && !ingredient.conversion.codec
+                        ? GetTrimVideoEncoder(ingredient.codec)
+                        : undefined;
+                    if (trimEncoder) {
+                        ingredientOptions = ingredientOptions.map(option => option === `-c:${expectedIngredientIndex} copy` ? `-c:${expectedIngredientIndex} ${trimEncoder}` : option);
+                    }
+
+                    optionsList.push({ expectedIngredientIndex, options: ingredientOptions });
                 });
 
                 // Input added, increment input index
@@ -749,144 +1316,728 @@ export class MixingBowl<TagType extends BowlTags = BowlTags> extends Bowl<TagTyp
             return { inputOptions, optionsList };
         }, { inputOptions: [], optionsList: [] } as { inputOptions: string[][], optionsList: { expectedIngredientIndex: number, options: string[] }[] });
 
+        // ffmpeg copies chapters from the first input with chapters, disable chapters if all chapters were removed
+        if (customChaptersText !== undefined && !this.chapters?.chapters.length) {
+            optionsList.push({ expectedIngredientIndex: -1, options: [`-map_chapters`, `-1`] });
+        }
+
 
         // Sort optionsList by expectedIngredientIndex
         optionsList.sort((a, b) => a.expectedIngredientIndex - b.expectedIngredientIndex);
         const sortedOptions = optionsList.map(({ options }) => options);
         // .concat([`-shortest`]);
 
-        if (this.tags) {
-            const metadataOptions = Object.entries(this.tags).reduce((acc, [name, value]) => {
-                if (value === undefined) {
-                    return acc.concat(`-metadata`, `${name}=`);
-                    // acc.push(`-metadata`, ` ${name}= `);
-                } else {
-                    // Workaround for fluent-ffmpeg bug - Must avoid having only 1 space in options array
-                    // Space must be added at the end, padding before string causes issues with tokenization
-                    const valueSpacesCount = `${value}`.split(' ').length - 1;
-                    return acc.concat(`-metadata`, `${name}=${value}${valueSpacesCount === 1 ? ' ' : ''}`);
-                }
-            }, [] as string[]);
+        const metadataOptions = this.buildMetadataOptions();
+        if (metadataOptions.length) {
             sortedOptions.push(metadataOptions);
         }
         
-        // FFmpeg requires input options before anything else
-        const finalOptions = inputOptions.concat(sortedOptions);
-        this.ffmpegCommand.addOptions(finalOptions.flat());
+        let options: string[];
+        let trimPlan: MixingBowlTrimPlan | undefined;
+        if (trim && trimRanges) {
+            trimPlan = { mode: trim.mode, ranges: trimRanges, chapters: trimmedChapters ?? [] };
+        }
 
-        let nextProgressUpdate = 25;
+        if (trimPlan && segmented) {
+            // Every kept range is mixed to a segment without chapters or bowl metadata
+            const streamOptions = optionsList
+                .filter(({ expectedIngredientIndex }) => expectedIngredientIndex >= 0)
+                .map(({ options }) => options);
+            const extension = this.streamOutput ? `.${this.container}` : path.extname(this.output);
+            const segments: MixingBowlSegment[] = trimPlan.ranges.map((range, index) => {
+                const segmentOptions = MixingBowl.TokenizeOptions(inputOptions.concat(streamOptions, [[`-map_chapters`, `-1`], GetTrimOptions(range)]).flat());
+                const output = GetSegmentPath(this.id, index, extension);
+                return {
+                    range,
+                    output,
+                    options: segmentOptions,
+                    args: ['-i', METADATA_INPUT, '-y', ...segmentOptions, output]
+                };
+            });
+            trimPlan.segments = segments;
+            trimPlan.concatListPath = GetConcatListPath(this.id);
+            trimPlan.concatList = BuildConcatList(segments.map(({ output }) => output));
+
+            // The segments are joined with the concat demuxer, chapters come from the chapters/metadata input
+            options = MixingBowl.TokenizeOptions([
+                `-f`, `concat`, `-safe`, `0`, `-i`, trimPlan.concatListPath,
+                `-map`, `1`, `-c`, `copy`,
+                `-map_chapters`, trimPlan.chapters.length ? `0` : `-1`,
+                ...metadataOptions
+            ]);
+        } else {
+            // FFmpeg requires input options before anything else
+            const finalOptions = inputOptions.concat(sortedOptions, trimRanges ? [GetTrimOptions(trimRanges[0])] : []);
+            options = MixingBowl.TokenizeOptions(finalOptions.flat());
+        }
 
-        this.ffmpegCommand
-            .on('start', (command: string) => {
-                this.statusHistory.push({
-                    time: new Date(),
-                    state: 'mixing',
-                    fullFfmpegCommand: command
-                });
-                if (onStatusChange) {
-                    onStatusChange(this.status);
+        options.push(...plannedOutput.options);
+
+        const plan: MixingBowlPlan = {
+            bowlId: this.id,
+            output: plannedOutput.output,
+            inputs,
+            chaptersText,
+            customChapters: customChaptersText !== undefined,
+            syncs,
+            trim: trimPlan,
+            streamOutput: plannedOutput.streamOutput,
+            options,
+            // Matches the argument order fluent-ffmpeg passes to ffmpeg
+            args: ['-i', METADATA_INPUT, '-y', ...options, plannedOutput.output],
+            validation
+        };
+
+        NutritionLogger.Debug(
+            'Planned bowl',
+            {
+                ...baseMeta,
+                bowlId: this.id,
+                args: plan.args
+            }
+        );
+
+        return plan;
+    }
+
+    // ffmpeg target and format options, streamed outputs are written to stdout or a temporary file copied to the stream
+    private planOutput(): MixingBowlPlannedOutput {
+        const container = this.streamOutput && GetContainerFormat(this.streamOutput.format);
+        if (!this.streamOutput || !container) {
+            return { output: this.output, options: [] };
+        }
+
+        const streamOptions = GetStreamOutputOptions(container, this.streamOutput.fragmented);
+        if (streamOptions) {
+            return {
+                output: STREAM_OUTPUT,
+                options: streamOptions,
+                streamOutput: { format: container.name, ffmpegFormat: container.ffmpegName }
+            };
+        }
+
+        if (!this.streamOutput.allowTempFile) {
+            const error = new BowlMixNotStreamableError(this.id, container.name);
+            NutritionLogger.Error(
+                'Output format cannot be streamed',
+                {
+                    location: 'MixingBowl',
+                    functionName: 'planOutput',
+                    operation: 'Plan bowl',
+                    bowlId: this.id,
+                    format: container.name,
+                    error
                 }
+            );
 
-                NutritionLogger.Debug(
-                    'Mixing Bowl Start',
-                    {
-                        ...baseMeta,
-                        bowlId: this.id,
-                        status: this.status
+            throw error;
+        }
+
+        const tempFile = GetStreamOutputTempPath(this.id, container.name);
+        return {
+            output: tempFile,
+            options: GetTempFileOutputOptions(container),
+            streamOutput: { format: container.name, ffmpegFormat: container.ffmpegName, tempFile }
+        };
+    }
+
+    private buildMetadataOptions() {
+        return Object.entries(this.tags).reduce((acc, [name, value]) => {
+            if (value === undefined) {
+                return acc.concat(`-metadata`, `${name}=`);
+                // acc.push(`-metadata`, ` ${name}= `);
+            } else {
+                // Workaround for fluent-ffmpeg bug - Must avoid having only 1 space in options array
+                // Space must be added at the end, padding before string causes issues with tokenization
+                const valueSpacesCount = `${value}`.split(' ').length - 1;
+                return acc.concat(`-metadata`, `${name}=${value}${valueSpacesCount === 1 ? ' ' : ''}`);
+            }
+        }, [] as string[]);
+    }
+
+    // Join the parts with the concat demuxer, or the concat filter if their streams differ
+    private planConcat(parts: IngredientBowl[], validation: MixingBowlValidation, plannedOutput: MixingBowlPlannedOutput): MixingBowlPlan {
+        const method = GetConcatMethod(parts, this.ingredients);
+        // Chapters of the bowl cover the joined timeline, ex. merged from the parts
+        const chapters = this.chapters?.sortedChapters.map(chapter => chapter.toChapter()) ?? [];
+        const concatPlan: MixingBowlConcatPlan = { method, parts: GetConcatParts(parts), chapters };
+        const ingredientInputs = this.ingredients.map((ingredient, expectedIngredientIndex) => ({
+            ingredientId: ingredient.id,
+            streamIndex: ingredient.index,
+            expectedIngredientIndex
+        }));
+
+        const inputs: MixingBowlPlanInput[] = [{ inputIndex: 0, source: METADATA_INPUT, delay: 0, ingredients: [] }];
+        const inputOptions: string[][] = [];
+        const optionsList: string[][] = [];
+        if (method === 'demuxer') {
+            concatPlan.concatListPath = GetConcatListPath(this.id);
+            concatPlan.concatList = BuildConcatList(parts.map(part => part.path));
+            inputOptions.push([`-f`, `concat`, `-safe`, `0`, `-i`, concatPlan.concatListPath]);
+            inputs.push({ inputIndex: 1, source: concatPlan.concatListPath, delay: 0, ingredients: ingredientInputs });
+
+            // The concat demuxer exposes the streams of the first part
+            this.ingredients.forEach((ingredient, expectedIngredientIndex) => {
+                optionsList.push(ingredient.buildOptions(1, expectedIngredientIndex));
+            });
+        } else {
+            parts.forEach((part, partIndex) => {
+                inputOptions.push([`-i`, part.path]);
+                inputs.push({ inputIndex: partIndex + 1, source: part.path, delay: 0, ingredients: partIndex === 0 ? ingredientInputs : [] });
+            });
+
+            const { filterGraph, labels } = BuildConcatFilter(parts, this.ingredients);
+            concatPlan.filterGraph = filterGraph;
+            optionsList.push([`-filter_complex`, filterGraph]);
+
+            // Joined video and audio are mapped from the filter output, metadata and attachments still come from the first part
+            this.ingredients.forEach((ingredient, expectedIngredientIndex) => {
+                const label = labels[ingredient.id];
+                const encoder = GetConcatEncoder(ingredient);
+                optionsList.push(ingredient.buildOptions(1, expectedIngredientIndex).map((option) => {
+                    if (label && option === `-map 1:${ingredient.index}`) {
+                        return `-map [${label}]`;
                     }
-                );
-            })
-            .on('codecData', (data: FfmpegCodecData) => {
-                this.statusHistory.push({
-                    ...this.status,
-                    time: new Date(),
-                    state: 'mixing',
-                    codecData: data
-                });
-                if (onStatusChange) {
-                    onStatusChange(this.status);
-                }
+                    if (label && encoder && option === `-c:${expectedIngredientIndex} copy`) {
+                        return `-c:${expectedIngredientIndex} ${encoder}`;
+                    }
+                    return option;
+                }));
+            });
+        }
+
+        optionsList.push([`-map_chapters`, chapters.length ? `0` : `-1`], this.buildMetadataOptions());
+        const options = [...MixingBowl.TokenizeOptions(inputOptions.concat(optionsList).flat()), ...plannedOutput.options];
+
+        const plan: MixingBowlPlan = {
+            bowlId: this.id,
+            output: plannedOutput.output,
+            inputs,
+            chaptersText: SerializeFFMetadataChapters(chapters),
+            customChapters: true,
+            syncs: [],
+            concat: concatPlan,
+            streamOutput: plannedOutput.streamOutput,
+            options,
+            // Matches the argument order fluent-ffmpeg passes to ffmpeg
+            args: ['-i', METADATA_INPUT, '-y', ...options, plannedOutput.output],
+            validation
+        };
+
+        NutritionLogger.Debug(
+            'Planned bowl',
+            {
+                location: 'MixingBowl',
+                functionName: 'planConcat',
+                operation: 'Plan bowl',
+                bowlId: this.id,
+                args: plan.args
+            }
+        );
+
+        return plan;
+    }
+
+    // Copy mode moves every cut start back to the previous keyframe of the first stream copied video
+    private async alignTrimRanges(trim: MixingBowlTrim, validation: MixingBowlValidation) {
+        const video = trim.mode === 'copy'
+            ? this.ingredients.find(ingredient => ingredient.type === StreamIngredientType.video && !ingredient.conversion.codec)
+            : undefined;
+        if (!video) {
+            return trim.ranges.map(range => ({ ...range }));
+        }
 
-                NutritionLogger.Debug(
-                    'Mixing Bowl Codec Data',
+        const ranges: TrimRange[] = [];
+        for (const range of trim.ranges) {
+            const previousEnd = ranges[ranges.length - 1]?.end ?? 0;
+            let keyframe: number | undefined;
+            try {
+                keyframe = range.start > 0
+                    ? await FindPreviousKeyframe(video, range.start, GetIngredientDelay(video))
+                    : range.start;
+            } catch (probeError) {
+                NutritionLogger.Warn(
+                    'Keyframes could not be probed',
                     {
-                        ...baseMeta,
+                        location: 'MixingBowl',
+                        functionName: 'alignTrimRanges',
+                        operation: 'Align trim ranges',
                         bowlId: this.id,
-                        status: this.status
+                        ingredientId: video.id,
+                        probeError
                     }
                 );
-            })
-            .on('progress', (progress: FfmpegProgress) => {
-                this.statusHistory.push({
-                    ...this.status,
-                    time: new Date(),
-                    state: 'mixing',
-                    progress
+            }
+
+            if (keyframe === undefined) {
+                validation.warnings.push({
+                    code: 'trimNotOnKeyframe',
+                    message: `No keyframe of the copied video found before the cut at ${range.start}s, the output may start with broken frames`,
+                    ingredientId: video.id,
+                    type: video.type,
+                    codec: video.codec
                 });
-                if (onStatusChange) {
-                    onStatusChange(this.status);
-                }
+                ranges.push({ ...range });
+                continue;
+            }
+
+            // The keyframe falls in the previous range, the cut stays after the previous range instead
+            const start = Math.max(keyframe, previousEnd);
+            if (start > keyframe) {
+                validation.warnings.push({
+                    code: 'trimNotOnKeyframe',
+                    message: `No keyframe of the copied video found between the previous range and the cut at ${range.start}s, cutting at ${start}s may start with broken frames`,
+                    ingredientId: video.id,
+                    type: video.type,
+                    codec: video.codec
+                });
+            } else if (Math.abs(start - range.start) > 0.001) {
+                validation.warnings.push({
+                    code: 'trimNotOnKeyframe',
+                    message: `Cut at ${range.start}s is not on a keyframe of the copied video, moved to the keyframe at ${start}s`,
+                    ingredientId: video.id,
+                    type: video.type,
+                    codec: video.codec
+                });
+            }
+            ranges.push({ ...range, start });
+        }
+
+        return ranges;
+    }
+
+    // Split options the same way fluent-ffmpeg does, options with exactly one space become two arguments
+    private static TokenizeOptions(options: string[]) {
+        return options.reduce((tokens, option) => {
+            const split = option.split(' ');
+            if (split.length === 2) {
+                tokens.push(split[0], split[1]);
+            } else {
+                tokens.push(option);
+            }
+            return tokens;
+        }, [] as string[]);
+    }
+
+    // Write the output video file to the output path or stream, resolves once ffmpeg exits
+    public async mix(onStatusChange?: (status: MixingBowlStatus) => void, options: MixingBowlMixOptions = {}) {
+        return this.withContext(() => this.runMix(onStatusChange, options));
+    }
+
+    private async runMix(onStatusChange: ((status: MixingBowlStatus) => void) | undefined, options: MixingBowlMixOptions) {
+        const baseMeta: BaseMeta = {
+            location: 'MixingBowl',
+            functionName: 'mix',
+            operation: 'Mix bowl'
+        };
+
+        NutritionLogger.Debug(
+            'Mix bowl',
+            {
+                ...baseMeta,
+                bowlId: this.id,
+            }
+        );
+
+        const progressInterval = options.progressInterval ?? 0;
+        if (!Number.isFinite(progressInterval) || progressInterval < 0) {
+            throw new RangeError(`Invalid progress interval: ${progressInterval}`);
+        }
+
+        const plan = await this.plan();
+        const totalSeconds = plan.concat
+            ? plan.concat.parts.reduce((total, part) => total + part.duration, 0)
+            : GetExpectedMixDuration(this.ingredients, plan.trim?.ranges);
+
+        // Ensure the outputPath directory exists and is writable
+        const outputDirectory = path.dirname(this.path);
+        if (!plan.streamOutput && !fs.existsSync(outputDirectory)) {
+            // create the directory
+            fs.mkdirSync(outputDirectory, { recursive: true });
+        }
+
+        const startTime = new Date();
+
+        // Progress callbacks are throttled, every other status change is reported
+        let lastProgressCallback = 0;
+        const updateProgress = (progress: FfmpegProgress, processedOffset = 0) => {
+            this.statusHistory.push({
+                ...this.status,
+                time: new Date(),
+                state: 'mixing',
+                progress,
+                mixProgress: NormalizeProgress(progress, totalSeconds, (Date.now() - startTime.getTime()) / 1000, processedOffset)
+            });
+
+            const now = Date.now();
+            if (onStatusChange && now - lastProgressCallback >= progressInterval) {
+                lastProgressCallback = now;
+                onStatusChange(this.status);
+            }
+        };
+
+        try {
+            // Write retimed subtitles read by ffmpeg in place of the original streams
+            await this.retimeSubtitles(plan.syncs, plan.trim?.ranges);
+            // Several kept ranges are mixed to segments joined by the final pass
+            await this.mixSegments(plan, updateProgress, onStatusChange);
+            if (plan.concat?.concatListPath) {
+                await fs.promises.writeFile(plan.concat.concatListPath, plan.concat.concatList ?? '', 'utf8');
+            }
+        } catch (error) {
+            await this.removeTemporaryFiles(plan);
+            throw error;
+        }
+
+        // fluent-ffmpeg requires at least one input
+        // Use the chapters/metadata Readable stream as the first input
+        // Streamed outputs are piped from ffmpeg's stdout unless mixed to a temporary file first
+        const streamOutput = this.streamOutput;
+        this.ffmpegCommand = CreateFfmpegCommand()
+            .output(
+                streamOutput && plan.streamOutput && !plan.streamOutput.tempFile ? streamOutput.stream : plan.output,
+                streamOutput ? { end: GetStreamOutputEnd(streamOutput) } : undefined
+            )
+            .input(Readable.from(plan.chaptersText))
+            .addOptions(plan.options);
+
+        let nextProgressUpdate = 25;
+        const ffmpegCommand = this.ffmpegCommand;
+
+        return new Promise<MixingBowlReport>((resolve, reject) => {
+            ffmpegCommand
+                .on('start', (command: string) => {
+                    this.statusHistory.push({
+                        time: new Date(),
+                        state: 'mixing',
+                        fullFfmpegCommand: command,
+                        // Keep the progress of the segments while they are joined
+                        ...(plan.trim?.segments ? { mixProgress: this.status.mixProgress } : {})
+                    });
+                    if (onStatusChange) {
+                        onStatusChange(this.status);
+                    }
 
-                // Log progress at every 25%
-                if (progress.percent >= nextProgressUpdate) {
                     NutritionLogger.Debug(
-                        'Mixing Bowl Progress',
+                        'Mixing Bowl Start',
                         {
                             ...baseMeta,
                             bowlId: this.id,
                             status: this.status
                         }
                     );
-                    nextProgressUpdate += 25;
-                }
-            })
-            .on('error', (err) => {
-                if (err instanceof Error) {
-                    if (err.message.startsWith('ffmpeg was killed with signal SIGKILL')) {
-                        // No update in status - Intentionally canceled
+                })
+                .on('codecData', (data: FfmpegCodecData) => {
+                    this.statusHistory.push({
+                        ...this.status,
+                        time: new Date(),
+                        state: 'mixing',
+                        codecData: data
+                    });
+                    if (onStatusChange) {
+                        onStatusChange(this.status);
+                    }
+
+                    NutritionLogger.Debug(
+                        'Mixing Bowl Codec Data',
+                        {
+                            ...baseMeta,
+                            bowlId: this.id,
+                            status: this.status
+                        }
+                    );
+                })
+                .on('progress', (progress: FfmpegProgress) => {
+                    // Segments already reported the progress of the kept ranges, joining them is only a stream copy
+                    if (plan.trim?.segments) {
                         return;
                     }
-                }
-                this.statusHistory.push({
-                    ...this.status,
-                    time: new Date(),
-                    state: 'error',
-                    error: err
-                });
-                if (onStatusChange) {
-                    onStatusChange(this.status);
-                }
+                    updateProgress(progress);
+
+                    // Log progress at every 25%
+                    if ((this.status.mixProgress?.percent ?? 0) >= nextProgressUpdate) {
+                        NutritionLogger.Debug(
+                            'Mixing Bowl Progress',
+                            {
+                                ...baseMeta,
+                                bowlId: this.id,
+                                status: this.status
+                            }
+                        );
+                        nextProgressUpdate += 25;
+                    }
+                })
+                .on('error', (err, stdout, stderr) => {
+                    if (err instanceof Error) {
+                        if (err.message.startsWith('ffmpeg was killed with signal SIGKILL')) {
+                            // No update in status - Intentionally canceled
+                            if (onStatusChange) {
+                                onStatusChange(this.status);
+                            }
+                            return reject(new BowlMixCanceledError(this.id));
+                        }
+                    }
 
-                NutritionLogger.Error(
-                    'Mixing Bowl Error',
-                    {
-                        ...baseMeta,
+                    const error = new BowlMixFfmpegError(this.id, err, `${stderr ?? ''}`, this.status.fullFfmpegCommand);
+                    this.statusHistory.push({
+                        ...this.status,
+                        time: new Date(),
+                        state: 'error',
+                        error
+                    });
+                    if (onStatusChange) {
+                        onStatusChange(this.status);
+                    }
+
+                    NutritionLogger.Error(
+                        'Mixing Bowl Error',
+                        {
+                            ...baseMeta,
+                            bowlId: this.id,
+                            status: this.status,
+                            error
+                        }
+                    );
+
+                    return reject(error);
+                })
+                .on('end', () => {
+                    const endTime = new Date();
+                    this.statusHistory.push({
+                        ...this.status,
+                        time: endTime,
+                        state: 'done',
+                        error: undefined // Unset for clarity
+                    });
+                    if (onStatusChange) {
+                        onStatusChange(this.status);
+                    }
+
+                    NutritionLogger.Debug(
+                        'Mixing Bowl End',
+                        {
+                            ...baseMeta,
+                            bowlId: this.id,
+                            status: this.status
+                        }
+                    );
+
+                    const report: MixingBowlReport = {
                         bowlId: this.id,
-                        status: this.status,
-                        error: err
+                        output: plan.streamOutput ? STREAM_OUTPUT : this.output,
+                        startTime,
+                        endTime,
+                        elapsed: endTime.getTime() - startTime.getTime(),
+                        progress: this.status.progress,
+                        mixProgress: this.status.mixProgress,
+                        fullFfmpegCommand: this.status.fullFfmpegCommand ?? ''
+                    };
+
+                    // Streamed output cannot be read back
+                    if (plan.streamOutput && !plan.streamOutput.tempFile) {
+                        return resolve(report);
                     }
-                );
-            })
-            .on('end', () => {
-                this.statusHistory.push({
-                    ...this.status,
-                    time: new Date(),
-                    state: 'done',
-                    error: undefined // Unset for clarity
-                });
-                if (onStatusChange) {
-                    onStatusChange(this.status);
-                }
 
-                NutritionLogger.Debug(
-                    'Mixing Bowl End',
+                    // The temporary file is copied to the stream once probed
+                    const finish = (result: MixingBowlReport) => {
+                        if (!streamOutput || !plan.streamOutput?.tempFile) {
+                            return resolve(result);
+                        }
+                        CopyToStream(plan.streamOutput.tempFile, streamOutput)
+                            .then(() => resolve(result))
+                            .catch((streamError) => {
+                                const error = new BowlMixStreamError(this.id, streamError);
+                                NutritionLogger.Error(
+                                    'Mixing Bowl output could not be streamed',
+                                    {
+                                        ...baseMeta,
+                                        subOperations: ['Copy to stream'],
+                                        bowlId: this.id,
+                                        error
+                                    }
+                                );
+                                reject(error);
+                            });
+                    };
+
+                    // Probe the written file for the report
+                    CreateFfmpegCommand(plan.output).ffprobe(['-show_chapters'], (probeErr, data) => {
+                        if (probeErr) {
+                            // Non-critical error, the output was still written
+                            NutritionLogger.Warn(
+                                'Mixing Bowl output could not be probed',
+                                {
+                                    ...baseMeta,
+                                    subOperations: ['FFProbe output'],
+                                    bowlId: this.id,
+                                    outputPath: plan.output,
+                                    probeError: probeErr
+                                }
+                            );
+                            return finish({ ...report, ffProbeError: probeErr });
+                        }
+
+                        // Delayed ingredients must start where expected
+                        const sync = VerifySync(plan.syncs, data);
+                        if (sync.some(verification => !verification.synced)) {
+                            NutritionLogger.Warn(
+                                'Mixing Bowl output is out of sync',
+                                {
+                                    ...baseMeta,
+                                    subOperations: ['Verify sync'],
+                                    bowlId: this.id,
+                                    outputPath: plan.output,
+                                    sync
+                                }
+                            );
+                        }
+
+                        return finish({ ...report, ffProbeData: data, sync });
+                    });
+                })
+                .run();
+        }).finally(() => this.removeTemporaryFiles(plan));
+    }
+
+    private async retimeSubtitles(syncs: MixingBowlSync[], trimRanges?: TrimRange[]) {
+        for (const sync of syncs) {
+            const ingredient = this.ingredients.find(({ id }) => id === sync.ingredientId);
+            if (sync.strategy !== 'retime' || !sync.retimedPath || !ingredient) {
+                continue;
+            }
+
+            try {
+                const firstStart = await RetimeSubtitle(ingredient, sync.delay, sync.retimedPath);
+                // Output subtitles start with the first event left after retiming
+                if (firstStart !== undefined) {
+                    sync.expectedStart = trimRanges ? MapTrimStart(firstStart, trimRanges) ?? 0 : firstStart;
+                }
+            } catch (retimeError) {
+                const error = new BowlMixSyncError(this.id, sync.ingredientId, retimeError);
+                NutritionLogger.Error(
+                    'Subtitles could not be retimed',
                     {
-                        ...baseMeta,
+                        location: 'MixingBowl',
+                        functionName: 'retimeSubtitles',
+                        operation: 'Retime subtitles',
                         bowlId: this.id,
-                        status: this.status
+                        ingredientId: sync.ingredientId,
+                        error
                     }
                 );
-            })
-            .run();
+
+                throw error;
+            }
+        }
+    }
+
+    private async mixSegments(
+        plan: MixingBowlPlan,
+        updateProgress: (progress: FfmpegProgress, processedOffset: number) => void,
+        onStatusChange?: (status: MixingBowlStatus) => void
+    ) {
+        if (!plan.trim?.segments || !plan.trim.concatListPath) {
+            return;
+        }
+
+        // Progress of a segment continues from the end of the previous kept ranges
+        let processedOffset = 0;
+        for (const segment of plan.trim.segments) {
+            await this.mixSegment(segment, progress => updateProgress(progress, processedOffset), onStatusChange);
+            processedOffset += (segment.range.end ?? segment.range.start) - segment.range.start;
+        }
+        await fs.promises.writeFile(plan.trim.concatListPath, plan.trim.concatList ?? '', 'utf8');
+    }
+
+    private async mixSegment(segment: MixingBowlSegment, updateProgress: (progress: FfmpegProgress) => void, onStatusChange?: (status: MixingBowlStatus) => void) {
+        const baseMeta: BaseMeta = {
+            location: 'MixingBowl',
+            functionName: 'mixSegment',
+            operation: 'Mix segment'
+        };
+
+        // Canceled between segments
+        if (this.status.state === 'canceled') {
+            throw new BowlMixCanceledError(this.id);
+        }
+
+        this.ffmpegCommand = CreateFfmpegCommand()
+            .output(segment.output)
+            .input(Readable.from(';FFMETADATA1\n'))
+            .addOptions(segment.options);
+        const ffmpegCommand = this.ffmpegCommand;
+
+        return new Promise<void>((resolve, reject) => {
+            ffmpegCommand
+                .on('start', (command: string) => {
+                    this.statusHistory.push({
+                        time: new Date(),
+                        state: 'mixing',
+                        fullFfmpegCommand: command
+                    });
+                    if (onStatusChange) {
+                        onStatusChange(this.status);
+                    }
+
+                    NutritionLogger.Debug(
+                        'Mixing Bowl Segment Start',
+                        {
+                            ...baseMeta,
+                            bowlId: this.id,
+                            range: segment.range,
+                            status: this.status
+                        }
+                    );
+                })
+                .on('progress', (progress: FfmpegProgress) => updateProgress(progress))
+                .on('error', (err, stdout, stderr) => {
+                    if (err instanceof Error && err.message.startsWith('ffmpeg was killed with signal SIGKILL')) {
+                        // No update in status - Intentionally canceled
+                        if (onStatusChange) {
+                            onStatusChange(this.status);
+                        }
+                        return reject(new BowlMixCanceledError(this.id));
+                    }
+
+                    const error = new BowlMixFfmpegError(this.id, err, `${stderr ?? ''}`, this.status.fullFfmpegCommand);
+                    this.statusHistory.push({
+                        ...this.status,
+                        time: new Date(),
+                        state: 'error',
+                        error
+                    });
+                    if (onStatusChange) {
+                        onStatusChange(this.status);
+                    }
+
+                    NutritionLogger.Error(
+                        'Mixing Bowl Segment Error',
+                        {
+                            ...baseMeta,
+                            bowlId: this.id,
+                            range: segment.range,
+                            status: this.status,
+                            error
+                        }
+                    );
+
+                    return reject(error);
+                })
+                .on('end', () => resolve())
+                .run();
+        });
+    }
+
+    // Retimed subtitles, trimmed segments, concat lists and streamed outputs
+    private async removeTemporaryFiles(plan: MixingBowlPlan) {
+        const temporaryFiles = [
+            ...plan.syncs.map(sync => sync.retimedPath),
+            ...(plan.trim?.segments ?? []).map(segment => segment.output),
+            plan.trim?.concatListPath,
+            plan.concat?.concatListPath,
+            plan.streamOutput?.tempFile
+        ].filter((filePath): filePath is string => filePath !== undefined);
+
+        await Promise.all(temporaryFiles.map(filePath => fs.promises.rm(filePath, { force: true })));
     }
 }
\ No newline at end of file
@@ -0,0 +1,229 @@
+import { execFile } from 'child_process';
+
+import { StreamIngredientType } from './Ingredient.js';
+import { VideoSaladCapabilitiesError } from './utils/errors/VideoSaladError.js';
+
+export interface FfmpegFormat {
+    name: string; // Every alias of the format, ex. matroska and webm, has its own entry
+    description: string;
+    canDemux: boolean;
+    canMux: boolean;
+    isDevice: boolean;
+}
+
+export interface FfmpegCodec {
+    name: string;
+    description: string;
+    type: StreamIngredientType;
+    canDecode: boolean;
+    canEncode: boolean;
+    decoders: string[]; // Decoders of the codec, ex. aac and aac_fixed
+    encoders: string[]; // Encoders of the codec, ex. libx264 and h264_nvenc
+}
+
+export interface FfmpegEncoder {
+    name: string;
+    description: string;
+    type: StreamIngredientType;
+    codec: string; // Codec written by the encoder, ex. opus for libopus
+    experimental: boolean; // Requires -strict experimental
+}
+
+export interface FfmpegFilter {
+    name: string;
+    description: string;
+    input: string; // ex. A, V, AA or N for a dynamic number of inputs, | for sources
+    output: string;
+}
+
+// ffmpeg lists loaded for the capabilities, each list runs ffmpeg once
+export type FfmpegCapabilityList = 'formats' | 'codecs' | 'encoders' | 'filters';
+
+const CODEC_TYPES: { [flag: string]: StreamIngredientType } = {
+    V: StreamIngredientType.video,
+    A: StreamIngredientType.audio,
+    S: StreamIngredientType.subtitle,
+    D: StreamIngredientType.data,
+    T: StreamIngredientType.attachment
+};
+
+// Capabilities of each ffmpeg binary, ffmpeg is only run once per binary
+const capabilitiesCache = new Map<string, Promise<FfmpegCapabilities>>();
+const loadedCapabilities = new Map<string, FfmpegCapabilities>();
+
+// Formats, codecs, encoders and filters of an ffmpeg binary
+export class FfmpegCapabilities {
+    constructor(
+        public readonly formats: { [name: string]: FfmpegFormat },
+        public readonly codecs: { [name: string]: FfmpegCodec },
+        public readonly encoders: { [name: string]: FfmpegEncoder },
+        public readonly filters: { [name: string]: FfmpegFilter }
+    ) { }
+
+    // Formats that can be written, ex. matroska, webm and mp4
+    public get muxers() {
+        return Object.values(this.formats).filter(({ canMux }) => canMux);
+    }
+
+    public get demuxers() {
+        return Object.values(this.formats).filter(({ canDemux }) => canDemux);
+    }
+
+    // Encoder name, ex. libopus, or codec name with at least one encoder, ex. opus
+    public canEncode(encoderOrCodec: string) {
+        return encoderOrCodec in this.encoders || !!this.codecs[encoderOrCodec]?.canEncode;
+    }
+
+    public canDecode(codec: string) {
+        return !!this.codecs[codec]?.canDecode;
+    }
+
+    // ffmpeg format name, ex. matroska or webm
+    public canMux(format: string) {
+        return !!this.formats[format]?.canMux;
+    }
+
+    public canDemux(format: string) {
+        return !!this.formats[format]?.canDemux;
+    }
+
+    public hasFilter(filter: string) {
+        return filter in this.filters;
+    }
+}
+
+/**
+ * Run ffmpeg to load its capabilities, cached per binary
+ * Rejects with VideoSaladCapabilitiesError if a list cannot be loaded, the next call tries again
+ */
+export async function LoadFfmpegCapabilities(ffmpegPath: string) {
+    let capabilities = capabilitiesCache.get(ffmpegPath);
+    if (!capabilities) {
+        capabilities = Promise.all([
+            RunFfmpegList(ffmpegPath, 'formats').then(ParseFfmpegFormats),
+            RunFfmpegList(ffmpegPath, 'codecs').then(ParseFfmpegCodecs),
+            RunFfmpegList(ffmpegPath, 'encoders').then(ParseFfmpegEncoders),
+            RunFfmpegList(ffmpegPath, 'filters').then(ParseFfmpegFilters)
+        ]).then(([formats, codecs, encoders, filters]) => {
+            const loaded = new FfmpegCapabilities(formats, codecs, encoders, filters);
+            loadedCapabilities.set(ffmpegPath, loaded);
+            return loaded;
+        });
+        capabilitiesCache.set(ffmpegPath, capabilities);
+        capabilities.catch(() => capabilitiesCache.delete(ffmpegPath));
+    }
+
+    return capabilities;
+}
+
+// Capabilities of the binary if they have already been loaded
+export function GetLoadedFfmpegCapabilities(ffmpegPath: string) {
+    return loadedCapabilities.get(ffmpegPath);
+}
+
+async function RunFfmpegList(ffmpegPath: string, list: FfmpegCapabilityList) {
+    return new Promise<string>((resolve, reject) => {
+        execFile(ffmpegPath, ['-hide_banner', `-${list}`], { maxBuffer: 10 * 1024 * 1024 }, (error, stdout) => {
+            if (error) {
+                reject(new VideoSaladCapabilitiesError(ffmpegPath, list, error));
+                return;
+            }
+            resolve(stdout);
+        });
+    });
+}
+
+// Lines after the ------ separator ending the legend
+function ListLines(output: string) {
+    const lines = output.split(/\r?\n/);
+    const separator = lines.findIndex(line => /^\s*-+\s*$/.test(line));
+    return lines.slice(separator + 1);
+}
+
+// Output of ffmpeg -formats, ex. " DE matroska,webm   Matroska / WebM"
+export function ParseFfmpegFormats(output: string) {
+    const formats: { [name: string]: FfmpegFormat } = {};
+    ListLines(output).forEach(line => {
+        const match = /^ ([D. ])([E. ])(?: ?(d))?\s+(\S+)\s+(.*)$/.exec(line);
+        if (!match) {
+            return;
+        }
+
+        const [, demux, mux, device, names, description] = match;
+        names.split(',').forEach(name => {
+            // Formats listed twice, once per direction, are merged
+            const format = formats[name];
+            formats[name] = {
+                name,
+                description: format?.description ?? description.trim(),
+                canDemux: demux === 'D' || !!format?.canDemux,
+                canMux: mux === 'E' || !!format?.canMux,
+                isDevice: device === 'd' || !!format?.isDevice
+            };
+        });
+    });
+    return formats;
+}
+
+// Output of ffmpeg -codecs, ex. " DEA.L. aac   AAC (Advanced Audio Coding) (decoders: aac aac_fixed ) (encoders: aac )"
+export function ParseFfmpegCodecs(output: string) {
+    const codecs: { [name: string]: FfmpegCodec } = {};
+    ListLines(output).forEach(line => {
+        const match = /^ ([D.])([E.])([VASDT.])[I.][L.][S.]\s+(\S+)\s+(.*)$/.exec(line);
+        if (!match) {
+            return;
+        }
+
+        const [, decode, encode, type, name, details] = match;
+        const decoders = /\(decoders: ([^)]*)\)/.exec(details)?.[1].trim().split(/\s+/);
+        const encoders = /\(encoders: ([^)]*)\)/.exec(details)?.[1].trim().split(/\s+/);
+        codecs[name] = {
+            name,
+            description: details.replace(/\s*\((de|en)coders: [^)]*\)/g, '').trim(),
+            type: CODEC_TYPES[type] ?? StreamIngredientType.data,
+            canDecode: decode === 'D',
+            canEncode: encode === 'E',
+            // Codecs without a list have a single coder named after the codec
+            decoders: decoders ?? (decode === 'D' ? [name] : []),
+            encoders: encoders ?? (encode === 'E' ? [name] : [])
+        };
+    });
+    return codecs;
+}
+
+// Output of ffmpeg -encoders, ex. " A....D libopus   libopus Opus (codec opus)"
+export function ParseFfmpegEncoders(output: string) {
+    const encoders: { [name: string]: FfmpegEncoder } = {};
+    ListLines(output).forEach(line => {
+        const match = /^ ([VASDT.])[F.][S.]([X.])[B.][D.]\s+(\S+)\s+(.*)$/.exec(line);
+        if (!match) {
+            return;
+        }
+
+        const [, type, experimental, name, details] = match;
+        const codec = /\(codec (\S+)\)\s*$/.exec(details)?.[1];
+        encoders[name] = {
+            name,
+            description: details.replace(/\s*\(codec \S+\)\s*$/, '').trim(),
+            type: CODEC_TYPES[type] ?? StreamIngredientType.data,
+            codec: codec ?? name,
+            experimental: experimental === 'X'
+        };
+    });
+    return encoders;
+}
+
+// Output of ffmpeg -filters, ex. " TSC acompressor   A->A   Audio compressor"
+export function ParseFfmpegFilters(output: string) {
+    const filters: { [name: string]: FfmpegFilter } = {};
+    output.split(/\r?\n/).forEach(line => {
+        const match = /^ ([T.])([S.])([C.])\s+(\S+)\s+(\S+)->(\S+)\s+(.*)$/.exec(line);
+        if (!match) {
+            return;
+        }
+
+        const [, , , , name, input, filterOutput, description] = match;
+        filters[name] = { name, description: description.trim(), input, output: filterOutput };
+    });
+    return filters;
+}
@@ -0,0 +1,595 @@
+import Ajv from 'ajv';
+import { JSONSchema } from 'json-schema-typed';
+import * as path from 'path';
+
+import { Chapter } from './Ingredient.js';
+import { ChaptersFormatError, ChaptersParseError } from './utils/errors/ChaptersError.js';
+
+// ogm - CHAPTER01=00:00:00.000 and CHAPTER01NAME=Title pairs
+// matroska - mkvmerge XML chapters
+// ffmetadata - FFmpeg metadata [CHAPTER] sections
+// csv - start,end,title rows, the end column is optional
+// json - Array of { start, end?, title } objects
+export type ChaptersFormat = 'ogm' | 'matroska' | 'ffmetadata' | 'csv' | 'json';
+
+export interface ChaptersParseOptions {
+    // Media duration in seconds, used as the end of the last chapter when the format has no end times
+    duration?: number;
+    // Matroska edition to read, the default edition or the first edition if missing
+    edition?: number;
+}
+
+export interface ParsedChapters {
+    chapters: Chapter[];
+    // Content that cannot be represented, ex. nested or hidden Matroska chapters
+    warnings: string[];
+}
+
+// Parsed chapters use nanoseconds unless the format specifies a time base
+const NANOSECONDS_TIME_BASE = '1/1000000000';
+
+// Chapter without an end time, ends where the next chapter starts
+interface OpenChapter {
+    start: number; // Seconds
+    end?: number; // Seconds
+    title: string;
+}
+
+interface JSONChapter {
+    start: number | string;
+    end?: number | string;
+    title?: string;
+}
+
+const jsonChaptersSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        required: ['start'],
+        properties: {
+            start: { anyOf: [{ type: 'number' }, { type: 'string' }] },
+            end: { anyOf: [{ type: 'number' }, { type: 'string' }] },
+            title: { type: 'string' }
+        }
+    }
+} satisfies JSONSchema;
+
+//#region Times
+
+// Parse seconds (90.5) or a timestamp (01:30.500, 00:01:30.500000000) to seconds
+export function ParseChapterTime(time: number | string, format: ChaptersFormat, line?: number) {
+    if (typeof time === 'number') {
+        return time;
+    }
+
+    const value = time.trim();
+    if (/^\d+(\.\d+)?$/.test(value)) {
+        return Number(value);
+    }
+
+    const timestamp = /^(?:(\d+):)?(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/.exec(value);
+    if (!timestamp) {
+        throw new ChaptersParseError(format, `Invalid time ${time}`, line);
+    }
+    const [, hours = '0', minutes, seconds] = timestamp;
+    return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
+// Format seconds as HH:MM:SS with the given number of fraction digits
+export function FormatChapterTime(seconds: number, fractionDigits = 3) {
+    const scale = 10 ** fractionDigits;
+    const scaled = Math.round(seconds * scale);
+    const wholeSeconds = Math.floor(scaled / scale);
+    const fraction = scaled - wholeSeconds * scale;
+    const hours = Math.floor(wholeSeconds / 3600);
+    const minutes = Math.floor(wholeSeconds / 60) % 60;
+    const remainingSeconds = wholeSeconds % 60;
+    const time = [hours, minutes, remainingSeconds].map(value => String(value).padStart(2, '0')).join(':');
+    return fractionDigits > 0 ? `${time}.${String(fraction).padStart(fractionDigits, '0')}` : time;
+}
+
+function ToSeconds(time: number, timeBase: string) {
+    const [numerator, denominator = 1] = timeBase.split('/').map(Number);
+    return time * numerator / denominator;
+}
+
+// Close open chapters and convert them to nanosecond chapters
+function CloseChapters(openChapters: OpenChapter[], duration?: number): Chapter[] {
+    const sortedChapters = [...openChapters].sort((a, b) => a.start - b.start);
+    return sortedChapters.map((chapter, index) => {
+        const end = chapter.end ?? sortedChapters[index + 1]?.start ?? duration ?? chapter.start;
+        return {
+            id: index,
+            timeBase: NANOSECONDS_TIME_BASE,
+            start: Math.round(chapter.start * 1e9),
+            end: Math.round(end * 1e9),
+            title: chapter.title
+        };
+    });
+}
+
+//#endregion Times
+
+//#region OGM
+
+function ParseOgmChapters(text: string, options: ChaptersParseOptions): ParsedChapters {
+    const chapterMap = new Map<string, OpenChapter>();
+
+    text.split(/\r?\n/).forEach((line, index) => {
+        if (!line.trim()) {
+            return;
+        }
+
+        const entry = /^CHAPTER(\d+)(NAME)?=(.*)$/i.exec(line.trim());
+        if (!entry) {
+            throw new ChaptersParseError('ogm', `Unexpected line ${line}`, index + 1);
+        }
+
+        const [, number, isName, value] = entry;
+        const key = String(Number(number));
+        const chapter = chapterMap.get(key) ?? { start: NaN, title: '' };
+        if (isName) {
+            chapter.title = value;
+        } else {
+            chapter.start = ParseChapterTime(value, 'ogm', index + 1);
+        }
+        chapterMap.set(key, chapter);
+    });
+
+    const missingStart = [...chapterMap.entries()].find(([, chapter]) => Number.isNaN(chapter.start));
+    if (missingStart) {
+        throw new ChaptersParseError('ogm', `Chapter ${missingStart[0]} has a name but no time`);
+    }
+
+    return {
+        chapters: CloseChapters([...chapterMap.values()], options.duration),
+        warnings: []
+    };
+}
+
+function SerializeOgmChapters(chapters: Chapter[]) {
+    const digits = Math.max(2, String(chapters.length).length);
+    return chapters.map((chapter, index) => {
+        const number = String(index + 1).padStart(digits, '0');
+        return `CHAPTER${number}=${FormatChapterTime(ToSeconds(chapter.start, chapter.timeBase))}\nCHAPTER${number}NAME=${chapter.title ?? ''}\n`;
+    }).join('');
+}
+
+//#endregion OGM
+
+//#region Matroska XML
+
+interface XmlElement {
+    name: string;
+    children: XmlElement[];
+    text: string;
+}
+
+function DecodeXmlEntities(text: string) {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (entity, name: string) => {
+        switch (name.toLowerCase()) {
+            case 'lt': return '<';
+            case 'gt': return '>';
+            case 'amp': return '&';
+            case 'quot': return '"';
+            case 'apos': return '\'';
+            default:
+                return String.fromCodePoint(name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10));
+        }
+    });
+}
+
+function EncodeXmlEntities(text: string) {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+// Minimal XML parser for chapter files, attributes are ignored
+function ParseXml(xml: string): XmlElement {
+    const document: XmlElement = { name: '#document', children: [], text: '' };
+    const stack = [document];
+    const tokenPattern = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<\/([\w:.-]+)\s*>|<([\w:.-]+)(?:\s+[^\s=>/]+\s*=\s*(?:"[^"]*"|'[^']*'))*\s*(\/?)>|([^<]+)/g;
+
+    let expectedIndex = 0;
+    let token: RegExpExecArray | null;
+    while ((token = tokenPattern.exec(xml)) !== null) {
+        if (token.index !== expectedIndex) {
+            throw new ChaptersParseError('matroska', `Malformed XML at character ${expectedIndex}`);
+        }
+        expectedIndex = tokenPattern.lastIndex;
+
+        const [, cdata, closingName, openingName, selfClosing, text] = token;
+        const current = stack[stack.length - 1];
+        if (cdata !== undefined) {
+            current.text += cdata;
+        } else if (closingName) {
+            if (current.name !== closingName) {
+                throw new ChaptersParseError('matroska', `Unexpected closing tag ${closingName}`);
+            }
+            stack.pop();
+        } else if (openingName) {
+            const element: XmlElement = { name: openingName, children: [], text: '' };
+            current.children.push(element);
+            if (!selfClosing) {
+                stack.push(element);
+            }
+        } else if (text !== undefined) {
+            current.text += DecodeXmlEntities(text);
+        }
+    }
+
+    if (expectedIndex !== xml.length) {
+        throw new ChaptersParseError('matroska', `Malformed XML at character ${expectedIndex}`);
+    }
+    if (stack.length !== 1) {
+        throw new ChaptersParseError('matroska', `Unclosed tag ${stack[stack.length - 1].name}`);
+    }
+
+    return document;
+}
+
+function XmlChildren(element: XmlElement, name: string) {
+    return element.children.filter(child => child.name === name);
+}
+
+function XmlChildText(element: XmlElement, name: string) {
+    return XmlChildren(element, name)[0]?.text.trim();
+}
+
+function ParseMatroskaChapters(text: string, options: ChaptersParseOptions): ParsedChapters {
+    const warnings: string[] = [];
+    const [chaptersElement] = XmlChildren(ParseXml(text), 'Chapters');
+    if (!chaptersElement) {
+        throw new ChaptersParseError('matroska', 'Missing Chapters element');
+    }
+
+    const editions = XmlChildren(chaptersElement, 'EditionEntry');
+    const editionIndex = options.edition ?? Math.max(0, editions.findIndex(edition => XmlChildText(edition, 'EditionFlagDefault') === '1'));
+    const edition = editions[editionIndex];
+    if (!edition) {
+        throw new ChaptersParseError('matroska', `Edition ${editionIndex} not found`);
+    }
+    if (editions.length > 1) {
+        warnings.push(`Only edition ${editionIndex} of ${editions.length} editions was read`);
+    }
+    if (XmlChildText(edition, 'EditionFlagOrdered') === '1') {
+        warnings.push('Ordered edition read as plain chapters, playback order is not kept');
+    }
+
+    const openChapters: OpenChapter[] = [];
+    XmlChildren(edition, 'ChapterAtom').forEach((atom, index) => {
+        const start = XmlChildText(atom, 'ChapterTimeStart');
+        if (start === undefined) {
+            throw new ChaptersParseError('matroska', `Chapter ${index + 1} has no ChapterTimeStart`);
+        }
+        if (XmlChildText(atom, 'ChapterFlagHidden') === '1' || XmlChildText(atom, 'ChapterFlagEnabled') === '0') {
+            warnings.push(`Hidden or disabled chapter ${index + 1} was skipped`);
+            return;
+        }
+        if (XmlChildText(atom, 'ChapterSegmentUID') !== undefined) {
+            warnings.push(`Chapter ${index + 1} links to another segment and was skipped`);
+            return;
+        }
+        if (XmlChildren(atom, 'ChapterAtom').length) {
+            warnings.push(`Nested chapters of chapter ${index + 1} were skipped`);
+        }
+
+        const [display] = XmlChildren(atom, 'ChapterDisplay');
+        const end = XmlChildText(atom, 'ChapterTimeEnd');
+        openChapters.push({
+            start: ParseChapterTime(start, 'matroska'),
+            end: end !== undefined ? ParseChapterTime(end, 'matroska') : undefined,
+            title: display ? XmlChildText(display, 'ChapterString') ?? '' : ''
+        });
+    });
+
+    return {
+        chapters: CloseChapters(openChapters, options.duration),
+        warnings
+    };
+}
+
+function SerializeMatroskaChapters(chapters: Chapter[]) {
+    const atoms = chapters.map(chapter => [
+        '    <ChapterAtom>',
+        `      <ChapterTimeStart>${FormatChapterTime(ToSeconds(chapter.start, chapter.timeBase), 9)}</ChapterTimeStart>`,
+        `      <ChapterTimeEnd>${FormatChapterTime(ToSeconds(chapter.end, chapter.timeBase), 9)}</ChapterTimeEnd>`,
+        '      <ChapterDisplay>',
+        `        <ChapterString>${EncodeXmlEntities(chapter.title ?? '')}</ChapterString>`,
+        '        <ChapterLanguage>und</ChapterLanguage>',
+        '      </ChapterDisplay>',
+        '    </ChapterAtom>'
+    ].join('\n'));
+
+    return [
+        '<?xml version="1.0"?>',
+        '<!DOCTYPE Chapters SYSTEM "matroskachapters.dtd">',
+        '<Chapters>',
+        '  <EditionEntry>',
+        ...atoms,
+        '  </EditionEntry>',
+        '</Chapters>',
+        ''
+    ].join('\n');
+}
+
+//#endregion Matroska XML
+
+//#region FFMETADATA
+
+// Escape special FFMETADATA characters: = ; # \ and newlines
+function EscapeMetadataValue(value: string) {
+    return value.replace(/[=;#\\\n]/g, character => `\\${character}`);
+}
+
+interface FFMetadataLine {
+    text: string;
+    separator: number; // Index of the first unescaped =
+    escapedStart: boolean;
+}
+
+// Split into lines, escaped characters (including newlines) are kept literally
+function SplitFFMetadataLines(text: string) {
+    const lines: FFMetadataLine[] = [];
+    let line: FFMetadataLine = { text: '', separator: -1, escapedStart: false };
+
+    for (let index = 0; index < text.length; index++) {
+        const character = text[index];
+        if (character === '\\' && index + 1 < text.length) {
+            line.escapedStart ||= !line.text.length;
+            line.text += text[++index];
+        } else if (character === '\n') {
+            lines.push(line);
+            line = { text: '', separator: -1, escapedStart: false };
+        } else if (character !== '\r') {
+            if (character === '=' && line.separator === -1) {
+                line.separator = line.text.length;
+            }
+            line.text += character;
+        }
+    }
+    lines.push(line);
+
+    return lines;
+}
+
+function ParseFFMetadataChapters(text: string, options: ChaptersParseOptions): ParsedChapters {
+    const lines = SplitFFMetadataLines(text);
+    if (lines[0]?.text.trim() !== ';FFMETADATA1') {
+        throw new ChaptersParseError('ffmetadata', 'Missing ;FFMETADATA1 header', 1);
+    }
+
+    const sections: { line: number; entries: { [key: string]: string } }[] = [];
+    let inChapter = false;
+    lines.forEach((line, index) => {
+        if (!line.text.trim() || (!line.escapedStart && /^[;#]/.test(line.text))) {
+            return;
+        }
+        if (!line.escapedStart && /^\[.*\]$/.test(line.text.trim())) {
+            inChapter = line.text.trim() === '[CHAPTER]';
+            if (inChapter) {
+                sections.push({ line: index + 1, entries: {} });
+            }
+            return;
+        }
+        // Global and stream metadata are not chapters
+        if (!inChapter) {
+            return;
+        }
+        if (line.separator === -1) {
+            throw new ChaptersParseError('ffmetadata', `Expected key=value`, index + 1);
+        }
+        const key = line.text.slice(0, line.separator);
+        sections[sections.length - 1].entries[key.toUpperCase() === 'TITLE' ? 'title' : key.toUpperCase()] = line.text.slice(line.separator + 1);
+    });
+
+    // Chapters keep their time base, times without an end are closed by the next chapter
+    const timedChapters = sections.map(({ line, entries }) => {
+        const timeBase = entries.TIMEBASE ?? NANOSECONDS_TIME_BASE;
+        if (!/^\d+\/\d+$/.test(timeBase)) {
+            throw new ChaptersParseError('ffmetadata', `Invalid TIMEBASE ${timeBase}`, line);
+        }
+        if (entries.START === undefined || !/^-?\d+$/.test(entries.START)) {
+            throw new ChaptersParseError('ffmetadata', 'Missing or invalid START', line);
+        }
+        if (entries.END !== undefined && !/^-?\d+$/.test(entries.END)) {
+            throw new ChaptersParseError('ffmetadata', `Invalid END ${entries.END}`, line);
+        }
+        return {
+            timeBase,
+            start: Number(entries.START),
+            end: entries.END !== undefined ? Number(entries.END) : undefined,
+            title: entries.title ?? ''
+        };
+    }).sort((a, b) => ToSeconds(a.start, a.timeBase) - ToSeconds(b.start, b.timeBase));
+
+    const chapters = timedChapters.map((chapter, index): Chapter => {
+        const nextChapter = timedChapters[index + 1];
+        const [numerator, denominator] = chapter.timeBase.split('/').map(Number);
+        const fallbackEnd = nextChapter ? ToSeconds(nextChapter.start, nextChapter.timeBase) : options.duration;
+        return {
+            id: index,
+            timeBase: chapter.timeBase,
+            start: chapter.start,
+            end: chapter.end ?? (fallbackEnd !== undefined ? Math.round(fallbackEnd * denominator / numerator) : chapter.start),
+            title: chapter.title
+        };
+    });
+
+    return { chapters, warnings: [] };
+}
+
+export function SerializeFFMetadataChapters(chapters: Chapter[]) {
+    return chapters.reduce((prev, chapter) => `${prev}[CHAPTER]\nTIMEBASE=${chapter.timeBase}\nSTART=${chapter.start}\nEND=${chapter.end}\ntitle=${EscapeMetadataValue(chapter.title ?? '')}\n`, `;FFMETADATA1\n`);
+}
+
+//#endregion FFMETADATA
+
+//#region CSV and JSON
+
+function ParseCsvRow(row: string, line: number) {
+    const fields: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let index = 0; index < row.length; index++) {
+        const character = row[index];
+        if (quoted) {
+            if (character === '"' && row[index + 1] === '"') {
+                field += '"';
+                index++;
+            } else if (character === '"') {
+                quoted = false;
+            } else {
+                field += character;
+            }
+        } else if (character === '"') {
+            quoted = true;
+        } else if (character === ',') {
+            fields.push(field);
+            field = '';
+        } else {
+            field += character;
+        }
+    }
+    if (quoted) {
+        throw new ChaptersParseError('csv', 'Unclosed quote', line);
+    }
+    fields.push(field);
+
+    return fields.map(value => value.trim());
+}
+
+function ParseCsvChapters(text: string, options: ChaptersParseOptions): ParsedChapters {
+    const rows = text.split(/\r?\n/)
+        .map((row, index) => ({ row, line: index + 1 }))
+        .filter(({ row }) => row.trim());
+    if (!rows.length) {
+        return { chapters: [], warnings: [] };
+    }
+
+    // Columns are start,title or start,end,title without a header
+    const firstRow = ParseCsvRow(rows[0].row, rows[0].line);
+    const hasHeader = firstRow.some(field => ['start', 'end', 'title'].includes(field.toLowerCase()));
+    const columns = hasHeader
+        ? firstRow.map(field => field.toLowerCase())
+        : firstRow.length === 2 ? ['start', 'title'] : ['start', 'end', 'title'];
+    const startColumn = columns.indexOf('start');
+    if (startColumn === -1) {
+        throw new ChaptersParseError('csv', 'Missing start column', rows[0].line);
+    }
+    const endColumn = columns.indexOf('end');
+    const titleColumn = columns.indexOf('title');
+
+    const openChapters = rows.slice(hasHeader ? 1 : 0).map(({ row, line }) => {
+        const fields = ParseCsvRow(row, line);
+        const end = endColumn !== -1 ? fields[endColumn] : undefined;
+        return {
+            start: ParseChapterTime(fields[startColumn] ?? '', 'csv', line),
+            end: end ? ParseChapterTime(end, 'csv', line) : undefined,
+            title: titleColumn !== -1 ? fields[titleColumn] ?? '' : ''
+        };
+    });
+
+    return {
+        chapters: CloseChapters(openChapters, options.duration),
+        warnings: []
+    };
+}
+
+function SerializeCsvChapters(chapters: Chapter[]) {
+    const rows = chapters.map((chapter) => {
+        const title = chapter.title ?? '';
+        const escapedTitle = /[",\n]/.test(title) ? `"${title.replace(/"/g, '""')}"` : title;
+        return `${FormatChapterTime(ToSeconds(chapter.start, chapter.timeBase))},${FormatChapterTime(ToSeconds(chapter.end, chapter.timeBase))},${escapedTitle}`;
+    });
+    return ['start,end,title', ...rows, ''].join('\n');
+}
+
+function ParseJsonChapters(text: string, options: ChaptersParseOptions): ParsedChapters {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch (error) {
+        throw new ChaptersParseError('json', error instanceof Error ? error.message : 'Invalid JSON');
+    }
+
+    const ajv = new Ajv();
+    const validate = ajv.compile<JSONChapter[]>(jsonChaptersSchema);
+    if (!validate(parsed)) {
+        throw new ChaptersParseError('json', ajv.errorsText(validate.errors));
+    }
+
+    const openChapters = parsed.map(chapter => ({
+        start: ParseChapterTime(chapter.start, 'json'),
+        end: chapter.end !== undefined ? ParseChapterTime(chapter.end, 'json') : undefined,
+        title: chapter.title ?? ''
+    }));
+
+    return {
+        chapters: CloseChapters(openChapters, options.duration),
+        warnings: []
+    };
+}
+
+function SerializeJsonChapters(chapters: Chapter[]) {
+    const jsonChapters = chapters.map(chapter => ({
+        start: ToSeconds(chapter.start, chapter.timeBase),
+        end: ToSeconds(chapter.end, chapter.timeBase),
+        title: chapter.title ?? ''
+    }));
+    return `${JSON.stringify(jsonChapters, null, 4)}\n`;
+}
+
+//#endregion CSV and JSON
+
+// Guess the format from the file extension, then from the content
+export function DetectChaptersFormat(text: string, filePath?: string): ChaptersFormat {
+    switch (filePath ? path.extname(filePath).toLowerCase() : '') {
+        case '.xml': return 'matroska';
+        case '.csv': return 'csv';
+        case '.json': return 'json';
+        case '.ffmetadata': return 'ffmetadata';
+    }
+
+    const content = text.trimStart();
+    if (content.startsWith(';FFMETADATA')) {
+        return 'ffmetadata';
+    }
+    if (content.startsWith('<')) {
+        return 'matroska';
+    }
+    if (content.startsWith('[')) {
+        return 'json';
+    }
+    if (/^CHAPTER\d+=/i.test(content)) {
+        return 'ogm';
+    }
+    return 'csv';
+}
+
+export function ParseChapters(text: string, format: ChaptersFormat, options: ChaptersParseOptions = {}): ParsedChapters {
+    switch (format) {
+        case 'ogm': return ParseOgmChapters(text, options);
+        case 'matroska': return ParseMatroskaChapters(text, options);
+        case 'ffmetadata': return ParseFFMetadataChapters(text, options);
+        case 'csv': return ParseCsvChapters(text, options);
+        case 'json': return ParseJsonChapters(text, options);
+        default: throw new ChaptersFormatError(format);
+    }
+}
+
+// Chapters are written in the given order
+export function SerializeChapters(chapters: Chapter[], format: ChaptersFormat) {
+    switch (format) {
+        case 'ogm': return SerializeOgmChapters(chapters);
+        case 'matroska': return SerializeMatroskaChapters(chapters);
+        case 'ffmetadata': return SerializeFFMetadataChapters(chapters);
+        case 'csv': return SerializeCsvChapters(chapters);
+        case 'json': return SerializeJsonChapters(chapters);
+        default: throw new ChaptersFormatError(format);
+    }
+}
@@ -0,0 +1,202 @@
+
+import { FormatChapterTime } from './ChapterFormats.js';
+import { Chapter, ChaptersIngredient, ChaptersIngredientChapter, StreamIngredient, StreamIngredientType } from './Ingredient.js';
+import { ChaptersDetectionError, ChaptersDetectionStreamError, ChaptersDurationError } from './utils/errors/ChaptersError.js';
+import { CreateFfmpegCommand } from './utils/ffmpeg/FfmpegEnvironment.js';
+import { RenderTemplate } from './utils/templating/Template.js';
+
+/**
+ * Chapter title template variables:
+ * number (1 based), index (0 based), start, end
+ */
+export const DEFAULT_GENERATED_CHAPTER_TITLE = 'Chapter {number}';
+
+// Chapters shorter than this are merged into the previous chapter, seconds
+export const DEFAULT_MIN_CHAPTER_DURATION = 30;
+
+export type ChaptersGeneratorMethod = 'interval' | 'scene' | 'black' | 'silence';
+
+interface ChaptersGeneratorBaseOptions {
+    method: ChaptersGeneratorMethod;
+    title?: string; // Title template, DEFAULT_GENERATED_CHAPTER_TITLE if missing
+    minChapterDuration?: number; // Seconds, DEFAULT_MIN_CHAPTER_DURATION if missing
+}
+
+// A chapter every interval seconds
+export interface IntervalChaptersOptions extends ChaptersGeneratorBaseOptions {
+    method: 'interval';
+    interval: number;
+}
+
+// A chapter at every scene change scoring above the threshold (0-1), default 0.4
+export interface SceneChaptersOptions extends ChaptersGeneratorBaseOptions {
+    method: 'scene';
+    threshold?: number;
+}
+
+// A chapter where black frames end, ex. after an intro or before the credits
+export interface BlackChaptersOptions extends ChaptersGeneratorBaseOptions {
+    method: 'black';
+    minBlackDuration?: number; // Seconds, default 2
+    pictureThreshold?: number; // Ratio of black pixels for a black frame (0-1), default 0.98
+    pixelThreshold?: number; // Luminance for a black pixel (0-1), default 0.1
+}
+
+// A chapter where silence ends
+export interface SilenceChaptersOptions extends ChaptersGeneratorBaseOptions {
+    method: 'silence';
+    minSilenceDuration?: number; // Seconds, default 2
+    noise?: number; // Noise tolerance in dB, default -50
+}
+
+export type ChaptersGeneratorOptions = IntervalChaptersOptions | SceneChaptersOptions | BlackChaptersOptions | SilenceChaptersOptions;
+
+export type ChaptersDetectionOptions = Exclude<ChaptersGeneratorOptions, IntervalChaptersOptions>;
+
+// Stream type analyzed by each detection method
+export const CHAPTERS_DETECTION_STREAM_TYPES: { [method in ChaptersDetectionOptions['method']]: StreamIngredientType } = {
+    scene: StreamIngredientType.video,
+    black: StreamIngredientType.video,
+    silence: StreamIngredientType.audio
+};
+
+// Lines printed to stderr holding a chapter boundary
+const DETECTION_PATTERNS: { [method in ChaptersDetectionOptions['method']]: RegExp } = {
+    scene: /\[Parsed_showinfo.*\bpts_time:\s*(-?[\d.]+)/,
+    black: /\bblack_end:\s*(-?[\d.]+)/,
+    silence: /\bsilence_end:\s*(-?[\d.]+)/
+};
+
+// Number of stderr lines kept for detection errors
+const STDERR_TAIL_LINES = 20;
+
+function ValidateRange(name: string, value: number | undefined, min: number, max = Infinity) {
+    if (value !== undefined && (!Number.isFinite(value) || value < min || value > max)) {
+        throw new RangeError(`Invalid ${name}: ${value}`);
+    }
+}
+
+export function ValidateChaptersGeneratorOptions(options: ChaptersGeneratorOptions) {
+    ValidateRange('minimum chapter duration', options.minChapterDuration, 0);
+    switch (options.method) {
+        case 'interval':
+            if (!Number.isFinite(options.interval) || options.interval <= 0) {
+                throw new RangeError(`Invalid chapter interval: ${options.interval}`);
+            }
+            break;
+        case 'scene':
+            ValidateRange('scene threshold', options.threshold, 0, 1);
+            break;
+        case 'black':
+            ValidateRange('minimum black duration', options.minBlackDuration, 0);
+            ValidateRange('picture threshold', options.pictureThreshold, 0, 1);
+            ValidateRange('pixel threshold', options.pixelThreshold, 0, 1);
+            break;
+        case 'silence':
+            ValidateRange('minimum silence duration', options.minSilenceDuration, 0);
+            ValidateRange('noise tolerance', options.noise, -Infinity, 0);
+            break;
+    }
+}
+
+// ffmpeg filter option and filter graph analyzing the stream
+export function GetChaptersDetectionFilter(options: ChaptersDetectionOptions): [string, string] {
+    switch (options.method) {
+        case 'scene':
+            return ['-vf', `select='gt(scene,${options.threshold ?? 0.4})',showinfo`];
+        case 'black':
+            return ['-vf', `blackdetect=d=${options.minBlackDuration ?? 2}:pic_th=${options.pictureThreshold ?? 0.98}:pix_th=${options.pixelThreshold ?? 0.1}`];
+        case 'silence':
+            return ['-af', `silencedetect=noise=${options.noise ?? -50}dB:d=${options.minSilenceDuration ?? 2}`];
+    }
+}
+
+// Boundary time in seconds printed on the stderr line, undefined if the line holds none
+export function ParseChaptersDetectionLine(line: string, method: ChaptersDetectionOptions['method']) {
+    const match = DETECTION_PATTERNS[method].exec(line);
+    return match ? Number(match[1]) : undefined;
+}
+
+// Chapter start times for every interval seconds
+export function GetIntervalBoundaries(interval: number, duration: number) {
+    return Array.from({ length: Math.ceil(duration / interval) }, (_value, index) => index * interval);
+}
+
+// Chapters starting at 0 and at every boundary, boundaries too close to their neighbours or the end are dropped
+export function BuildGeneratedChapters(boundaries: number[], duration: number, options: Pick<ChaptersGeneratorOptions, 'title' | 'minChapterDuration'> = {}): Chapter[] {
+    const minChapterDuration = options.minChapterDuration ?? DEFAULT_MIN_CHAPTER_DURATION;
+    const starts = [...boundaries]
+        .sort((a, b) => a - b)
+        .reduce<number[]>((starts, time) => {
+            const shortestChapter = Math.min(time - starts[starts.length - 1], duration - time);
+            if (shortestChapter > 0 && shortestChapter >= minChapterDuration) {
+                starts.push(time);
+            }
+            return starts;
+        }, [0]);
+
+    const timeBase = ChaptersIngredient.DEFAULT_TIME_BASE;
+    return starts.map((start, index) => {
+        const end = starts[index + 1] ?? duration;
+        return {
+            id: index,
+            timeBase,
+            start: ChaptersIngredientChapter.FromSeconds(start, timeBase),
+            end: ChaptersIngredientChapter.FromSeconds(end, timeBase),
+            title: RenderTemplate(options.title ?? DEFAULT_GENERATED_CHAPTER_TITLE, {
+                number: index + 1,
+                index,
+                start: FormatChapterTime(start),
+                end: FormatChapterTime(end)
+            })
+        };
+    });
+}
+
+// Decode the stream with the detection filter and collect the boundaries printed by ffmpeg
+export async function DetectChapterBoundaries(ingredient: StreamIngredient, options: ChaptersDetectionOptions) {
+    if (ingredient.type !== CHAPTERS_DETECTION_STREAM_TYPES[options.method]) {
+        throw new ChaptersDetectionStreamError(options.method, ingredient.type);
+    }
+
+    return new Promise<number[]>((resolve, reject) => {
+        const boundaries: number[] = [];
+        const stderrTail: string[] = [];
+
+        CreateFfmpegCommand(ingredient.filePath)
+            .output('-')
+            .addOptions([
+                '-map', `0:${ingredient.index}`,
+                ...GetChaptersDetectionFilter(options),
+                '-f', 'null'
+            ])
+            .on('stderr', (line: string) => {
+                stderrTail.push(line);
+                if (stderrTail.length > STDERR_TAIL_LINES) {
+                    stderrTail.shift();
+                }
+
+                const boundary = ParseChaptersDetectionLine(line, options.method);
+                if (boundary !== undefined && Number.isFinite(boundary)) {
+                    boundaries.push(boundary);
+                }
+            })
+            .on('end', () => resolve(boundaries))
+            .on('error', (err) => reject(new ChaptersDetectionError(ingredient.filePath, options.method, err, stderrTail.join('\n'))))
+            .run();
+    });
+}
+
+// Generate standalone chapters for the media of the ingredient
+export async function GenerateChapters(ingredient: StreamIngredient, duration: number, options: ChaptersGeneratorOptions) {
+    ValidateChaptersGeneratorOptions(options);
+    if (!Number.isFinite(duration) || duration <= 0) {
+        throw new ChaptersDurationError(ingredient.filePath);
+    }
+
+    const boundaries = options.method === 'interval'
+        ? GetIntervalBoundaries(options.interval, duration)
+        : await DetectChapterBoundaries(ingredient, options);
+
+    return ChaptersIngredient.FromChapters(ingredient.filePath, BuildGeneratedChapters(boundaries, duration, options));
+}
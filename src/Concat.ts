@@ -0,0 +1,169 @@
+import { FfprobeStream } from 'fluent-ffmpeg';
+import * as path from 'path';
+
+import { IngredientBowl } from './Bowl.js';
+import { AUDIO_ENCODERS } from './Encoders.js';
+import { Chapter, ChaptersIngredient, ChaptersIngredientChapter, StreamIngredient, StreamIngredientType } from './Ingredient.js';
+import { GetTrimVideoEncoder } from './Trim.js';
+
+/**
+ * demuxer - parts are stream copied with the concat demuxer, every part must have the same streams and codec parameters
+ * filter - parts are decoded, normalized to the first part and re-encoded with the concat filter
+ */
+export type ConcatMethod = 'demuxer' | 'filter';
+
+// Position of a part on the joined timeline
+export interface MixingBowlConcatPart {
+    ingredientBowlId: number;
+    path: string;
+    offset: number; // Seconds
+    duration: number; // Seconds
+}
+
+export interface MixingBowlConcatPlan {
+    method: ConcatMethod;
+    parts: MixingBowlConcatPart[];
+    chapters: Chapter[]; // Chapters of the joined output
+    concatList?: string; // ffmpeg concat demuxer list, demuxer method only
+    concatListPath?: string;
+    filterGraph?: string; // filter method only
+}
+
+// ffprobe fields that must match for the concat demuxer to stream copy the parts
+const CONCAT_STREAM_PARAMETERS: { [type in StreamIngredientType]?: (keyof FfprobeStream)[] } = {
+    [StreamIngredientType.video]: ['codec_name', 'profile', 'width', 'height', 'pix_fmt', 'r_frame_rate'],
+    [StreamIngredientType.audio]: ['codec_name', 'profile', 'sample_rate', 'channels', 'channel_layout']
+};
+
+export function GetConcatPartDuration(part: IngredientBowl) {
+    return Number(part.ffProbeData.format.duration);
+}
+
+// Stream of a part with the same type and position within its type as the ingredient in the first part, undefined if missing
+export function GetConcatPartStream(part: IngredientBowl, ingredient: StreamIngredient, firstPart: IngredientBowl) {
+    const typeIndexes = (bowl: IngredientBowl) => bowl.ingredients
+        .filter(original => original.isOriginal && original.type === ingredient.type)
+        .map(original => original.index)
+        .sort((a, b) => a - b);
+
+    const position = typeIndexes(firstPart).indexOf(ingredient.index);
+    const index = position === -1 ? undefined : typeIndexes(part)[position];
+    return index === undefined ? undefined : part.ffProbeData.streams.find(stream => stream.index === index);
+}
+
+export function GetConcatEncoder(ingredient: StreamIngredient): string | undefined {
+    switch (ingredient.type) {
+        case StreamIngredientType.video:
+            return GetTrimVideoEncoder(ingredient.codec);
+        // DTS is not re-encoded, its encoder is experimental
+        case StreamIngredientType.audio:
+            return ingredient.codec === 'dts' ? undefined : AUDIO_ENCODERS[ingredient.codec];
+        default:
+            return undefined;
+    }
+}
+
+// The concat demuxer is used when every part holds the streams of the first part at the same indexes with the same codec parameters
+export function GetConcatMethod(parts: IngredientBowl[], ingredients: StreamIngredient[]): ConcatMethod {
+    const [firstPart] = parts;
+    const streamCount = firstPart.ffProbeData.streams.length;
+
+    const matching = parts.every(part => part.ffProbeData.streams.length === streamCount && ingredients.every((ingredient) => {
+        const firstStream = firstPart.ffProbeData.streams.find(stream => stream.index === ingredient.index);
+        const stream = GetConcatPartStream(part, ingredient, firstPart);
+        if (!firstStream || !stream || stream.index !== ingredient.index) {
+            return false;
+        }
+
+        const parameters = CONCAT_STREAM_PARAMETERS[ingredient.type] ?? ['codec_name'];
+        return parameters.every(parameter => stream[parameter] === firstStream[parameter]);
+    }));
+
+    return matching ? 'demuxer' : 'filter';
+}
+
+// Filter normalizing a part stream to the parameters of the first part
+function GetConcatNormalizeFilter(type: StreamIngredientType, firstStream: FfprobeStream) {
+    if (type === StreamIngredientType.video) {
+        const { width, height } = firstStream;
+        return `scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1`;
+    }
+
+    const sampleRate = `aresample=${firstStream.sample_rate}`;
+    return firstStream.channel_layout ? `${sampleRate},aformat=channel_layouts=${firstStream.channel_layout}` : sampleRate;
+}
+
+/**
+ * Concat filter graph joining the video and audio ingredients of every part, part n is read from input n + 1
+ * labels holds the filter output label of every ingredient
+ */
+export function BuildConcatFilter(parts: IngredientBowl[], ingredients: StreamIngredient[]) {
+    const [firstPart] = parts;
+    // The concat filter takes the video streams of a segment before its audio streams
+    const videoIngredients = ingredients.filter(ingredient => ingredient.type === StreamIngredientType.video);
+    const audioIngredients = ingredients.filter(ingredient => ingredient.type === StreamIngredientType.audio);
+    const orderedIngredients = [...videoIngredients, ...audioIngredients];
+
+    const filters: string[] = [];
+    const segmentLabels = parts.map((part, partIndex) => orderedIngredients.map((ingredient, streamIndex) => {
+        const firstStream = GetConcatPartStream(firstPart, ingredient, firstPart) as FfprobeStream;
+        const stream = GetConcatPartStream(part, ingredient, firstPart) as FfprobeStream;
+        const label = `p${partIndex}s${streamIndex}`;
+        filters.push(`[${partIndex + 1}:${stream.index}]${GetConcatNormalizeFilter(ingredient.type, firstStream)}[${label}]`);
+        return `[${label}]`;
+    }).join('')).join('');
+
+    const labels: { [ingredientId: number]: string } = {};
+    const outputLabels = orderedIngredients.map((ingredient, streamIndex) => {
+        labels[ingredient.id] = `c${streamIndex}`;
+        return `[c${streamIndex}]`;
+    }).join('');
+    filters.push(`${segmentLabels}concat=n=${parts.length}:v=${videoIngredients.length}:a=${audioIngredients.length}${outputLabels}`);
+
+    return { filterGraph: filters.join(';'), labels };
+}
+
+// Offsets of every part on the joined timeline, throws if a part has no duration
+export function GetConcatParts(parts: IngredientBowl[]): MixingBowlConcatPart[] {
+    let offset = 0;
+    return parts.map((part) => {
+        const duration = GetConcatPartDuration(part);
+        if (!Number.isFinite(duration) || duration <= 0) {
+            throw new RangeError(`Unknown duration: ${part.path}`);
+        }
+
+        const concatPart = { ingredientBowlId: part.id, path: part.path, offset, duration };
+        offset += duration;
+        return concatPart;
+    });
+}
+
+// Chapters of every part moved by the part offset, a part without chapters becomes a single chapter titled after the part
+export function MergeConcatChapters(parts: IngredientBowl[]): Chapter[] {
+    const timeBase = ChaptersIngredient.DEFAULT_TIME_BASE;
+    const chapters: Chapter[] = [];
+    const addChapter = (start: number, end: number, title: string) => {
+        chapters.push({
+            id: chapters.length,
+            timeBase,
+            start: ChaptersIngredientChapter.FromSeconds(start, timeBase),
+            end: ChaptersIngredientChapter.FromSeconds(end, timeBase),
+            title
+        });
+    };
+
+    GetConcatParts(parts).forEach(({ offset, duration }, partIndex) => {
+        const part = parts[partIndex];
+        const partChapters = (part.chapters?.sortedChapters ?? []).filter(chapter => chapter.startSeconds < duration);
+        if (!partChapters.length) {
+            addChapter(offset, offset + duration, part.tags?.title ?? path.parse(part.path).name);
+            return;
+        }
+
+        partChapters.forEach((chapter) => {
+            addChapter(offset + chapter.startSeconds, offset + Math.min(chapter.endSeconds, duration), chapter.title);
+        });
+    });
+
+    return chapters;
+}
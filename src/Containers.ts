@@ -0,0 +1,323 @@
+import { StreamIngredientType } from './Ingredient.js';
+
+// full - muxer and common players support the codec
+// limited - muxer supports the codec but playback support is poor or non-standard
+export type ContainerCodecSupport = 'full' | 'limited';
+
+export interface ContainerCodecs {
+    // '*' matches any codec not listed
+    [codec: string]: ContainerCodecSupport;
+}
+
+// full - written front to back
+// fragmented - only as fragmented MP4, plain files seek back to write the index
+export type ContainerStreaming = 'full' | 'fragmented';
+
+export interface ContainerFormat {
+    name: string;
+    longName: string;
+    ffmpegName: string;
+    // Holds a single raw elementary stream without container features (chapters, attachments, most metadata)
+    elementaryStream?: boolean;
+    // Can be written to a pipe, missing if the muxer seeks back to finish the file, ex. the AVI index
+    streaming?: ContainerStreaming;
+    // Stream types missing from codecs cannot be muxed into the container
+    codecs: { [type in StreamIngredientType]?: ContainerCodecs };
+}
+
+const MATROSKA_CODECS: ContainerFormat['codecs'] = {
+    video: { '*': 'full' },
+    audio: { '*': 'full' },
+    subtitle: {
+        ass: 'full',
+        ssa: 'full',
+        srt: 'full',
+        pgs: 'full',
+        vobsub: 'full',
+        webvtt: 'full',
+        dvb_subtitle: 'limited'
+    },
+    attachment: { '*': 'full' },
+    data: { '*': 'limited' }
+};
+
+const MP4_CODECS: ContainerFormat['codecs'] = {
+    video: {
+        h264: 'full',
+        hevc: 'full',
+        av1: 'full',
+        vp9: 'limited'
+    },
+    audio: {
+        aac: 'full',
+        ac3: 'full',
+        eac3: 'full',
+        mp3: 'full',
+        opus: 'limited',
+        flac: 'limited'
+    },
+    subtitle: {
+        mov_text: 'full'
+    },
+    data: { '*': 'limited' }
+};
+
+export const SUPPORTED_FORMATS: { [format: string]: ContainerFormat } = {
+    mkv: {
+        name: 'mkv',
+        longName: 'Matroska',
+        ffmpegName: 'matroska',
+        streaming: 'full',
+        codecs: MATROSKA_CODECS
+    },
+    mka: {
+        name: 'mka',
+        longName: 'Matroska Audio',
+        ffmpegName: 'matroska',
+        streaming: 'full',
+        codecs: MATROSKA_CODECS
+    },
+    mks: {
+        name: 'mks',
+        longName: 'Matroska Subtitles',
+        ffmpegName: 'matroska',
+        streaming: 'full',
+        codecs: MATROSKA_CODECS
+    },
+    webm: {
+        name: 'webm',
+        longName: 'WebM',
+        ffmpegName: 'webm',
+        streaming: 'full',
+        codecs: {
+            video: {
+                vp8: 'full',
+                vp9: 'full',
+                av1: 'full'
+            },
+            audio: {
+                opus: 'full',
+                vorbis: 'full'
+            },
+            subtitle: {
+                webvtt: 'full'
+            }
+        }
+    },
+    mp4: {
+        name: 'mp4',
+        longName: 'MPEG-4',
+        ffmpegName: 'mp4',
+        streaming: 'fragmented',
+        codecs: MP4_CODECS
+    },
+    m4a: {
+        name: 'm4a',
+        longName: 'MPEG-4 Audio',
+        ffmpegName: 'ipod',
+        streaming: 'fragmented',
+        codecs: {
+            audio: {
+                aac: 'full',
+                alac: 'full'
+            }
+        }
+    },
+    mov: {
+        name: 'mov',
+        longName: 'QuickTime',
+        ffmpegName: 'mov',
+        streaming: 'fragmented',
+        codecs: {
+            ...MP4_CODECS,
+            video: {
+                h264: 'full',
+                hevc: 'full',
+                prores: 'full'
+            }
+        }
+    },
+    avi: {
+        name: 'avi',
+        longName: 'Audio Video Interleaved',
+        ffmpegName: 'avi',
+        codecs: {
+            video: {
+                h264: 'limited',
+                mpeg4: 'full',
+                mjpeg: 'full'
+            },
+            audio: {
+                mp3: 'full',
+                ac3: 'full',
+                dts: 'full',
+                aac: 'limited'
+            }
+        }
+    },
+    ts: {
+        name: 'ts',
+        longName: 'MPEG Transport Stream',
+        ffmpegName: 'mpegts',
+        streaming: 'full',
+        codecs: {
+            video: {
+                h264: 'full',
+                hevc: 'full',
+                av1: 'limited'
+            },
+            audio: {
+                aac: 'full',
+                ac3: 'full',
+                eac3: 'full',
+                mp3: 'full',
+                dts: 'full',
+                opus: 'limited'
+            },
+            subtitle: {
+                dvb_subtitle: 'full'
+            },
+            data: { '*': 'limited' }
+        }
+    },
+    srt: {
+        name: 'srt',
+        longName: 'SubRip',
+        ffmpegName: 'srt',
+        elementaryStream: true,
+        streaming: 'full',
+        codecs: { subtitle: { srt: 'full' } }
+    },
+    ass: {
+        name: 'ass',
+        longName: 'Advanced SubStation Alpha',
+        ffmpegName: 'ass',
+        elementaryStream: true,
+        streaming: 'full',
+        codecs: { subtitle: { ass: 'full' } }
+    },
+    ssa: {
+        name: 'ssa',
+        longName: 'SubStation Alpha',
+        ffmpegName: 'ass',
+        elementaryStream: true,
+        streaming: 'full',
+        codecs: { subtitle: { ssa: 'full' } }
+    },
+    vtt: {
+        name: 'vtt',
+        longName: 'WebVTT',
+        ffmpegName: 'webvtt',
+        elementaryStream: true,
+        streaming: 'full',
+        codecs: { subtitle: { webvtt: 'full' } }
+    },
+    sup: {
+        name: 'sup',
+        longName: 'HDMV Presentation Graphic Stream',
+        ffmpegName: 'sup',
+        elementaryStream: true,
+        streaming: 'full',
+        codecs: { subtitle: { pgs: 'full' } }
+    },
+    opus: {
+        name: 'opus',
+        longName: 'Ogg Opus',
+        ffmpegName: 'opus',
+        elementaryStream: true,
+        streaming: 'full',
+        codecs: { audio: { opus: 'full' } }
+    },
+    flac: {
+        name: 'flac',
+        longName: 'FLAC',
+        ffmpegName: 'flac',
+        elementaryStream: true,
+        streaming: 'full',
+        codecs: { audio: { flac: 'full' } }
+    },
+    mp3: {
+        name: 'mp3',
+        longName: 'MP3',
+        ffmpegName: 'mp3',
+        elementaryStream: true,
+        streaming: 'full',
+        codecs: { audio: { mp3: 'full' } }
+    },
+    aac: {
+        name: 'aac',
+        longName: 'ADTS AAC',
+        ffmpegName: 'adts',
+        elementaryStream: true,
+        streaming: 'full',
+        codecs: { audio: { aac: 'full' } }
+    },
+    ac3: {
+        name: 'ac3',
+        longName: 'Raw AC-3',
+        ffmpegName: 'ac3',
+        elementaryStream: true,
+        streaming: 'full',
+        codecs: { audio: { ac3: 'full' } }
+    },
+    eac3: {
+        name: 'eac3',
+        longName: 'Raw E-AC-3',
+        ffmpegName: 'eac3',
+        elementaryStream: true,
+        streaming: 'full',
+        codecs: { audio: { eac3: 'full' } }
+    },
+    dts: {
+        name: 'dts',
+        longName: 'Raw DTS',
+        ffmpegName: 'dts',
+        elementaryStream: true,
+        streaming: 'full',
+        codecs: { audio: { dts: 'full' } }
+    },
+    h264: {
+        name: 'h264',
+        longName: 'Raw H.264',
+        ffmpegName: 'h264',
+        elementaryStream: true,
+        streaming: 'full',
+        codecs: { video: { h264: 'full' } }
+    },
+    hevc: {
+        name: 'hevc',
+        longName: 'Raw HEVC',
+        ffmpegName: 'hevc',
+        elementaryStream: true,
+        streaming: 'full',
+        codecs: { video: { hevc: 'full' } }
+    },
+    obu: {
+        name: 'obu',
+        longName: 'AV1 Low overhead OBU',
+        ffmpegName: 'obu',
+        elementaryStream: true,
+        streaming: 'full',
+        codecs: { video: { av1: 'full' } }
+    }
+};
+
+// Find the container format for a file extension, ex. '.mkv' or 'mkv'
+export function GetContainerFormat(extension: string): ContainerFormat | undefined {
+    return SUPPORTED_FORMATS[extension.replace(/^\./, '').toLowerCase()];
+}
+
+// Undefined if the codec cannot be muxed into the container
+export function GetContainerCodecSupport(container: ContainerFormat, type: StreamIngredientType, codec: string): ContainerCodecSupport | undefined {
+    const codecs = container.codecs[type];
+    if (!codecs) {
+        return undefined;
+    }
+    return codecs[codec] ?? codecs['*'];
+}
+
+// Elementary stream format able to hold the codec without a container, undefined if there is none
+export function GetElementaryStreamFormat(type: StreamIngredientType, codec: string): ContainerFormat | undefined {
+    return Object.values(SUPPORTED_FORMATS)
+        .find(format => format.elementaryStream && format.codecs[type]?.[codec]);
+}
@@ -0,0 +1,71 @@
+import * as path from 'path';
+
+import { IngredientBowl } from './Bowl.js';
+import { ContainerFormat, GetElementaryStreamFormat, SUPPORTED_FORMATS } from './Containers.js';
+import { StreamIngredient, StreamIngredientType } from './Ingredient.js';
+import { TemplateVariables } from './utils/templating/Template.js';
+
+/**
+ * Output path template variables:
+ * stem, dir, id, index, type, codec, language, title, ext
+ */
+export const DEFAULT_DEMUX_OUTPUT = '{dir}/{stem}.{index}.{language}.{ext}';
+
+// Stream types demuxed when no ingredients are specified
+export const DEFAULT_DEMUX_TYPES: StreamIngredientType[] = [
+    StreamIngredientType.video,
+    StreamIngredientType.audio,
+    StreamIngredientType.subtitle
+];
+
+export interface DemuxOptions {
+    output?: string; // Output path template, DEFAULT_DEMUX_OUTPUT if missing
+    // Ingredients of the Ingredient Bowl to demux, original video, audio and subtitle ingredients if missing
+    ingredientIds?: number[];
+    // Extract raw elementary streams when the codec allows it (ex. .srt, .ass, .sup, .opus, .h264)
+    // Streams without an elementary stream format are written to Matroska
+    elementaryStreams?: boolean;
+    // Outputs receiving the attachments (ex. fonts), default subtitle
+    attachments?: StreamIngredientType | 'all' | 'none';
+    // Outputs receiving the chapters, default video
+    chapters?: StreamIngredientType | 'all' | 'none';
+}
+
+// Matroska container for each stream type
+const DEMUX_CONTAINERS: { [type in StreamIngredientType]: ContainerFormat } = {
+    video: SUPPORTED_FORMATS.mkv,
+    audio: SUPPORTED_FORMATS.mka,
+    subtitle: SUPPORTED_FORMATS.mks,
+    attachment: SUPPORTED_FORMATS.mks,
+    data: SUPPORTED_FORMATS.mkv
+};
+
+export function GetDemuxFormat(ingredient: StreamIngredient, elementaryStreams = false): ContainerFormat {
+    const elementaryStreamFormat = elementaryStreams
+        ? GetElementaryStreamFormat(ingredient.type, ingredient.outputCodec)
+        : undefined;
+    return elementaryStreamFormat ?? DEMUX_CONTAINERS[ingredient.type];
+}
+
+// Elementary streams cannot hold attachments or chapters
+export function DemuxOutputReceives(format: ContainerFormat, ingredient: StreamIngredient, option: DemuxOptions['attachments']) {
+    if (format.elementaryStream || option === 'none') {
+        return false;
+    }
+    return option === 'all' || option === ingredient.type;
+}
+
+export function GetDemuxVariables(ingredientBowl: IngredientBowl, ingredient: StreamIngredient, format: ContainerFormat): TemplateVariables {
+    const { dir, name } = path.parse(ingredientBowl.path);
+    return {
+        stem: name,
+        dir,
+        id: ingredient.id,
+        index: ingredient.index,
+        type: ingredient.type,
+        codec: ingredient.outputCodec,
+        language: ingredient.language || 'und',
+        title: ingredient.title,
+        ext: format.name
+    };
+}
@@ -70,14 +70,207 @@ const audioConversionOptionsSchema = {
 } satisfies JSONSchema;
 
 //#region AAC Conversion
+
+// https://ffmpeg.org/ffmpeg-codecs.html#aac
 export interface AACConversionOptions extends AudioConversionOptions {
     codec: 'aac';
-    q?: string; // Quality for Variable bit rate (VBR) mode
+    q?: number; // Quality for Variable bit rate (VBR) mode, 0.1-2
     profile?: 'aac_low' | 'mpeg2_aac_low' | 'aac_ltp' | 'aac_main';
 }
 
+export const aacConversionOptionsSchema = {
+    ...audioConversionOptionsSchema,
+    // VBR quality and constant bitrate are separate rate control modes
+    not: {
+        required: ['q', 'bitrate']
+    },
+    properties: {
+        ...audioConversionOptionsSchema.properties,
+        // Overwrite codec with AAC only
+        codec: {
+            type: 'string',
+            enum: [
+                'aac'
+            ],
+        },
+        bitrate: {
+            type: 'number',
+            minimum: 0,
+        },
+        q: {
+            type: 'number',
+            minimum: 0.1,
+            maximum: 2
+        },
+        profile: {
+            type: 'string',
+            enum: [
+                'aac_low',
+                'mpeg2_aac_low',
+                'aac_ltp',
+                'aac_main'
+            ],
+            default: 'aac_low'
+        }
+    }
+} satisfies JSONSchema;
+
 //#endregion AAC Conversion
 
+//#region AC3/EAC3 Conversion
+
+// https://ffmpeg.org/ffmpeg-codecs.html#ac3-and-ac3_005ffixed
+export interface AC3ConversionOptions extends AudioConversionOptions {
+    codec: 'ac3' | 'eac3';
+    dialnorm?: number; // Dialogue normalization in dB, -31 to -1, Default -31
+}
+
+export const ac3ConversionOptionsSchema = {
+    ...audioConversionOptionsSchema,
+    properties: {
+        ...audioConversionOptionsSchema.properties,
+        // Overwrite codec with AC3 only
+        codec: {
+            type: 'string',
+            enum: [
+                'ac3'
+            ],
+        },
+        bitrate: {
+            type: 'number',
+            minimum: 0,
+            maximum: 640000
+        },
+        dialnorm: {
+            type: 'integer',
+            minimum: -31,
+            maximum: -1,
+            default: -31
+        }
+    }
+} satisfies JSONSchema;
+
+export const eac3ConversionOptionsSchema = {
+    ...ac3ConversionOptionsSchema,
+    properties: {
+        ...ac3ConversionOptionsSchema.properties,
+        // Overwrite codec with EAC3 only
+        codec: {
+            type: 'string',
+            enum: [
+                'eac3'
+            ],
+        },
+        bitrate: {
+            type: 'number',
+            minimum: 0,
+            maximum: 6144000
+        }
+    }
+} satisfies JSONSchema;
+
+//#endregion AC3/EAC3 Conversion
+
+//#region DTS Conversion
+
+// ffmpeg only encodes the DTS core, and only as an experimental encoder
+export interface DTSConversionOptions extends AudioConversionOptions {
+    codec: 'dts';
+}
+
+export const dtsConversionOptionsSchema = {
+    ...audioConversionOptionsSchema,
+    properties: {
+        ...audioConversionOptionsSchema.properties,
+        // Overwrite codec with DTS only
+        codec: {
+            type: 'string',
+            enum: [
+                'dts'
+            ],
+        },
+        bitrate: {
+            type: 'number',
+            minimum: 0,
+            maximum: 1509000
+        }
+    }
+} satisfies JSONSchema;
+
+//#endregion DTS Conversion
+
+//#region FLAC Conversion
+
+// https://ffmpeg.org/ffmpeg-codecs.html#flac-2
+export interface FLACConversionOptions extends AudioConversionOptions {
+    codec: 'flac';
+    compression_level?: number; // 0-12, Default 5
+}
+
+export const flacConversionOptionsSchema = {
+    ...audioConversionOptionsSchema,
+    // Lossless, the bitrate cannot be set
+    not: {
+        required: ['bitrate']
+    },
+    properties: {
+        ...audioConversionOptionsSchema.properties,
+        // Overwrite codec with FLAC only
+        codec: {
+            type: 'string',
+            enum: [
+                'flac'
+            ],
+        },
+        compression_level: {
+            type: 'integer',
+            minimum: 0,
+            maximum: 12,
+            default: 5
+        }
+    }
+} satisfies JSONSchema;
+
+//#endregion FLAC Conversion
+
+//#region MP3 Conversion
+
+// https://trac.ffmpeg.org/wiki/Encode/MP3
+export interface MP3ConversionOptions extends AudioConversionOptions {
+    codec: 'mp3';
+    q?: number; // Quality for Variable bit rate (VBR) mode, 0-9, lower is better
+}
+
+export const mp3ConversionOptionsSchema = {
+    ...audioConversionOptionsSchema,
+    // VBR quality and constant bitrate are separate rate control modes
+    not: {
+        required: ['q', 'bitrate']
+    },
+    properties: {
+        ...audioConversionOptionsSchema.properties,
+        // Overwrite codec with MP3 only
+        codec: {
+            type: 'string',
+            enum: [
+                'mp3'
+            ],
+        },
+        bitrate: {
+            type: 'number',
+            minimum: 8000,
+            maximum: 320000
+        },
+        q: {
+            type: 'integer',
+            minimum: 0,
+            maximum: 9
+        }
+    }
+} satisfies JSONSchema;
+
+//#endregion MP3 Conversion
+
 //#region OPUS Conversion
 
 // https://ffmpeg.org/ffmpeg-codecs.html#toc-libopus-1
@@ -144,6 +337,335 @@ export interface VideoChanges extends Changes<VideoCodec> {
     delay?: number;
 }
 
+export interface VideoConversionOptions extends ConversionChanges {
+    codec: 'h264' | 'hevc' | 'av1' | 'vp9';
+    crf?: number; // Constant rate factor (quality based rate control)
+    bitrate?: number; // Target bitrate in bits per second
+    maxrate?: number; // Maximum bitrate in bits per second
+    bufsize?: number; // Rate control buffer size in bits
+    pixelFormat?: string; // ex. yuv420p, yuv420p10le
+    keyframeInterval?: number; // Maximum frames between keyframes (GOP size)
+}
+
+const videoConversionOptionsSchema = {
+    type: 'object',
+    required: ['codec'],
+    properties: {
+        codec: {
+            type: 'string',
+            enum: [
+                'h264',
+                'hevc',
+                'av1',
+                'vp9'
+            ],
+        },
+        crf: {
+            type: 'number',
+            minimum: 0,
+        },
+        bitrate: {
+            type: 'number',
+            minimum: 0,
+        },
+        maxrate: {
+            type: 'number',
+            minimum: 0,
+        },
+        bufsize: {
+            type: 'number',
+            minimum: 0,
+        },
+        pixelFormat: {
+            type: 'string',
+        },
+        keyframeInterval: {
+            type: 'integer',
+            minimum: 1,
+        }
+    }
+} satisfies JSONSchema;
+
+// x264 and x265 share their preset names
+const x26xPresets = [
+    'ultrafast',
+    'superfast',
+    'veryfast',
+    'faster',
+    'fast',
+    'medium',
+    'slow',
+    'slower',
+    'veryslow',
+    'placebo'
+];
+
+//#region H.264 Conversion
+
+// https://trac.ffmpeg.org/wiki/Encode/H.264
+export interface X264ConversionOptions extends VideoConversionOptions {
+    codec: 'h264';
+    crf?: number; // 0-51, Default 23
+    preset?: 'ultrafast' | 'superfast' | 'veryfast' | 'faster' | 'fast' | 'medium' | 'slow' | 'slower' | 'veryslow' | 'placebo';
+    tune?: 'film' | 'animation' | 'grain' | 'stillimage' | 'fastdecode' | 'zerolatency' | 'psnr' | 'ssim';
+    profile?: 'baseline' | 'main' | 'high' | 'high10' | 'high422' | 'high444';
+    level?: string; // ex. 4.1
+}
+
+export const x264ConversionOptionsSchema = {
+    ...videoConversionOptionsSchema,
+    // CRF and target bitrate are separate rate control modes
+    not: {
+        required: ['crf', 'bitrate']
+    },
+    properties: {
+        ...videoConversionOptionsSchema.properties,
+        // Overwrite codec with H.264 only
+        codec: {
+            type: 'string',
+            enum: [
+                'h264'
+            ],
+        },
+        crf: {
+            type: 'number',
+            minimum: 0,
+            maximum: 51,
+            default: 23
+        },
+        preset: {
+            type: 'string',
+            enum: x26xPresets,
+            default: 'medium'
+        },
+        tune: {
+            type: 'string',
+            enum: [
+                'film',
+                'animation',
+                'grain',
+                'stillimage',
+                'fastdecode',
+                'zerolatency',
+                'psnr',
+                'ssim'
+            ]
+        },
+        profile: {
+            type: 'string',
+            enum: [
+                'baseline',
+                'main',
+                'high',
+                'high10',
+                'high422',
+                'high444'
+            ]
+        },
+        level: {
+            type: 'string',
+            pattern: '^[1-6](\\.[0-2])?$'
+        }
+    }
+} satisfies JSONSchema;
+
+//#endregion H.264 Conversion
+
+//#region H.265 Conversion
+
+// https://trac.ffmpeg.org/wiki/Encode/H.265
+export interface X265ConversionOptions extends VideoConversionOptions {
+    codec: 'hevc';
+    crf?: number; // 0-51, Default 28
+    preset?: X264ConversionOptions['preset'];
+    tune?: 'psnr' | 'ssim' | 'grain' | 'zerolatency' | 'fastdecode' | 'animation';
+    profile?: 'main' | 'main10' | 'main12' | 'main422-10' | 'main444-8' | 'main444-10';
+    level?: string; // ex. 5.1
+}
+
+export const x265ConversionOptionsSchema = {
+    ...videoConversionOptionsSchema,
+    // CRF and target bitrate are separate rate control modes
+    not: {
+        required: ['crf', 'bitrate']
+    },
+    properties: {
+        ...videoConversionOptionsSchema.properties,
+        // Overwrite codec with H.265 only
+        codec: {
+            type: 'string',
+            enum: [
+                'hevc'
+            ],
+        },
+        crf: {
+            type: 'number',
+            minimum: 0,
+            maximum: 51,
+            default: 28
+        },
+        preset: {
+            type: 'string',
+            enum: x26xPresets,
+            default: 'medium'
+        },
+        tune: {
+            type: 'string',
+            enum: [
+                'psnr',
+                'ssim',
+                'grain',
+                'zerolatency',
+                'fastdecode',
+                'animation'
+            ]
+        },
+        profile: {
+            type: 'string',
+            enum: [
+                'main',
+                'main10',
+                'main12',
+                'main422-10',
+                'main444-8',
+                'main444-10'
+            ]
+        },
+        level: {
+            type: 'string',
+            pattern: '^[1-6](\\.[0-2])?$'
+        }
+    }
+} satisfies JSONSchema;
+
+//#endregion H.265 Conversion
+
+//#region AV1 Conversion
+
+// https://trac.ffmpeg.org/wiki/Encode/AV1#SVT-AV1
+export interface SvtAv1ConversionOptions extends VideoConversionOptions {
+    codec: 'av1';
+    crf?: number; // 0-63, Default 35
+    preset?: number; // 0-13, lower is slower with better quality
+    tune?: 0 | 1 | 2; // 0 = VQ, 1 = PSNR, 2 = SSIM
+    profile?: 'main' | 'high' | 'professional';
+    level?: string; // ex. 5.1
+}
+
+export const svtAv1ConversionOptionsSchema = {
+    ...videoConversionOptionsSchema,
+    // CRF and target bitrate are separate rate control modes
+    not: {
+        required: ['crf', 'bitrate']
+    },
+    properties: {
+        ...videoConversionOptionsSchema.properties,
+        // Overwrite codec with AV1 only
+        codec: {
+            type: 'string',
+            enum: [
+                'av1'
+            ],
+        },
+        crf: {
+            type: 'number',
+            minimum: 0,
+            maximum: 63,
+            default: 35
+        },
+        preset: {
+            type: 'integer',
+            minimum: 0,
+            maximum: 13
+        },
+        tune: {
+            type: 'integer',
+            enum: [
+                0,
+                1,
+                2
+            ]
+        },
+        profile: {
+            type: 'string',
+            enum: [
+                'main',
+                'high',
+                'professional'
+            ]
+        },
+        level: {
+            type: 'string',
+            pattern: '^[2-7]\\.[0-3]$'
+        }
+    }
+} satisfies JSONSchema;
+
+//#endregion AV1 Conversion
+
+//#region VP9 Conversion
+
+// https://trac.ffmpeg.org/wiki/Encode/VP9
+export interface Vp9ConversionOptions extends VideoConversionOptions {
+    codec: 'vp9';
+    crf?: number; // 0-63, with bitrate acts as constrained quality
+    preset?: 'good' | 'best' | 'realtime'; // libvpx deadline
+    cpuUsed?: number; // -8-8, higher is faster with lower quality
+    tune?: 'psnr' | 'ssim';
+    profile?: 0 | 1 | 2 | 3;
+}
+
+export const vp9ConversionOptionsSchema = {
+    ...videoConversionOptionsSchema,
+    properties: {
+        ...videoConversionOptionsSchema.properties,
+        // Overwrite codec with VP9 only
+        codec: {
+            type: 'string',
+            enum: [
+                'vp9'
+            ],
+        },
+        crf: {
+            type: 'number',
+            minimum: 0,
+            maximum: 63,
+        },
+        preset: {
+            type: 'string',
+            enum: [
+                'good',
+                'best',
+                'realtime'
+            ],
+            default: 'good'
+        },
+        cpuUsed: {
+            type: 'integer',
+            minimum: -8,
+            maximum: 8
+        },
+        tune: {
+            type: 'string',
+            enum: [
+                'psnr',
+                'ssim'
+            ]
+        },
+        profile: {
+            type: 'integer',
+            enum: [
+                0,
+                1,
+                2,
+                3
+            ]
+        }
+    }
+} satisfies JSONSchema;
+
+//#endregion VP9 Conversion
+
 //#endregion Video Changes
 
 //#region Subtitle Changes
@@ -154,4 +676,167 @@ export interface SubtitleChanges extends Changes<SubtitleCodec> {
     delay?: number;
 }
 
+// Only text subtitles can be converted, image subtitles (PGS, VobSub) require OCR
+export interface SubtitleConversionOptions extends ConversionChanges {
+    codec: 'srt' | 'ass' | 'ssa' | 'webvtt' | 'mov_text';
+}
+
+const subtitleConversionOptionsSchema = {
+    type: 'object',
+    required: ['codec'],
+    properties: {
+        codec: {
+            type: 'string',
+            enum: [
+                'srt',
+                'ass',
+                'ssa',
+                'webvtt',
+                'mov_text'
+            ],
+        }
+    }
+} satisfies JSONSchema;
+
+//#region SRT Conversion
+
+export interface SRTConversionOptions extends SubtitleConversionOptions {
+    codec: 'srt';
+}
+
+export const srtConversionOptionsSchema = {
+    ...subtitleConversionOptionsSchema,
+    properties: {
+        ...subtitleConversionOptionsSchema.properties,
+        // Overwrite codec with SRT only
+        codec: {
+            type: 'string',
+            enum: [
+                'srt'
+            ],
+        }
+    }
+} satisfies JSONSchema;
+
+//#endregion SRT Conversion
+
+//#region ASS/SSA Conversion
+
+export interface ASSConversionOptions extends SubtitleConversionOptions {
+    codec: 'ass' | 'ssa';
+}
+
+export const assConversionOptionsSchema = {
+    ...subtitleConversionOptionsSchema,
+    properties: {
+        ...subtitleConversionOptionsSchema.properties,
+        // Overwrite codec with ASS only
+        codec: {
+            type: 'string',
+            enum: [
+                'ass'
+            ],
+        }
+    }
+} satisfies JSONSchema;
+
+export const ssaConversionOptionsSchema = {
+    ...subtitleConversionOptionsSchema,
+    properties: {
+        ...subtitleConversionOptionsSchema.properties,
+        // Overwrite codec with SSA only
+        codec: {
+            type: 'string',
+            enum: [
+                'ssa'
+            ],
+        }
+    }
+} satisfies JSONSchema;
+
+//#endregion ASS/SSA Conversion
+
+//#region WebVTT Conversion
+
+export interface WebVTTConversionOptions extends SubtitleConversionOptions {
+    codec: 'webvtt';
+}
+
+export const webvttConversionOptionsSchema = {
+    ...subtitleConversionOptionsSchema,
+    properties: {
+        ...subtitleConversionOptionsSchema.properties,
+        // Overwrite codec with WebVTT only
+        codec: {
+            type: 'string',
+            enum: [
+                'webvtt'
+            ],
+        }
+    }
+} satisfies JSONSchema;
+
+//#endregion WebVTT Conversion
+
+//#region MOV Text Conversion
+
+// MP4 timed text
+export interface MovTextConversionOptions extends SubtitleConversionOptions {
+    codec: 'mov_text';
+    height?: number; // Frame height used to position the text, defaults to the video height
+}
+
+export const movTextConversionOptionsSchema = {
+    ...subtitleConversionOptionsSchema,
+    properties: {
+        ...subtitleConversionOptionsSchema.properties,
+        // Overwrite codec with MOV Text only
+        codec: {
+            type: 'string',
+            enum: [
+                'mov_text'
+            ],
+        },
+        height: {
+            type: 'integer',
+            minimum: 0
+        }
+    }
+} satisfies JSONSchema;
+
+//#endregion MOV Text Conversion
+
 //#endregion Subtitle Changes
+
+//#region Encoders
+
+// ffmpeg encoder writing each codec, ex. libx264 for h264, used for conversions and re-encoded trims and joins
+export const VIDEO_ENCODERS: { [codec: string]: string } = {
+    h264: 'libx264',
+    hevc: 'libx265',
+    av1: 'libsvtav1',
+    vp9: 'libvpx-vp9',
+    vp8: 'libvpx',
+    mpeg4: 'mpeg4'
+};
+
+// dca is experimental and needs -strict experimental
+export const AUDIO_ENCODERS: { [codec: string]: string } = {
+    aac: 'aac',
+    ac3: 'ac3',
+    eac3: 'eac3',
+    dts: 'dca',
+    opus: 'libopus',
+    flac: 'flac',
+    mp3: 'libmp3lame'
+};
+
+export const SUBTITLE_ENCODERS: { [codec: string]: string } = {
+    srt: 'srt',
+    ass: 'ass',
+    ssa: 'ssa',
+    webvtt: 'webvtt',
+    mov_text: 'mov_text'
+};
+
+//#endregion Encoders
@@ -0,0 +1,231 @@
+import { VideoSaladTransactionError, VideoSaladType } from './utils/errors/VideoSaladError.js';
+
+// Returns an object to the state it had when the snapshot was taken
+export type RestoreSnapshot = () => void;
+
+export interface HistoryTarget {
+    type: VideoSaladType;
+    id: number;
+}
+
+// Object whose state is captured before and after a command
+export interface HistorySubject {
+    target: HistoryTarget;
+    snapshot: () => RestoreSnapshot;
+}
+
+// Object created by a command, discard undoes its creation
+export interface HistoryCreation extends HistorySubject {
+    discard: RestoreSnapshot;
+}
+
+export interface HistoryEntry {
+    id: number;
+    label: string; // SDK method, or transaction label
+    commandIds: number[]; // Every command of a transaction, otherwise a single command
+    time: Date;
+    targets: HistoryTarget[];
+}
+
+export interface HistoryState {
+    undo: HistoryEntry[]; // Oldest first, the last entry is undone next
+    redo: HistoryEntry[]; // The first entry is redone next
+    transaction?: string; // Label of the open transaction
+}
+
+interface JournalEntry extends HistoryEntry {
+    before: RestoreSnapshot[];
+    after: RestoreSnapshot[];
+}
+
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+// Undo/redo journal of state snapshots taken around each command
+export class CommandJournal {
+    private nextEntryId = 0;
+    private maxEntries: number;
+
+    private undoEntries: JournalEntry[] = [];
+    private redoEntries: JournalEntry[] = [];
+    // Entries recorded since the transaction started
+    private transactionEntries?: JournalEntry[];
+    private transactionLabel?: string;
+
+    constructor(limit = DEFAULT_HISTORY_LIMIT) {
+        this.maxEntries = CommandJournal.ValidateLimit(limit);
+    }
+
+    private static ValidateLimit(limit: number) {
+        if (!Number.isInteger(limit) || limit < 1) {
+            throw new RangeError(`Invalid history limit: ${limit}`);
+        }
+        return limit;
+    }
+
+    private static ToHistoryEntry({ id, label, commandIds, time, targets }: JournalEntry): HistoryEntry {
+        return { id, label, commandIds: [...commandIds], time, targets: [...targets] };
+    }
+
+    // Undone in reverse order, so each object returns to the state before the first change
+    private static Restore(snapshots: RestoreSnapshot[], reverse: boolean) {
+        (reverse ? [...snapshots].reverse() : snapshots).forEach(restore => restore());
+    }
+
+    // Maximum number of undoable entries, the oldest entries are dropped first
+    public get limit() {
+        return this.maxEntries;
+    }
+
+    public set limit(limit: number) {
+        this.maxEntries = CommandJournal.ValidateLimit(limit);
+        this.trim();
+    }
+
+    public get state(): HistoryState {
+        return {
+            undo: this.undoEntries.map(CommandJournal.ToHistoryEntry),
+            redo: [...this.redoEntries].reverse().map(CommandJournal.ToHistoryEntry),
+            ...(this.transactionLabel !== undefined ? { transaction: this.transactionLabel } : {})
+        };
+    }
+
+    public get canUndo() {
+        return this.transactionLabel === undefined && this.undoEntries.length > 0;
+    }
+
+    public get canRedo() {
+        return this.transactionLabel === undefined && this.redoEntries.length > 0;
+    }
+
+    /**
+     * Snapshot the subjects, run the command and record the change
+     * getCreated returns the objects created by the command once it has finished
+     * If the command throws, the subjects are restored, the created objects discarded and nothing is recorded
+     */
+    public async record<T>(label: string, commandId: number, subjects: HistorySubject[], command: () => Promise<T>, getCreated: () => HistoryCreation[] = () => []) {
+        const before = subjects.map(subject => subject.snapshot());
+
+        let result: T;
+        try {
+            result = await command();
+        } catch (error) {
+            CommandJournal.Restore([...before, ...getCreated().map(({ discard }) => discard)], true);
+            throw error;
+        }
+
+        const created = getCreated();
+        this.push({
+            id: this.nextEntryId++,
+            label,
+            commandIds: [commandId],
+            time: new Date(),
+            targets: [...subjects, ...created].map(({ target }) => target),
+            before: [...before, ...created.map(({ discard }) => discard)],
+            after: [...subjects, ...created].map(subject => subject.snapshot())
+        });
+
+        return result;
+    }
+
+    /**
+     * Record every command run by the callback as a single entry
+     * If the callback throws, its commands are undone and nothing is recorded
+     * Nested transactions are part of the outer transaction
+     */
+    public async transaction<T>(label: string, callback: () => Promise<T>) {
+        if (this.transactionEntries) {
+            return callback();
+        }
+
+        const entries: JournalEntry[] = [];
+        this.transactionEntries = entries;
+        this.transactionLabel = label;
+
+        let result: T;
+        try {
+            result = await callback();
+        } catch (error) {
+            this.transactionEntries = undefined;
+            this.transactionLabel = undefined;
+            CommandJournal.Restore(entries.flatMap(entry => entry.before), true);
+            throw error;
+        }
+
+        this.transactionEntries = undefined;
+        this.transactionLabel = undefined;
+        if (entries.length) {
+            this.push({
+                id: this.nextEntryId++,
+                label,
+                commandIds: entries.flatMap(entry => entry.commandIds),
+                time: new Date(),
+                targets: entries
+                    .flatMap(entry => entry.targets)
+                    .filter((target, index, targets) => targets.findIndex(({ type, id }) => type === target.type && id === target.id) === index),
+                before: entries.flatMap(entry => entry.before),
+                after: entries.flatMap(entry => entry.after)
+            });
+        }
+
+        return result;
+    }
+
+    // Undefined if there is nothing to undo
+    public undo() {
+        this.assertNoTransaction();
+
+        const entry = this.undoEntries.pop();
+        if (!entry) {
+            return undefined;
+        }
+
+        CommandJournal.Restore(entry.before, true);
+        this.redoEntries.push(entry);
+        return CommandJournal.ToHistoryEntry(entry);
+    }
+
+    // Undefined if there is nothing to redo
+    public redo() {
+        this.assertNoTransaction();
+
+        const entry = this.redoEntries.pop();
+        if (!entry) {
+            return undefined;
+        }
+
+        CommandJournal.Restore(entry.after, false);
+        this.undoEntries.push(entry);
+        return CommandJournal.ToHistoryEntry(entry);
+    }
+
+    public clear() {
+        this.assertNoTransaction();
+
+        this.undoEntries = [];
+        this.redoEntries = [];
+    }
+
+    private push(entry: JournalEntry) {
+        if (this.transactionEntries) {
+            this.transactionEntries.push(entry);
+            return;
+        }
+
+        // A new change replaces the undone changes
+        this.redoEntries = [];
+        this.undoEntries.push(entry);
+        this.trim();
+    }
+
+    private trim() {
+        if (this.undoEntries.length > this.maxEntries) {
+            this.undoEntries.splice(0, this.undoEntries.length - this.maxEntries);
+        }
+    }
+
+    private assertNoTransaction() {
+        if (this.transactionLabel !== undefined) {
+            throw new VideoSaladTransactionError(this.transactionLabel);
+        }
+    }
+}
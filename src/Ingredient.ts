@@ -4,8 +4,63 @@ import { FfprobeStream } from 'fluent-ffmpeg';
 // Perhaps use rollup to transpile iso-639-2 to commonjs and include in bundle
 // import * as iso6392 from 'iso-639-2';
 
-import { AudioChanges, AudioConversionOptions, Changes, ConversionChanges, OpusConversionOptions, SubtitleChanges, VideoChanges, opusConversionOptionsSchema } from './Encoders.js';
+import { GetLoadedFfmpegCapabilities } from './Capabilities.js';
+import { FormatChapterTime, SerializeFFMetadataChapters } from './ChapterFormats.js';
+import {
+    AACConversionOptions,
+    AC3ConversionOptions,
+    ASSConversionOptions,
+    AUDIO_ENCODERS,
+    AudioChanges,
+    AudioConversionOptions,
+    Changes,
+    ConversionChanges,
+    FLACConversionOptions,
+    MP3ConversionOptions,
+    MovTextConversionOptions,
+    OpusConversionOptions,
+    SUBTITLE_ENCODERS,
+    SubtitleChanges,
+    SubtitleConversionOptions,
+    SvtAv1ConversionOptions,
+    VIDEO_ENCODERS,
+    VideoChanges,
+    VideoConversionOptions,
+    Vp9ConversionOptions,
+    X264ConversionOptions,
+    X265ConversionOptions,
+    aacConversionOptionsSchema,
+    ac3ConversionOptionsSchema,
+    assConversionOptionsSchema,
+    dtsConversionOptionsSchema,
+    eac3ConversionOptionsSchema,
+    flacConversionOptionsSchema,
+    movTextConversionOptionsSchema,
+    mp3ConversionOptionsSchema,
+    opusConversionOptionsSchema,
+    srtConversionOptionsSchema,
+    ssaConversionOptionsSchema,
+    svtAv1ConversionOptionsSchema,
+    vp9ConversionOptionsSchema,
+    webvttConversionOptionsSchema,
+    x264ConversionOptionsSchema,
+    x265ConversionOptionsSchema
+} from './Encoders.js';
+import {
+    IngredientChapterInvalidTimeError,
+    IngredientChapterMissingEndError,
+    IngredientChapterNotFoundError,
+    IngredientChaptersValidationError,
+    IngredientConvertDecodeOnlyError,
+    IngredientConvertImageSubtitleError,
+    IngredientConvertInvalidOptionsError,
+    IngredientConvertUnsupportedCodecError
+} from './utils/errors/IngredientError.js';
+import { RestoreSnapshot } from './History.js';
+import { RoundSyncOffset } from './Sync.js';
+import { GetBinaryPath, GetFfmpegEnvironment, RunInFfmpegEnvironment } from './utils/ffmpeg/FfmpegEnvironment.js';
 import { NutritionLogger } from './utils/logging/NutritionLogger.js';
+import { RenderTemplate } from './utils/templating/Template.js';
 import { JSONSchema } from 'json-schema-typed';
 
 export const enum StreamIngredientType {
@@ -44,6 +99,7 @@ export const enum SubtitleCodec {
     PSG = 'pgs',
     VOBSUB = 'vobsub',
     WEBVTT = 'webvtt',
+    MOV_TEXT = 'mov_text'
 }
 
 // https://www.iana.org/assignments/media-types/media-types.xhtml#font
@@ -99,6 +155,47 @@ export interface Chapter {
     title: string; // TAG:title
 }
 
+// Serializable chapter changes, used to save sessions
+export interface ChaptersIngredientChapterState {
+    id: number;
+    changes: Partial<Chapter>;
+}
+
+export interface ChaptersIngredientState {
+    id: number;
+    chapters: ChaptersIngredientChapterState[]; // Modified chapters
+    added?: Chapter[];
+    removedChapterIds?: number[];
+}
+
+// Chapter times are in seconds
+export type ChaptersOperation =
+    | { type: 'add'; start: number; end?: number; title: string }
+    | { type: 'update'; chapterId: number; start?: number; end?: number; title?: string }
+    | { type: 'remove'; chapterId: number }
+    | { type: 'merge'; chapterId: number } // Merge with the following chapter
+    | { type: 'split'; chapterId: number; at: number; title?: string }
+    | { type: 'shift'; offset: number }
+    | { type: 'rename'; template: string };
+
+export interface ChaptersValidationIssue {
+    code: 'invalidRange' | 'negativeStart' | 'overlap' | 'exceedsDuration';
+    message: string;
+    chapterId: number;
+}
+
+// Serializable ingredient changes, used to save sessions
+export interface StreamIngredientState {
+    id: number;
+    index: number; // Stream index within the source file
+    type: StreamIngredientType;
+    isOriginal: boolean;
+    tags?: { [name: string]: string | null }; // null removes the tag
+    dispositions?: Disposition;
+    changes: { [change: string]: unknown }; // Remaining changes, ex. delay
+    conversion?: ConversionChanges;
+}
+
 // const UND_LANG = iso6392.iso6392.find(isoLang => isoLang.iso6392B === 'und') as iso6392.Language;
 
 abstract class Ingredient {
@@ -106,6 +203,9 @@ abstract class Ingredient {
     private static NEXT_ID = 0;
 
     public readonly id: number;
+    // Logger and ffmpeg binaries of the VideoSalad that created the ingredient, also used when its methods are called directly
+    protected nutritionLogger = NutritionLogger.current;
+    protected environment = GetFfmpegEnvironment();
 
     constructor(public readonly filePath: string, public readonly isOriginal: boolean) {
         // Set the id of the Ingredient and increment the next id
@@ -113,6 +213,11 @@ abstract class Ingredient {
     }
 
     public abstract copy(): Ingredient;
+
+    // Entries logged and ffmpeg commands run by the command use the logger and binaries of the ingredient
+    protected withContext<T>(command: () => T) {
+        return NutritionLogger.Run(this.nutritionLogger, () => RunInFfmpegEnvironment(this.environment, command));
+    }
 }
 
 export class ChaptersIngredientChapter {
@@ -126,6 +231,18 @@ export class ChaptersIngredientChapter {
         private changes: Partial<Chapter> = {}
     ) { }
 
+    // Convert a time in time base units to seconds
+    public static ToSeconds(time: number, timeBase: string) {
+        const [numerator, denominator = 1] = timeBase.split('/').map(Number);
+        return time * numerator / denominator;
+    }
+
+    // Convert seconds to a time in time base units
+    public static FromSeconds(seconds: number, timeBase: string) {
+        const [numerator, denominator = 1] = timeBase.split('/').map(Number);
+        return Math.round(seconds * denominator / numerator);
+    }
+
     public get start() {
         return this.changes.start ?? this.startTime;
     }
@@ -142,8 +259,24 @@ export class ChaptersIngredientChapter {
         this.changes.end = end;
     }
 
+    public get startSeconds() {
+        return ChaptersIngredientChapter.ToSeconds(this.start, this.timeBase);
+    }
+
+    public set startSeconds(seconds: number) {
+        this.start = ChaptersIngredientChapter.FromSeconds(seconds, this.timeBase);
+    }
+
+    public get endSeconds() {
+        return ChaptersIngredientChapter.ToSeconds(this.end, this.timeBase);
+    }
+
+    public set endSeconds(seconds: number) {
+        this.end = ChaptersIngredientChapter.FromSeconds(seconds, this.timeBase);
+    }
+
     public get timeBase() {
-        return this.changes.timeBase ?? this.timeBase;
+        return this.changes.timeBase ?? this.time_base;
     }
 
     public set timeBase(timeBase: string) {
@@ -151,7 +284,7 @@ export class ChaptersIngredientChapter {
     }
 
     public get title() {
-        return this.changes.title ?? this.title;
+        return this.changes.title ?? this.originalTitle;
     }
 
     public set title(title: string) {
@@ -165,27 +298,436 @@ export class ChaptersIngredientChapter {
     public copy() {
         return new ChaptersIngredientChapter(this.id, this.time_base, this.startTime, this.endTime, this.originalTitle, false, { ...this.changes });
     }
+
+    public toChapter(): Chapter {
+        return {
+            id: this.id,
+            timeBase: this.timeBase,
+            start: this.start,
+            end: this.end,
+            title: this.title
+        };
+    }
+
+    public exportState(): ChaptersIngredientChapterState {
+        return {
+            id: this.id,
+            changes: { ...this.changes }
+        };
+    }
+
+    public importState(state: ChaptersIngredientChapterState) {
+        this.changes = { ...state.changes };
+    }
 }
 
 export class ChaptersIngredient extends Ingredient {
+    // Time base of added chapters, milliseconds
+    public static readonly DEFAULT_TIME_BASE = '1/1000';
+
+    // Chapters when the ingredient was created, used to find added and removed chapters
+    private initialChapterIds: number[];
+    // Only increases so removed chapter ids are never reused by added chapters
+    private nextChapterId: number;
+    // Not read from a media file, chapters are always written when mixing
+    private standalone = false;
+
     constructor(filePath: string, public chapters: ChaptersIngredientChapter[] = [], isOriginal = true) {
         super(filePath, isOriginal);
+
+        this.initialChapterIds = chapters.map(({ id }) => id);
+        this.nextChapterId = chapters.reduce((maxId, { id }) => Math.max(maxId, id), -1) + 1;
     }
 
-    public buildChaptersText() {
+    // Standalone chapters, ex. parsed from a chapters file
+    public static FromChapters(filePath: string, chapters: Chapter[]) {
+        const chaptersIngredient = new ChaptersIngredient(
+            filePath,
+            chapters.map(chapter => new ChaptersIngredientChapter(chapter.id, chapter.timeBase, chapter.start, chapter.end, chapter.title))
+        );
+        chaptersIngredient.standalone = true;
+
+        return chaptersIngredient;
+    }
+
+    public get isStandalone() {
+        return this.standalone;
+    }
+
+    public get addedChapters() {
+        return this.chapters.filter(({ id }) => !this.initialChapterIds.includes(id));
+    }
+
+    public get removedChapterIds() {
+        return this.initialChapterIds.filter(chapterId => !this.chapters.some(({ id }) => id === chapterId));
+    }
+
+    public get isModified() {
         return this.chapters.some(chapter => chapter.isModified)
-            ? this.chapters.reduce((prev, chapter) => `${prev}[CHAPTER]\nTIMEBASE=${chapter.timeBase}\nSTART=${chapter.start}\nEND=${chapter.end}\ntitle=${chapter.title}\n`, `;FFMETADATA1\n`)
+            || this.addedChapters.length > 0
+            || this.removedChapterIds.length > 0;
+    }
+
+    // Chapters ordered by start time
+    public get sortedChapters() {
+        return [...this.chapters].sort((a, b) => a.startSeconds - b.startSeconds);
+    }
+
+    public getChapter(chapterId: number) {
+        return this.withContext(() => {
+            const chapter = this.chapters.find(({ id }) => id === chapterId);
+            if (!chapter) {
+                const error = new IngredientChapterNotFoundError(this.id, chapterId);
+                NutritionLogger.Error(
+                    'Chapter not found',
+                    {
+                        location: 'ChaptersIngredient',
+                        functionName: 'getChapter',
+                        operation: 'Get chapter',
+                        ingredientId: this.id,
+                        chapterId,
+                        error
+                    }
+                );
+
+                throw error;
+            }
+            return chapter;
+        });
+    }
+
+    /**
+     * Add a chapter at a time, the chapter containing the time ends where the new chapter starts
+     * Without an end the chapter ends at the end of the containing chapter, the start of the next chapter or the media duration in seconds
+     */
+    public addChapter(start: number, title: string, end?: number, duration?: number) {
+        return this.withContext(() => {
+            const sameStartChapter = this.chapters.find(chapter => chapter.startSeconds === start);
+            if (sameStartChapter) {
+                const error = new IngredientChapterInvalidTimeError(this.id, sameStartChapter.id, start, `Chapter ${sameStartChapter.id} already starts at ${start}`);
+                NutritionLogger.Error(
+                    'Chapter already starts at this time',
+                    {
+                        location: 'ChaptersIngredient',
+                        functionName: 'addChapter',
+                        operation: 'Add chapter',
+                        ingredientId: this.id,
+                        chapterId: sameStartChapter.id,
+                        start,
+                        error
+                    }
+                );
+
+                throw error;
+            }
+
+            const containingChapter = this.chapters.find(chapter => chapter.startSeconds < start && start < chapter.endSeconds);
+            const nextChapter = this.sortedChapters.find(chapter => chapter.startSeconds > start);
+            const mediaEnd = duration !== undefined && Number.isFinite(duration) && duration > start ? duration : undefined;
+            const chapterEnd = end ?? containingChapter?.endSeconds ?? nextChapter?.startSeconds ?? mediaEnd;
+            if (chapterEnd === undefined) {
+                const error = new IngredientChapterMissingEndError(this.id, start);
+                NutritionLogger.Error(
+                    'Chapter end required',
+                    {
+                        location: 'ChaptersIngredient',
+                        functionName: 'addChapter',
+                        operation: 'Add chapter',
+                        ingredientId: this.id,
+                        start,
+                        error
+                    }
+                );
+
+                throw error;
+            }
+
+            if (containingChapter) {
+                containingChapter.endSeconds = start;
+            }
+
+            const timeBase = ChaptersIngredient.DEFAULT_TIME_BASE;
+            const chapter = new ChaptersIngredientChapter(
+                this.nextChapterId++,
+                timeBase,
+                ChaptersIngredientChapter.FromSeconds(start, timeBase),
+                ChaptersIngredientChapter.FromSeconds(chapterEnd, timeBase),
+                title,
+                false
+            );
+            this.chapters.push(chapter);
+
+            return chapter;
+        });
+    }
+
+    public removeChapter(chapterId: number) {
+        const chapter = this.getChapter(chapterId);
+        this.chapters.splice(this.chapters.indexOf(chapter), 1);
+    }
+
+    // Merge a chapter with the following chapter, the merged chapter keeps the first title
+    public mergeChapters(chapterId: number) {
+        return this.withContext(() => {
+            const chapter = this.getChapter(chapterId);
+            const sortedChapters = this.sortedChapters;
+            const nextChapter = sortedChapters[sortedChapters.indexOf(chapter) + 1];
+            if (!nextChapter) {
+                const error = new IngredientChapterInvalidTimeError(this.id, chapterId, chapter.endSeconds, 'No following chapter to merge with');
+                NutritionLogger.Error(
+                    'No following chapter to merge with',
+                    {
+                        location: 'ChaptersIngredient',
+                        functionName: 'mergeChapters',
+                        operation: 'Merge chapters',
+                        ingredientId: this.id,
+                        chapterId,
+                        error
+                    }
+                );
+
+                throw error;
+            }
+
+            chapter.endSeconds = nextChapter.endSeconds;
+            this.chapters.splice(this.chapters.indexOf(nextChapter), 1);
+
+            return chapter;
+        });
+    }
+
+    // Split a chapter in two at a time, the second chapter keeps the title unless one is given
+    public splitChapter(chapterId: number, at: number, title?: string) {
+        return this.withContext(() => {
+            const chapter = this.getChapter(chapterId);
+            if (at <= chapter.startSeconds || at >= chapter.endSeconds) {
+                const error = new IngredientChapterInvalidTimeError(this.id, chapterId, at, `Split time ${at} is outside of chapter ${chapterId}`);
+                NutritionLogger.Error(
+                    'Split time outside of chapter',
+                    {
+                        location: 'ChaptersIngredient',
+                        functionName: 'splitChapter',
+                        operation: 'Split chapter',
+                        ingredientId: this.id,
+                        chapterId,
+                        at,
+                        error
+                    }
+                );
+
+                throw error;
+            }
+
+            const splitChapter = new ChaptersIngredientChapter(
+                this.nextChapterId++,
+                chapter.timeBase,
+                ChaptersIngredientChapter.FromSeconds(at, chapter.timeBase),
+                chapter.end,
+                title ?? chapter.title,
+                false
+            );
+            chapter.endSeconds = at;
+            this.chapters.push(splitChapter);
+
+            return splitChapter;
+        });
+    }
+
+    // Shift every chapter, chapters shifted before 0 are clamped to 0 or removed if they end before 0
+    public shiftChapters(offset: number) {
+        this.chapters = this.chapters.filter(chapter => chapter.endSeconds + offset > 0);
+        this.chapters.forEach((chapter) => {
+            const start = chapter.startSeconds + offset;
+            const end = chapter.endSeconds + offset;
+            chapter.startSeconds = Math.max(start, 0);
+            chapter.endSeconds = end;
+        });
+    }
+
+    // Rename every chapter from a template, variables: number (1-based), index, id, title, start, end
+    public renameChapters(template: string) {
+        this.sortedChapters.forEach((chapter, index) => {
+            chapter.title = RenderTemplate(template, {
+                number: index + 1,
+                index,
+                id: chapter.id,
+                title: chapter.title,
+                start: FormatChapterTime(chapter.startSeconds),
+                end: FormatChapterTime(chapter.endSeconds)
+            });
+        });
+    }
+
+    // Check for overlapping chapters and chapters outside of the media duration in seconds
+    public validate(duration?: number) {
+        const issues: ChaptersValidationIssue[] = [];
+
+        this.sortedChapters.forEach((chapter, index, sortedChapters) => {
+            if (chapter.startSeconds < 0) {
+                issues.push({ code: 'negativeStart', message: `Chapter ${chapter.id} starts before 0`, chapterId: chapter.id });
+            }
+            if (chapter.endSeconds <= chapter.startSeconds) {
+                issues.push({ code: 'invalidRange', message: `Chapter ${chapter.id} ends before it starts`, chapterId: chapter.id });
+            }
+            const previousChapter = sortedChapters[index - 1];
+            if (previousChapter && chapter.startSeconds < previousChapter.endSeconds) {
+                issues.push({ code: 'overlap', message: `Chapter ${chapter.id} overlaps chapter ${previousChapter.id}`, chapterId: chapter.id });
+            }
+            // Allow rounding errors of time base conversions
+            if (duration !== undefined && Number.isFinite(duration) && chapter.endSeconds > duration + 0.001) {
+                issues.push({ code: 'exceedsDuration', message: `Chapter ${chapter.id} ends after the media duration`, chapterId: chapter.id });
+            }
+        });
+
+        return issues;
+    }
+
+    // Restores the chapters and their changes to their current values
+    public snapshot(): RestoreSnapshot {
+        const chapters = [...this.chapters];
+        const states = chapters.map(chapter => chapter.exportState());
+
+        return () => {
+            this.chapters = [...chapters];
+            chapters.forEach((chapter, index) => chapter.importState(states[index]));
+        };
+    }
+
+    // Apply every operation or none of them if an operation fails or the result is invalid
+    public edit(operations: ChaptersOperation[], duration?: number) {
+        return this.withContext(() => {
+            const restore = this.snapshot();
+
+            try {
+                operations.forEach(operation => this.applyOperation(operation, duration));
+            } catch (error) {
+                restore();
+                throw error;
+            }
+
+            const issues = this.validate(duration);
+            if (issues.length) {
+                restore();
+                const error = new IngredientChaptersValidationError(this.id, issues);
+                NutritionLogger.Error(
+                    'Invalid chapters',
+                    {
+                        location: 'ChaptersIngredient',
+                        functionName: 'edit',
+                        operation: 'Edit chapters',
+                        ingredientId: this.id,
+                        error
+                    }
+                );
+
+                throw error;
+            }
+
+            return this.sortedChapters;
+        });
+    }
+
+    private applyOperation(operation: ChaptersOperation, duration?: number) {
+        switch (operation.type) {
+            case 'add':
+                this.addChapter(operation.start, operation.title, operation.end, duration);
+                break;
+            case 'update': {
+                const chapter = this.getChapter(operation.chapterId);
+                if (operation.start !== undefined) {
+                    chapter.startSeconds = operation.start;
+                }
+                if (operation.end !== undefined) {
+                    chapter.endSeconds = operation.end;
+                }
+                if (operation.title !== undefined) {
+                    chapter.title = operation.title;
+                }
+                break;
+            }
+            case 'remove':
+                this.removeChapter(operation.chapterId);
+                break;
+            case 'merge':
+                this.mergeChapters(operation.chapterId);
+                break;
+            case 'split':
+                this.splitChapter(operation.chapterId, operation.at, operation.title);
+                break;
+            case 'shift':
+                this.shiftChapters(operation.offset);
+                break;
+            case 'rename':
+                this.renameChapters(operation.template);
+                break;
+        }
+    }
+
+    // Undefined if media file chapters were not edited, an edited empty set has no [CHAPTER] sections
+    public buildChaptersText() {
+        return this.isStandalone || this.isModified
+            ? SerializeFFMetadataChapters(this.sortedChapters.map(chapter => chapter.toChapter()))
             : undefined;
     }
 
     public copy() {
-        return new ChaptersIngredient(
+        const copiedIngredient = new ChaptersIngredient(
             this.filePath,
             this.chapters.map(chapter => {
                 return chapter.copy();
             }),
             false
         );
+        copiedIngredient.standalone = this.standalone;
+        copiedIngredient.nutritionLogger = this.nutritionLogger;
+        copiedIngredient.environment = this.environment;
+        // Chapters edited before the copy are still added, removed or modified in the copy
+        copiedIngredient.initialChapterIds = [...this.initialChapterIds];
+        copiedIngredient.nextChapterId = this.nextChapterId;
+
+        return copiedIngredient;
+    }
+
+    // Modified, added and removed chapters are exported
+    public exportState(): ChaptersIngredientState {
+        return {
+            id: this.id,
+            chapters: this.chapters
+                .filter(chapter => chapter.isModified && this.initialChapterIds.includes(chapter.id))
+                .map(chapter => chapter.exportState()),
+            added: this.addedChapters.map(chapter => chapter.toChapter()),
+            removedChapterIds: this.removedChapterIds
+        };
+    }
+
+    // Returns the ids of chapters that no longer exist
+    public importState(state: ChaptersIngredientState) {
+        const missingChapterIds: number[] = [];
+
+        state.removedChapterIds?.forEach((chapterId) => {
+            const index = this.chapters.findIndex(({ id }) => id === chapterId);
+            if (index === -1) {
+                missingChapterIds.push(chapterId);
+                return;
+            }
+            this.chapters.splice(index, 1);
+        });
+
+        state.chapters.forEach((chapterState) => {
+            const chapter = this.chapters.find(({ id }) => id === chapterState.id);
+            if (!chapter) {
+                missingChapterIds.push(chapterState.id);
+                return;
+            }
+            chapter.importState(chapterState);
+        });
+
+        state.added?.forEach((chapter) => {
+            this.chapters.push(new ChaptersIngredientChapter(chapter.id, chapter.timeBase, chapter.start, chapter.end, chapter.title, false));
+            this.nextChapterId = Math.max(this.nextChapterId, chapter.id + 1);
+        });
+
+        return missingChapterIds;
     }
 }
 
@@ -216,9 +758,21 @@ export abstract class StreamIngredient<T extends IngredientType = IngredientType
         }
     }
 
+    // Statistics written by mkvmerge describe the original file and are stale once the stream is rewritten
+    protected static WithoutStatisticsTags(tags: Tags): Tags {
+        return Object.fromEntries(
+            Object.entries(tags).filter(([name]) => !/^(_STATISTICS_\w+|BPS|DURATION|NUMBER_OF_FRAMES|NUMBER_OF_BYTES)(-\w+)?$/.test(name))
+        );
+    }
+
     // Codec of the stream
     public abstract get codec(): T;
 
+    // Codec written to the output, after any pending conversion
+    public get outputCodec(): string {
+        return this.conversionChanges.codec ?? this.codec;
+    }
+
     // Stream codec type
     public get type(): StreamIngredientType {
         return StreamIngredient.GetIngredientType(this.ffProbeStream);
@@ -233,6 +787,11 @@ export abstract class StreamIngredient<T extends IngredientType = IngredientType
         return Number(this.ffProbeStream.duration);
     }
 
+    // Seconds, NaN if unknown
+    public get startTime() {
+        return Number(this.ffProbeStream.start_time);
+    }
+
     public get tags(): Tags {
         return Object.assign({}, this.ffProbeStream.tags, this.changes?.tags);
     }
@@ -314,35 +873,176 @@ export abstract class StreamIngredient<T extends IngredientType = IngredientType
     protected copyStream<T extends StreamIngredient>(newCopiedIngredient: T) {
         // Clone changes: https://developer.mozilla.org/en-US/docs/Web/API/Web_Workers_API/Structured_clone_algorithm
         newCopiedIngredient.changes = structuredClone(this.changes);
+        newCopiedIngredient.nutritionLogger = this.nutritionLogger;
+        newCopiedIngredient.environment = this.environment;
 
         return newCopiedIngredient;
     }
 
-    public convert(options: ConversionChanges) {
-        NutritionLogger.Debug(
-            'Convert Ingredient',
+    public exportState(): StreamIngredientState {
+        return this.withContext(() => {
+            const { tags, dispositions, customOptions, ...changes } = this.changes;
+
+            if (customOptions?.length) {
+                // Functions cannot be serialized
+                NutritionLogger.Warn(
+                    'Custom options are not exported',
+                    {
+                        location: 'StreamIngredient',
+                        functionName: 'exportState',
+                        operation: 'Export Ingredient state',
+                        ingredientId: this.id
+                    }
+                );
+            }
+
+            const state: StreamIngredientState = {
+                id: this.id,
+                index: this.index,
+                type: this.type,
+                isOriginal: this.isOriginal,
+                changes: structuredClone(changes)
+            };
+            if (tags) {
+                // JSON drops undefined values, null keeps removed tags
+                state.tags = Object.fromEntries(Object.entries(tags).map(([name, value]) => [name, value ?? null]));
+            }
+            if (dispositions) {
+                state.dispositions = { ...dispositions };
+            }
+            if (this.conversionChanges.codec) {
+                state.conversion = { ...this.conversionChanges };
+            }
+
+            return state;
+        });
+    }
+
+    // Restores the changes and pending conversion to their current values, custom options included
+    public snapshot(): RestoreSnapshot {
+        const { customOptions, ...changes } = this.changes;
+        const clonedChanges = structuredClone(changes);
+        const conversionChanges = structuredClone(this.conversionChanges);
+
+        return () => {
+            this.changes = {
+                ...structuredClone(clonedChanges),
+                ...(customOptions ? { customOptions: [...customOptions] } : {})
+            } as U;
+            this.conversionChanges = structuredClone(conversionChanges);
+        };
+    }
+
+    // Reapply exported changes, throws if the conversion is no longer valid
+    public importState(state: StreamIngredientState) {
+        return this.withContext(() => {
+            NutritionLogger.Debug(
+                'Import Ingredient state',
+                {
+                    location: 'StreamIngredient',
+                    functionName: 'importState',
+                    operation: 'Import Ingredient state',
+                    ingredientId: this.id,
+                    exportedIngredientId: state.id
+                }
+            );
+
+            const changes = structuredClone(state.changes) as U;
+            if (state.tags) {
+                changes.tags = Object.fromEntries(Object.entries(state.tags).map(([name, value]) => [name, value ?? undefined]));
+            }
+            if (state.dispositions) {
+                changes.dispositions = { ...state.dispositions };
+            }
+            this.changes = changes;
+
+            if (state.conversion) {
+                this.convert(state.conversion);
+            }
+        });
+    }
+
+    // Validate conversion options with Ajv
+    protected validateConversionOptions(schema: JSONSchema, options: ConversionChanges) {
+        const ajv = new Ajv();
+        const validate = ajv.compile(schema);
+        if (!validate(options)) {
+            const error = new IngredientConvertInvalidOptionsError(this.id, options.codec, validate.errors ?? []);
+            NutritionLogger.Error(
+                `Invalid ${options.codec} conversion options`,
+                {
+                    location: 'StreamIngredient',
+                    functionName: 'validateConversionOptions',
+                    operation: 'Convert Ingredient',
+                    options,
+                    ingredientId: this.id,
+                    ingredientType: this.type,
+                    ingredientCodec: this.codec,
+                    error
+                }
+            );
+
+            throw error;
+        }
+    }
+
+    // Codecs without an encoder in the local ffmpeg are left out, every codec is listed until the capabilities are loaded
+    protected encodableSchemas(schemas: { [codec: string]: JSONSchema }, encoders: { [codec: string]: string }) {
+        const capabilities = GetLoadedFfmpegCapabilities(GetBinaryPath('ffmpeg', this.environment));
+        if (!capabilities) {
+            return schemas;
+        }
+
+        return Object.fromEntries(
+            Object.entries(schemas).filter(([codec]) => capabilities.canEncode(encoders[codec] ?? codec))
+        );
+    }
+
+    protected unsupportedConversion(codec: string, location: string) {
+        const error = new IngredientConvertUnsupportedCodecError(this.id, codec);
+        NutritionLogger.Error(
+            'Unsupported Codec',
             {
-                location: 'StreamIngredient',
+                location,
                 functionName: 'convert',
                 operation: 'Convert Ingredient',
                 ingredientId: this.id,
-                ingredientType: this.type,
-                options
+                error
             }
         );
 
-        this.conversionChanges = options;
+        return error;
+    }
+
+    public convert(options: ConversionChanges) {
+        return this.withContext(() => {
+            NutritionLogger.Debug(
+                'Convert Ingredient',
+                {
+                    location: 'StreamIngredient',
+                    functionName: 'convert',
+                    operation: 'Convert Ingredient',
+                    ingredientId: this.id,
+                    ingredientType: this.type,
+                    options
+                }
+            );
+
+            this.conversionChanges = options;
+        });
     }
 
     // Build ffmpeg options from changes
-    public buildOptions(ingredientInputIndex: number, expectedIngredientIndex: number) {
+    // inputStreamIndex differs from index when the stream is read from a derived file, ex. retimed subtitles
+    public buildOptions(ingredientInputIndex: number, expectedIngredientIndex: number, inputStreamIndex = this.index) {
         const options: string[] = [];
+        const derivedInput = inputStreamIndex !== this.index;
 
         // Map the stream
-        options.push(`-map ${ingredientInputIndex}:${this.index}`);
+        options.push(`-map ${ingredientInputIndex}:${inputStreamIndex}`);
 
         // No changes or encoding (conversion)
-        if (!this.conversionChanges.codec || this.conversionChanges.codec) {
+        if (!this.conversionChanges.codec) {
             // No changes - Stream copy the original track
             options.push(`-c:${expectedIngredientIndex} copy`);
         }
@@ -352,11 +1052,14 @@ export abstract class StreamIngredient<T extends IngredientType = IngredientType
             options.push(...this.changes.customOptions.map(optionFn => optionFn(ingredientInputIndex, expectedIngredientIndex)));
         }
 
-        // Copy metadata
-        options.push(`-map_metadata:s:${expectedIngredientIndex} ${ingredientInputIndex}:s:${this.index}`);
+        // Copy metadata, derived files do not hold the original metadata so it is written explicitly
+        options.push(`-map_metadata:s:${expectedIngredientIndex} ${ingredientInputIndex}:s:${inputStreamIndex}`);
+        const tags = derivedInput
+            ? Object.assign(StreamIngredient.WithoutStatisticsTags(this.ffProbeStream.tags ?? {}), this.changes.tags)
+            : this.changes.tags;
 
         // Apply metadata changes
-        Object.entries(this.changes.tags ?? {}).forEach(([name, value]) => {
+        Object.entries(tags ?? {}).forEach(([name, value]) => {
             if (value === undefined) {
                 options.push(`-metadata:s:${expectedIngredientIndex}`, `${name}=`);
             } else {
@@ -368,11 +1071,12 @@ export abstract class StreamIngredient<T extends IngredientType = IngredientType
         });
 
         // Apply disposition
-        if (this.changes.dispositions) {
-            const dispositionOption = Object.entries(this.changes.dispositions).reduce((option, [name, value]) => {
+        const dispositions = derivedInput ? this.dispositions : this.changes.dispositions;
+        if (dispositions) {
+            const dispositionOption = Object.entries(dispositions).reduce((option, [name, value]) => {
                 return option.concat(`${value ? `+${name}` : `-${name}`}`);
             }, ``);
-            options.push(`-disposition:${expectedIngredientIndex}`, `${dispositionOption}`);
+            options.push(`-disposition:${expectedIngredientIndex}`, `${dispositionOption || '0'}`);
         }
 
         return options;
@@ -421,19 +1125,162 @@ export class VideoIngredient extends StreamIngredient<VideoCodec, VideoChanges>
         this.changes.title = title;
     }
    
+    // Seconds with millisecond precision, negative delays advance the stream
     public get delay() {
         return this.changes.delay ?? 0;
     }
 
     public set delay(seconds: number) {
-        this.changes.delay = seconds;
+        this.changes.delay = RoundSyncOffset(seconds);
     }
 
-    // TODO: Implement video conversion options
     public get conversionOptionsSchema() {
-        return {
+        return this.encodableSchemas({
+            h264: x264ConversionOptionsSchema,
+            hevc: x265ConversionOptionsSchema,
+            av1: svtAv1ConversionOptionsSchema,
+            vp9: vp9ConversionOptionsSchema
+        }, VIDEO_ENCODERS);
+    }
+
+    public convert(options: VideoConversionOptions) {
+        return this.withContext(() => {
+            // Validate conversion options
+            switch (options.codec) {
+                case 'h264':
+                    this.validateConversionOptions(x264ConversionOptionsSchema, options);
+                    break;
+                case 'hevc':
+                    this.validateConversionOptions(x265ConversionOptionsSchema, options);
+                    break;
+                case 'av1':
+                    this.validateConversionOptions(svtAv1ConversionOptionsSchema, options);
+                    break;
+                case 'vp9':
+                    this.validateConversionOptions(vp9ConversionOptionsSchema, options);
+                    break;
+                default:
+                    throw this.unsupportedConversion(options.codec, 'VideoIngredient');
+            }
 
-        };
+            super.convert(options);
+        });
+    }
+
+    // Build ffmpeg options from changes
+    public buildOptions(ingredientInputIndex: number, expectedIngredientIndex: number, inputStreamIndex = this.index) {
+        const options: string[] = super.buildOptions(ingredientInputIndex, expectedIngredientIndex, inputStreamIndex);
+
+        // Handle codec conversion
+        if (this.conversionChanges.codec) {
+            switch (this.conversionChanges.codec) {
+                case 'h264':
+                    options.push(...this.handleX26xConversion(expectedIngredientIndex, 'libx264', this.conversionChanges as X264ConversionOptions));
+                    break;
+                case 'hevc':
+                    options.push(...this.handleX26xConversion(expectedIngredientIndex, 'libx265', this.conversionChanges as X265ConversionOptions));
+                    break;
+                case 'av1':
+                    options.push(...this.handleSvtAv1Conversion(expectedIngredientIndex, this.conversionChanges as SvtAv1ConversionOptions));
+                    break;
+                case 'vp9':
+                    options.push(...this.handleVp9Conversion(expectedIngredientIndex, this.conversionChanges as Vp9ConversionOptions));
+                    break;
+                default: throw this.unsupportedConversion(this.conversionChanges.codec, 'VideoIngredient');
+            }
+
+            options.push(...this.handleVideoConversion(expectedIngredientIndex, this.conversionChanges as VideoConversionOptions));
+        }
+
+        return options;
+    }
+
+    // Rate control and format options shared by every video encoder
+    private handleVideoConversion(index: number, changes: VideoConversionOptions) {
+        const options: string[] = [];
+
+        if (changes.crf !== undefined) {
+            options.push(`-crf:${index} ${changes.crf}`);
+        }
+        if (changes.bitrate !== undefined) {
+            options.push(`-b:${index} ${changes.bitrate}`);
+        }
+        if (changes.maxrate !== undefined) {
+            options.push(`-maxrate:${index} ${changes.maxrate}`);
+        }
+        if (changes.bufsize !== undefined) {
+            options.push(`-bufsize:${index} ${changes.bufsize}`);
+        }
+        if (changes.pixelFormat) {
+            options.push(`-pix_fmt:${index} ${changes.pixelFormat}`);
+        }
+        if (changes.keyframeInterval) {
+            options.push(`-g:${index} ${changes.keyframeInterval}`);
+        }
+
+        return options;
+    }
+
+    private handleX26xConversion(index: number, encoder: 'libx264' | 'libx265', changes: X264ConversionOptions | X265ConversionOptions) {
+        const options = [`-c:${index} ${encoder}`];
+
+        if (changes.preset) {
+            options.push(`-preset:${index} ${changes.preset}`);
+        }
+        if (changes.tune) {
+            options.push(`-tune:${index} ${changes.tune}`);
+        }
+        if (changes.profile) {
+            options.push(`-profile:${index} ${changes.profile}`);
+        }
+        if (changes.level) {
+            options.push(`-level:${index} ${changes.level}`);
+        }
+
+        return options;
+    }
+
+    private handleSvtAv1Conversion(index: number, changes: SvtAv1ConversionOptions) {
+        const options = [`-c:${index} libsvtav1`];
+
+        if (changes.preset !== undefined) {
+            options.push(`-preset:${index} ${changes.preset}`);
+        }
+        // libsvtav1 only exposes tune through its own parameters
+        if (changes.tune !== undefined) {
+            options.push(`-svtav1-params:${index} tune=${changes.tune}`);
+        }
+        if (changes.profile) {
+            options.push(`-profile:${index} ${changes.profile}`);
+        }
+        if (changes.level) {
+            options.push(`-level:${index} ${changes.level}`);
+        }
+
+        return options;
+    }
+
+    private handleVp9Conversion(index: number, changes: Vp9ConversionOptions) {
+        const options = [`-c:${index} libvpx-vp9`];
+
+        // Constant quality mode requires a zero target bitrate
+        if (changes.crf !== undefined && changes.bitrate === undefined) {
+            options.push(`-b:${index} 0`);
+        }
+        if (changes.preset) {
+            options.push(`-deadline:${index} ${changes.preset}`);
+        }
+        if (changes.cpuUsed !== undefined) {
+            options.push(`-cpu-used:${index} ${changes.cpuUsed}`);
+        }
+        if (changes.tune) {
+            options.push(`-tune:${index} ${changes.tune}`);
+        }
+        if (changes.profile !== undefined) {
+            options.push(`-profile:${index} ${changes.profile}`);
+        }
+
+        return options;
     }
 
     public copy() {
@@ -500,19 +1347,25 @@ export class AudioIngredient extends StreamIngredient<AudioCodec, AudioChanges>
         return this.changes?.channels ?? Number(this.ffProbeStream.channels);
     }
 
+    // Seconds with millisecond precision, negative delays advance the stream
     public get delay() {
         return this.changes.delay ?? 0;
     }
 
     public set delay(seconds: number) {
-        this.changes.delay = seconds;
+        this.changes.delay = RoundSyncOffset(seconds);
     }
 
     public get conversionOptionsSchema() {
-        // TODO: Limit conversion options based on FFMPEG capabilities
-        return {
-            opus: opusConversionOptionsSchema
-        };
+        return this.encodableSchemas({
+            aac: aacConversionOptionsSchema,
+            ac3: ac3ConversionOptionsSchema,
+            eac3: eac3ConversionOptionsSchema,
+            dts: dtsConversionOptionsSchema,
+            opus: opusConversionOptionsSchema,
+            flac: flacConversionOptionsSchema,
+            mp3: mp3ConversionOptionsSchema
+        }, AUDIO_ENCODERS);
     }
 
     public copy() {
@@ -527,61 +1380,87 @@ export class AudioIngredient extends StreamIngredient<AudioCodec, AudioChanges>
     }
 
     public convert(options: AudioConversionOptions) {
-        // Validate conversion options
-        switch (options.codec) {
-            case 'opus':
-                this.convertOpus(options as OpusConversionOptions);
-                break;
-            // case 'aac':
-            // case AudioCodec.AC3:
-            // case AudioCodec.EAC3:
-            // case AudioCodec.DTS:
-            // case AudioCodec.DTS_HD:
-            // case AudioCodec.DTS_HD_MA:
-            // case AudioCodec.DTS_HD_SP:
-            // case AudioCodec.FLAC:
-            // case AudioCodec.MP3:
-            default: {
-                const error = Error(`Unsupported audio codec: ${this.changes.codec}`);
-                NutritionLogger.Error(
-                    'Unsupported Codec',
-                    {
-                        location: 'AudioIngredient',
-                        functionName: 'convert',
-                        operation: 'Convert Ingredient',
-                        error
-                    }
-                );
-
-                throw error;
+        return this.withContext(() => {
+            // Validate conversion options
+            switch (options.codec) {
+                case 'aac':
+                    this.validateConversionOptions(aacConversionOptionsSchema, options);
+                    break;
+                case 'ac3':
+                    this.validateConversionOptions(ac3ConversionOptionsSchema, options);
+                    break;
+                case 'eac3':
+                    this.validateConversionOptions(eac3ConversionOptionsSchema, options);
+                    break;
+                case 'dts':
+                    this.validateConversionOptions(dtsConversionOptionsSchema, options);
+                    break;
+                case 'opus':
+                    this.validateConversionOptions(opusConversionOptionsSchema, options);
+                    break;
+                case 'flac':
+                    this.validateConversionOptions(flacConversionOptionsSchema, options);
+                    break;
+                case 'mp3':
+                    this.validateConversionOptions(mp3ConversionOptionsSchema, options);
+                    break;
+                // DTS-HD extensions have no ffmpeg encoder
+                case 'dts_hd':
+                case 'dts_hd_ma':
+                case 'dts_hd_sp': {
+                    const error = new IngredientConvertDecodeOnlyError(this.id, options.codec);
+                    NutritionLogger.Error(
+                        'Decode only Codec',
+                        {
+                            location: 'AudioIngredient',
+                            functionName: 'convert',
+                            operation: 'Convert Ingredient',
+                            ingredientId: this.id,
+                            error
+                        }
+                    );
+
+                    throw error;
+                }
+                default:
+                    throw this.unsupportedConversion(options.codec, 'AudioIngredient');
             }
-        }
 
-        super.convert(options);
+            this.convertAudio(options);
+
+            super.convert(options);
+        });
     }
 
     // Build ffmpeg options from changes
-    public buildOptions(ingredientInputIndex: number, expectedIngredientIndex: number) {
-        const options: string[] = super.buildOptions(ingredientInputIndex, expectedIngredientIndex);
+    public buildOptions(ingredientInputIndex: number, expectedIngredientIndex: number, inputStreamIndex = this.index) {
+        const options: string[] = super.buildOptions(ingredientInputIndex, expectedIngredientIndex, inputStreamIndex);
 
         // Handle codec conversion
         if (this.conversionChanges.codec) {
             // Ensure the conversion options provided are valid audio conversion options
             switch (this.conversionChanges.codec) {
-                // TODO: Add support for other audio codecs
+                case 'aac':
+                    options.push(...this.handleAACConversion(expectedIngredientIndex, this.conversionChanges as AACConversionOptions));
+                    break;
+                case 'ac3':
+                case 'eac3':
+                    options.push(...this.handleAC3Conversion(expectedIngredientIndex, this.conversionChanges as AC3ConversionOptions));
+                    break;
+                case 'dts':
+                    // The DTS encoder (dca) is experimental
+                    options.push(`-c:${expectedIngredientIndex} dca`, `-strict:${expectedIngredientIndex} experimental`);
+                    break;
                 case 'opus':
                     options.push(...this.handleOpusConversion(expectedIngredientIndex, this.conversionChanges as OpusConversionOptions));
                     break;
-                // case AudioCodec.AAC:
-                // case AudioCodec.AC3:
-                // case AudioCodec.EAC3:
-                // case AudioCodec.DTS:
-                // case AudioCodec.DTS_HD:
-                // case AudioCodec.DTS_HD_MA:
-                // case AudioCodec.DTS_HD_SP:
-                // case AudioCodec.FLAC:
-                // case AudioCodec.MP3:
-                default: throw Error(`Unsupported audio codec: ${this.conversionChanges.codec}`);
+                case 'flac':
+                    options.push(...this.handleFLACConversion(expectedIngredientIndex, this.conversionChanges as FLACConversionOptions));
+                    break;
+                case 'mp3':
+                    options.push(...this.handleMP3Conversion(expectedIngredientIndex, this.conversionChanges as MP3ConversionOptions));
+                    break;
+                default: throw this.unsupportedConversion(this.conversionChanges.codec, 'AudioIngredient');
             }
         }
 
@@ -592,42 +1471,14 @@ export class AudioIngredient extends StreamIngredient<AudioCodec, AudioChanges>
         if (this.conversionChanges.channels) {
             options.push(`-ac:${expectedIngredientIndex} ${this.conversionChanges.channels}`);
         }
-        // if (options.sampleFormat) {
-        // }
-        // if (options.sampleRate) {
-        // }
-
-        return options;
-    }
-
-    // Validate OPUS conversion options
-    private convertOpus(options: OpusConversionOptions) {
-        // Validate with Ajv
-        const ajv = new Ajv();
-        const validate = ajv.compile(opusConversionOptionsSchema);
-        if (!validate(options)) {
-            // TODO: custom errors
-            const error = new Error('Invalid OPUS conversion options');
-            NutritionLogger.Error(
-                'Invalid OPUS conversion options',
-                {
-                    location: 'AudioIngredient',
-                    functionName: 'convertOpus',
-                    operation: 'Convert Ingredient',
-                    subOperations: [],
-                    options,
-                    ingredientId: this.id,
-                    ingredientType: this.type,
-                    ingredientCodec: this.codec,
-                    error,
-                    validate,
-                }
-            );
-
-            throw error;
+        if (this.conversionChanges.sampleFormat) {
+            options.push(`-sample_fmt:${expectedIngredientIndex} ${this.conversionChanges.sampleFormat}`);
+        }
+        if (this.conversionChanges.sampleRate) {
+            options.push(`-ar:${expectedIngredientIndex} ${this.conversionChanges.sampleRate}`);
         }
 
-        this.convertAudio(options);
+        return options;
     }
 
     private convertAudio(options: AudioConversionOptions) {
@@ -644,6 +1495,49 @@ export class AudioIngredient extends StreamIngredient<AudioCodec, AudioChanges>
         // }
     }
 
+    private handleAACConversion(index: number, changes: AACConversionOptions) {
+        const options = [`-c:${index} aac`];
+
+        if (changes.q !== undefined) {
+            options.push(`-q:${index} ${changes.q}`);
+        }
+        if (changes.profile) {
+            options.push(`-profile:${index} ${changes.profile}`);
+        }
+
+        return options;
+    }
+
+    private handleAC3Conversion(index: number, changes: AC3ConversionOptions) {
+        const options = [`-c:${index} ${changes.codec}`];
+
+        if (changes.dialnorm !== undefined) {
+            options.push(`-dialnorm:${index} ${changes.dialnorm}`);
+        }
+
+        return options;
+    }
+
+    private handleFLACConversion(index: number, changes: FLACConversionOptions) {
+        const options = [`-c:${index} flac`];
+
+        if (changes.compression_level !== undefined) {
+            options.push(`-compression_level:${index} ${changes.compression_level}`);
+        }
+
+        return options;
+    }
+
+    private handleMP3Conversion(index: number, changes: MP3ConversionOptions) {
+        const options = [`-c:${index} libmp3lame`];
+
+        if (changes.q !== undefined) {
+            options.push(`-q:${index} ${changes.q}`);
+        }
+
+        return options;
+    }
+
     private handleOpusConversion(index: number, changes: OpusConversionOptions) {
         const options = [`-c:${index} libopus`];
 
@@ -675,26 +1569,149 @@ export class SubtitleIngredient extends StreamIngredient<SubtitleCodec, Subtitle
         switch (this.ffProbeStream.codec_name) {
             case SubtitleCodec.ASS: return SubtitleCodec.ASS;
             case SubtitleCodec.SSA: return SubtitleCodec.SSA;
-            case SubtitleCodec.SRT: return SubtitleCodec.SRT;
-            case SubtitleCodec.PSG: return SubtitleCodec.PSG;
-            case SubtitleCodec.VOBSUB: return SubtitleCodec.VOBSUB;
+            case SubtitleCodec.SRT:
+            case 'subrip': return SubtitleCodec.SRT;
+            case SubtitleCodec.PSG:
+            case 'hdmv_pgs_subtitle': return SubtitleCodec.PSG;
+            case SubtitleCodec.VOBSUB:
+            case 'dvd_subtitle': return SubtitleCodec.VOBSUB;
+            case SubtitleCodec.WEBVTT: return SubtitleCodec.WEBVTT;
+            case SubtitleCodec.MOV_TEXT: return SubtitleCodec.MOV_TEXT;
             default:
                 console.warn(`Unsupported subtitle codec: ${this.ffProbeStream.codec_name}`);
                 return this.ffProbeStream.codec_name as SubtitleCodec; // TODO: Check for other types and support them
         }
     }
 
-    public get conversionOptionsSchema() {
-        return {};
+    // Bitmap subtitles that cannot be converted to text without OCR
+    public get isImageBased() {
+        switch (this.codec) {
+            case SubtitleCodec.PSG:
+            case SubtitleCodec.VOBSUB:
+                return true;
+            default:
+                return this.ffProbeStream.codec_name === 'dvb_subtitle' || this.ffProbeStream.codec_name === 'xsub';
+        }
+    }
+
+    public get conversionOptionsSchema(): { [conversionOptionName: string]: JSONSchema } {
+        // Image based subtitles cannot be converted
+        if (this.isImageBased) {
+            return {};
+        }
+
+        return this.encodableSchemas({
+            srt: srtConversionOptionsSchema,
+            ass: assConversionOptionsSchema,
+            ssa: ssaConversionOptionsSchema,
+            webvtt: webvttConversionOptionsSchema,
+            mov_text: movTextConversionOptionsSchema
+        }, SUBTITLE_ENCODERS);
+    }
+
+    public convert(options: SubtitleConversionOptions) {
+        return this.withContext(() => {
+            if (this.isImageBased) {
+                const error = new IngredientConvertImageSubtitleError(this.id, this.codec, options.codec);
+                NutritionLogger.Error(
+                    'Image based subtitles cannot be converted',
+                    {
+                        location: 'SubtitleIngredient',
+                        functionName: 'convert',
+                        operation: 'Convert Ingredient',
+                        ingredientId: this.id,
+                        error
+                    }
+                );
+
+                throw error;
+            }
+
+            // Validate conversion options
+            switch (options.codec) {
+                case 'srt':
+                    this.validateConversionOptions(srtConversionOptionsSchema, options);
+                    break;
+                case 'ass':
+                    this.validateConversionOptions(assConversionOptionsSchema, options);
+                    break;
+                case 'ssa':
+                    this.validateConversionOptions(ssaConversionOptionsSchema, options);
+                    break;
+                case 'webvtt':
+                    this.validateConversionOptions(webvttConversionOptionsSchema, options);
+                    break;
+                case 'mov_text':
+                    this.validateConversionOptions(movTextConversionOptionsSchema, options);
+                    break;
+                default:
+                    throw this.unsupportedConversion(options.codec, 'SubtitleIngredient');
+            }
+
+            // Styled subtitles lose their styling when converted to plain text formats
+            if ((this.codec === SubtitleCodec.ASS || this.codec === SubtitleCodec.SSA) && options.codec !== 'ass' && options.codec !== 'ssa') {
+                NutritionLogger.Warn(
+                    'Subtitle styling will be lost',
+                    {
+                        location: 'SubtitleIngredient',
+                        functionName: 'convert',
+                        operation: 'Convert Ingredient',
+                        ingredientId: this.id,
+                        ingredientCodec: this.codec,
+                        options
+                    }
+                );
+            }
+
+            super.convert(options);
+        });
+    }
+
+    // Build ffmpeg options from changes
+    public buildOptions(ingredientInputIndex: number, expectedIngredientIndex: number, inputStreamIndex = this.index) {
+        const options: string[] = super.buildOptions(ingredientInputIndex, expectedIngredientIndex, inputStreamIndex);
+
+        // Handle codec conversion
+        if (this.conversionChanges.codec) {
+            switch (this.conversionChanges.codec) {
+                case 'srt':
+                case 'ass':
+                case 'ssa':
+                case 'webvtt':
+                    options.push(...this.handleTextConversion(expectedIngredientIndex, this.conversionChanges as ASSConversionOptions));
+                    break;
+                case 'mov_text':
+                    options.push(...this.handleMovTextConversion(expectedIngredientIndex, this.conversionChanges as MovTextConversionOptions));
+                    break;
+                default: throw this.unsupportedConversion(this.conversionChanges.codec, 'SubtitleIngredient');
+            }
+        }
+
+        return options;
+    }
+
+    private handleTextConversion(index: number, changes: SubtitleConversionOptions) {
+        return [`-c:${index} ${changes.codec}`];
+    }
+
+    private handleMovTextConversion(index: number, changes: MovTextConversionOptions) {
+        const options = [`-c:${index} mov_text`];
+
+        if (changes.height !== undefined) {
+            options.push(`-height:${index} ${changes.height}`);
+        }
+
+        return options;
     }
 
     
+    // Seconds with millisecond precision, negative delays advance the stream
     public get delay() {
         return this.changes.delay ?? 0;
     }
 
     public set delay(seconds: number) {
-        this.changes.delay = seconds;
+        this.changes.delay = RoundSyncOffset(seconds);
     }
 
     public copy() {
@@ -753,8 +1770,8 @@ export class AttachmentIngredient extends StreamIngredient<AttachmentCodec> {
         return copiedIngredient;
     }
 
-    public buildOptions(ingredientIndex: number, expectedDressingIndex: number) {
-        const options = super.buildOptions(ingredientIndex, expectedDressingIndex);
+    public buildOptions(ingredientIndex: number, expectedDressingIndex: number, inputStreamIndex = this.index) {
+        const options = super.buildOptions(ingredientIndex, expectedDressingIndex, inputStreamIndex);
 
         // TODO: Support non-mkv formats
         // Font attachments
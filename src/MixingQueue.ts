@@ -0,0 +1,251 @@
+import { MixingBowl, MixingBowlReport, MixingBowlStatus } from './Bowl.js';
+import { BowlMixCanceledError } from './utils/errors/BowlError.js';
+import { BaseMeta, NutritionLogger } from './utils/logging/NutritionLogger.js';
+
+interface MixingQueueEntry {
+    bowl: MixingBowl;
+    priority: number;
+    // Insertion order to keep equal priorities first in, first out
+    order: number;
+    promise: Promise<MixingBowlReport>;
+    resolve: (report: MixingBowlReport) => void;
+    reject: (reason: unknown) => void;
+}
+
+export interface MixingQueueOptions {
+    // Maximum number of bowls mixed in parallel
+    maxConcurrentMixes?: number;
+    onStatusChange?: (bowl: MixingBowl, status: MixingBowlStatus) => void;
+    // Minimum milliseconds between progress updates of a bowl
+    progressInterval?: number;
+}
+
+// Mixes bowls in priority order with a bounded number of parallel ffmpeg processes
+export class MixingQueue {
+    private nextOrder = 0;
+    private concurrency: number;
+    private interval: number;
+
+    private readonly pending: MixingQueueEntry[] = [];
+    private readonly active: Map<number, MixingQueueEntry> = new Map();
+    // Every entry added since the last drain
+    private batch: MixingQueueEntry[] = [];
+
+    constructor(private readonly options: MixingQueueOptions = {}) {
+        this.concurrency = MixingQueue.ValidateConcurrency(options.maxConcurrentMixes ?? 1);
+        this.interval = MixingQueue.ValidateProgressInterval(options.progressInterval ?? 0);
+    }
+
+    private static ValidateConcurrency(maxConcurrentMixes: number) {
+        if (!Number.isInteger(maxConcurrentMixes) || maxConcurrentMixes < 1) {
+            throw new RangeError(`Invalid maximum concurrent mixes: ${maxConcurrentMixes}`);
+        }
+        return maxConcurrentMixes;
+    }
+
+    private static ValidateProgressInterval(progressInterval: number) {
+        if (!Number.isFinite(progressInterval) || progressInterval < 0) {
+            throw new RangeError(`Invalid progress interval: ${progressInterval}`);
+        }
+        return progressInterval;
+    }
+
+    public get maxConcurrentMixes() {
+        return this.concurrency;
+    }
+
+    public set maxConcurrentMixes(maxConcurrentMixes: number) {
+        this.concurrency = MixingQueue.ValidateConcurrency(maxConcurrentMixes);
+        // Raising the limit can free up slots for pending bowls
+        this.next();
+    }
+
+    // Applies to bowls that start mixing after it is set
+    public get progressInterval() {
+        return this.interval;
+    }
+
+    public set progressInterval(progressInterval: number) {
+        this.interval = MixingQueue.ValidateProgressInterval(progressInterval);
+    }
+
+    public get queuedBowls() {
+        return this.pending.map(({ bowl }) => bowl);
+    }
+
+    public get mixingBowls() {
+        return [...this.active.values()].map(({ bowl }) => bowl);
+    }
+
+    public get isIdle() {
+        return !this.pending.length && !this.active.size;
+    }
+
+    public has(bowl: MixingBowl) {
+        return this.active.has(bowl.id) || this.pending.some(entry => entry.bowl.id === bowl.id);
+    }
+
+    // Queue a bowl, resolves with the mix report once the bowl has been mixed
+    public enqueue(bowl: MixingBowl, priority = 0) {
+        NutritionLogger.Debug(
+            'Enqueue mixing bowl',
+            {
+                location: 'MixingQueue',
+                functionName: 'enqueue',
+                operation: 'Enqueue mixing bowl',
+                bowlId: bowl.id,
+                priority
+            }
+        );
+
+        // Throws if the bowl is already queued or mixing
+        bowl.queue();
+        this.notify(bowl);
+
+        let resolve!: MixingQueueEntry['resolve'];
+        let reject!: MixingQueueEntry['reject'];
+        const promise = new Promise<MixingBowlReport>((res, rej) => {
+            resolve = res;
+            reject = rej;
+        });
+        // Failures are reported through drain, avoid unhandled rejections when the bowl promise is ignored
+        promise.catch(() => undefined);
+        const entry: MixingQueueEntry = { bowl, priority, order: this.nextOrder++, promise, resolve, reject };
+
+        this.pending.push(entry);
+        // Highest priority first, then insertion order
+        this.pending.sort((a, b) => b.priority - a.priority || a.order - b.order);
+        this.batch.push(entry);
+
+        this.next();
+
+        return promise;
+    }
+
+    // Remove a queued bowl or cancel a bowl that is mixing
+    public cancel(bowl: MixingBowl) {
+        NutritionLogger.Debug(
+            'Cancel queued mixing bowl',
+            {
+                location: 'MixingQueue',
+                functionName: 'cancel',
+                operation: 'Cancel queued mixing bowl',
+                bowlId: bowl.id
+            }
+        );
+
+        const pendingIndex = this.pending.findIndex(entry => entry.bowl.id === bowl.id);
+        if (pendingIndex !== -1) {
+            const [entry] = this.pending.splice(pendingIndex, 1);
+            bowl.cancelMixing();
+            this.notify(bowl);
+            entry.reject(new BowlMixCanceledError(bowl.id));
+            this.next();
+            return;
+        }
+
+        // Active bowls settle once ffmpeg has been killed
+        if (this.active.has(bowl.id)) {
+            bowl.cancelMixing();
+        }
+    }
+
+    // Resolves once every bowl queued since the last drain has settled
+    public async drain(): Promise<PromiseSettledResult<MixingBowlReport>[]> {
+        let settled = 0;
+        // Bowls may be added while waiting, keep waiting until the batch stops growing
+        while (settled !== this.batch.length) {
+            settled = this.batch.length;
+            await Promise.allSettled(this.batch.map(({ promise }) => promise));
+        }
+
+        const drained = this.batch;
+        this.batch = [];
+
+        return Promise.allSettled(drained.map(({ promise }) => promise));
+    }
+
+    private next() {
+        while (this.active.size < this.concurrency && this.pending.length) {
+            const entry = this.pending.shift() as MixingQueueEntry;
+            this.start(entry);
+        }
+    }
+
+    private start(entry: MixingQueueEntry) {
+        const { bowl } = entry;
+        const baseMeta: BaseMeta = {
+            location: 'MixingQueue',
+            functionName: 'start',
+            operation: 'Start queued mixing bowl'
+        };
+
+        // The bowl was canceled outside of the queue while waiting
+        if (bowl.status.state !== 'queued') {
+            entry.reject(new BowlMixCanceledError(bowl.id));
+            return;
+        }
+
+        this.active.set(bowl.id, entry);
+
+        NutritionLogger.Debug(
+            'Start queued mixing bowl',
+            {
+                ...baseMeta,
+                bowlId: bowl.id,
+                activeBowlIds: [...this.active.keys()],
+                pendingBowlIds: this.pending.map(pending => pending.bowl.id)
+            }
+        );
+
+        // Only failures of the mix are handled here, errors while settling must not settle the bowl twice
+        bowl.mix((status) => this.notify(bowl, status), { progressInterval: this.interval })
+            .then((report) => this.settle(entry, () => entry.resolve(report)), (error) => {
+                // Mixing could not be started, ex. missing output path
+                if (bowl.status.state === 'queued') {
+                    bowl.statusHistory.push({
+                        time: new Date(),
+                        state: 'error',
+                        error
+                    });
+                    this.notify(bowl);
+
+                    NutritionLogger.Error(
+                        'Start queued mixing bowl',
+                        {
+                            ...baseMeta,
+                            bowlId: bowl.id,
+                            error
+                        }
+                    );
+                }
+
+                this.settle(entry, () => entry.reject(error));
+            })
+            .catch((error) => {
+                // Ex. the next bowl could not be started
+                NutritionLogger.Error(
+                    'Settle queued mixing bowl',
+                    {
+                        ...baseMeta,
+                        functionName: 'settle',
+                        operation: 'Settle queued mixing bowl',
+                        bowlId: bowl.id,
+                        error
+                    }
+                );
+            });
+    }
+
+    private settle(entry: MixingQueueEntry, settleEntry: () => void) {
+        this.active.delete(entry.bowl.id);
+        settleEntry();
+        this.next();
+    }
+
+    private notify(bowl: MixingBowl, status = bowl.status) {
+        if (this.options.onStatusChange) {
+            this.options.onStatusChange(bowl, status);
+        }
+    }
+}
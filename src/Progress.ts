@@ -0,0 +1,137 @@
+import { FfmpegProgress } from './Bowl.js';
+import { StreamIngredient } from './Ingredient.js';
+import { GetIngredientDelay } from './Sync.js';
+import { TrimRange } from './Trim.js';
+
+// Mixing progress measured against the expected output duration
+export interface MixProgress {
+    processedSeconds: number; // Output timestamp reached by ffmpeg
+    totalSeconds?: number; // Expected output duration, undefined if unknown
+    percent?: number; // 0-100, undefined if the output duration is unknown
+    speed?: number; // Processed seconds per elapsed second, ex. 2.5 for 2.5x
+    eta?: number; // Seconds left, undefined if the output duration or speed is unknown
+    outputBytes?: number;
+    bitrate?: number; // Output bits per second
+    frames?: number;
+    fps?: number;
+}
+
+// Progress of every bowl mixing at the same time
+export interface AggregateMixProgress {
+    bowlIds: number[];
+    processedSeconds: number;
+    totalSeconds?: number; // Undefined if the duration of any bowl is unknown
+    percent?: number;
+    speed?: number; // Combined speed of every bowl
+    eta?: number; // Seconds until the slowest bowl is done
+    outputBytes: number;
+    bitrate: number; // Combined output bits per second
+}
+
+// Seconds from HH:MM:SS.xx, ex. ffmpeg timemarks and Matroska DURATION tags, undefined if invalid
+export function ParseTimemark(timemark: string | number | undefined) {
+    if (typeof timemark === 'number') {
+        return Number.isFinite(timemark) ? timemark : undefined;
+    }
+
+    const match = /^(-)?(\d+):(\d{2}):(\d{2}(?:\.\d+)?)$/.exec(timemark?.trim() ?? '');
+    if (!match) {
+        const seconds = Number(timemark);
+        return timemark && Number.isFinite(seconds) ? seconds : undefined;
+    }
+
+    const [, sign, hours, minutes, seconds] = match;
+    return (sign ? -1 : 1) * (Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds));
+}
+
+// Stream duration, or the Matroska DURATION tag when the stream has none
+export function GetIngredientDuration(ingredient: StreamIngredient) {
+    if (Number.isFinite(ingredient.duration)) {
+        return ingredient.duration;
+    }
+
+    const durationTag = Object.entries(ingredient.tags)
+        .find(([name]) => name.toUpperCase() === 'DURATION' || name.toUpperCase().startsWith('DURATION-'))?.[1];
+    return ParseTimemark(durationTag);
+}
+
+// Longest delayed ingredient, limited to the kept ranges, undefined if unknown
+export function GetExpectedMixDuration(ingredients: StreamIngredient[], trimRanges?: TrimRange[]) {
+    const durations = ingredients
+        .map(ingredient => {
+            const duration = GetIngredientDuration(ingredient);
+            return duration === undefined ? undefined : Math.max(0, duration + GetIngredientDelay(ingredient));
+        })
+        .filter((duration): duration is number => duration !== undefined);
+    const longest = durations.length ? Math.max(...durations) : undefined;
+
+    if (!trimRanges) {
+        return longest;
+    }
+
+    let total = 0;
+    for (const range of trimRanges) {
+        const end = longest === undefined ? range.end : Math.min(range.end ?? longest, longest);
+        if (end === undefined) {
+            return undefined;
+        }
+        total += Math.max(0, end - range.start);
+    }
+    return total;
+}
+
+/**
+ * Normalize fluent-ffmpeg progress against the expected output duration
+ * processedOffset is added to the ffmpeg timemark, ex. the kept ranges mixed by previous passes
+ */
+export function NormalizeProgress(progress: FfmpegProgress, totalSeconds: number | undefined, elapsedSeconds: number, processedOffset = 0): MixProgress {
+    const processedSeconds = Math.max(0, processedOffset + (ParseTimemark(progress.timemark) ?? 0));
+    const speed = elapsedSeconds > 0 && processedSeconds > 0 ? processedSeconds / elapsedSeconds : undefined;
+    const outputBytes = Number.isFinite(progress.targetSize) ? progress.targetSize * 1024 : undefined;
+    const currentBitrate = Number.isFinite(progress.currentKbps) ? progress.currentKbps * 1000 : undefined;
+
+    const mixProgress: MixProgress = {
+        processedSeconds,
+        speed,
+        outputBytes,
+        bitrate: currentBitrate ?? (outputBytes !== undefined && processedSeconds > 0 ? outputBytes * 8 / processedSeconds : undefined),
+        frames: Number.isFinite(progress.frames) ? progress.frames : undefined,
+        fps: Number.isFinite(progress.currentFps) ? progress.currentFps : undefined
+    };
+
+    if (totalSeconds !== undefined && totalSeconds > 0) {
+        mixProgress.totalSeconds = totalSeconds;
+        mixProgress.percent = Math.min(100, processedSeconds / totalSeconds * 100);
+        if (speed) {
+            mixProgress.eta = Math.max(0, totalSeconds - processedSeconds) / speed;
+        }
+    }
+
+    return mixProgress;
+}
+
+export function AggregateProgress(progresses: { bowlId: number, progress: MixProgress }[]): AggregateMixProgress {
+    const totals = progresses.map(({ progress }) => progress.totalSeconds);
+    const etas = progresses.map(({ progress }) => progress.eta);
+    const speeds = progresses.map(({ progress }) => progress.speed);
+
+    const aggregate: AggregateMixProgress = {
+        bowlIds: progresses.map(({ bowlId }) => bowlId),
+        processedSeconds: progresses.reduce((sum, { progress }) => sum + progress.processedSeconds, 0),
+        outputBytes: progresses.reduce((sum, { progress }) => sum + (progress.outputBytes ?? 0), 0),
+        bitrate: progresses.reduce((sum, { progress }) => sum + (progress.bitrate ?? 0), 0)
+    };
+
+    if (progresses.length && totals.every(total => total !== undefined)) {
+        aggregate.totalSeconds = (totals as number[]).reduce((sum, total) => sum + total, 0);
+        aggregate.percent = aggregate.totalSeconds > 0 ? Math.min(100, aggregate.processedSeconds / aggregate.totalSeconds * 100) : undefined;
+    }
+    if (progresses.length && speeds.every(speed => speed !== undefined)) {
+        aggregate.speed = (speeds as number[]).reduce((sum, speed) => sum + speed, 0);
+    }
+    if (progresses.length && etas.every(eta => eta !== undefined)) {
+        aggregate.eta = Math.max(...(etas as number[]));
+    }
+
+    return aggregate;
+}
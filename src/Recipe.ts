@@ -0,0 +1,274 @@
+import { JSONSchema } from 'json-schema-typed';
+import * as path from 'path';
+
+import { IngredientBowl, MixingBowl } from './Bowl.js';
+import { ConversionChanges } from './Encoders.js';
+import { AudioIngredient, Disposition, StreamIngredient, StreamIngredientType } from './Ingredient.js';
+import { TemplateVariables } from './utils/templating/Template.js';
+
+// Every listed condition must match, list values match any of their entries
+export interface RecipeStreamFilter {
+    type?: StreamIngredientType | StreamIngredientType[];
+    codec?: string | string[];
+    language?: string | string[]; // ISO 639-2, streams without a language match 'und'
+    dispositions?: Disposition; // true must be set, false must not be set
+    tags?: { [name: string]: string | string[] };
+    channels?: { min?: number; max?: number }; // Audio streams only
+    not?: RecipeStreamFilter;
+}
+
+export interface RecipeConversion {
+    filter: RecipeStreamFilter;
+    options: ConversionChanges;
+}
+
+export interface RecipeStreamTags {
+    filter?: RecipeStreamFilter; // All streams if missing
+    tags: { [name: string]: string }; // Tag value templates
+}
+
+/**
+ * Output path and tag templates use {name} placeholders
+ * Bowl variables: stem, dir, ext, index, title
+ * Stream variables: bowl variables and type, codec, language, streamIndex, streamTitle, channels
+ */
+export interface Recipe {
+    // stem - Ingredient Bowls with the same file name without extension are mixed together
+    // file - Every Ingredient Bowl is mixed on its own
+    groupBy?: 'stem' | 'file';
+    output: string; // Output path template, ex. '{dir}/mixed/{stem}.mkv'
+    include?: RecipeStreamFilter[]; // Keep streams matching any filter, all streams if missing
+    exclude?: RecipeStreamFilter[]; // Remove streams matching any filter
+    conversions?: RecipeConversion[]; // The first matching conversion is applied
+    tags?: { [name: string]: string }; // Mixing Bowl tag templates
+    streamTags?: RecipeStreamTags[];
+    chapters?: boolean; // Add chapters from the first Ingredient Bowl with chapters, default true
+}
+
+export interface RecipeGroup {
+    stem: string;
+    ingredientBowls: IngredientBowl[];
+}
+
+export interface RecipeIssue {
+    code: 'noIngredients' | 'conversionFailed';
+    message: string;
+    stem: string;
+    ingredientId?: number;
+    error?: unknown;
+}
+
+export interface RecipeResult {
+    mixingBowls: MixingBowl[];
+    // Ingredients copied to apply conversions and stream tags, originals are left untouched
+    copiedIngredients: StreamIngredient[];
+    issues: RecipeIssue[];
+}
+
+const streamFilterSchema = {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+        type: {
+            anyOf: [
+                { $ref: '#/definitions/streamType' },
+                { type: 'array', items: { $ref: '#/definitions/streamType' } }
+            ]
+        },
+        codec: { $ref: '#/definitions/stringOrStrings' },
+        language: { $ref: '#/definitions/stringOrStrings' },
+        dispositions: {
+            type: 'object',
+            additionalProperties: { type: 'boolean' }
+        },
+        tags: {
+            type: 'object',
+            additionalProperties: { $ref: '#/definitions/stringOrStrings' }
+        },
+        channels: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+                min: { type: 'integer', minimum: 0 },
+                max: { type: 'integer', minimum: 0 }
+            }
+        },
+        not: { $ref: '#/definitions/streamFilter' }
+    }
+} satisfies JSONSchema;
+
+const templatesSchema = {
+    type: 'object',
+    additionalProperties: { type: 'string' }
+} satisfies JSONSchema;
+
+export const recipeSchema = {
+    type: 'object',
+    required: ['output'],
+    additionalProperties: false,
+    definitions: {
+        streamType: {
+            type: 'string',
+            enum: ['video', 'audio', 'subtitle', 'attachment', 'data']
+        },
+        stringOrStrings: {
+            anyOf: [
+                { type: 'string' },
+                { type: 'array', items: { type: 'string' } }
+            ]
+        },
+        streamFilter: streamFilterSchema
+    },
+    properties: {
+        groupBy: {
+            type: 'string',
+            enum: ['stem', 'file']
+        },
+        output: {
+            type: 'string',
+            minLength: 1
+        },
+        include: {
+            type: 'array',
+            items: { $ref: '#/definitions/streamFilter' }
+        },
+        exclude: {
+            type: 'array',
+            items: { $ref: '#/definitions/streamFilter' }
+        },
+        // Conversion options are validated by the ingredient
+        conversions: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['filter', 'options'],
+                properties: {
+                    filter: { $ref: '#/definitions/streamFilter' },
+                    options: {
+                        type: 'object',
+                        required: ['codec'],
+                        properties: {
+                            codec: { type: 'string' }
+                        }
+                    }
+                }
+            }
+        },
+        tags: templatesSchema,
+        streamTags: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['tags'],
+                properties: {
+                    filter: { $ref: '#/definitions/streamFilter' },
+                    tags: templatesSchema
+                }
+            }
+        },
+        chapters: { type: 'boolean' }
+    }
+} satisfies JSONSchema;
+
+function MatchesAny(value: string | undefined, expected: string | string[]) {
+    return (Array.isArray(expected) ? expected : [expected]).some(entry => entry === value);
+}
+
+export function MatchStreamFilter(ingredient: StreamIngredient, filter: RecipeStreamFilter): boolean {
+    if (filter.type !== undefined && !MatchesAny(ingredient.type, filter.type)) {
+        return false;
+    }
+    if (filter.codec !== undefined && !MatchesAny(ingredient.codec, filter.codec)) {
+        return false;
+    }
+    if (filter.language !== undefined && !MatchesAny(ingredient.language || 'und', filter.language)) {
+        return false;
+    }
+    if (filter.dispositions) {
+        const dispositions = ingredient.dispositions;
+        const matchesDispositions = Object.entries(filter.dispositions)
+            .every(([name, value]) => Boolean(dispositions[name]) === Boolean(value));
+        if (!matchesDispositions) {
+            return false;
+        }
+    }
+    if (filter.tags) {
+        const matchesTags = Object.entries(filter.tags)
+            .every(([name, value]) => MatchesAny(ingredient.getTag(name), value));
+        if (!matchesTags) {
+            return false;
+        }
+    }
+    if (filter.channels) {
+        if (!(ingredient instanceof AudioIngredient)) {
+            return false;
+        }
+        const { min, max } = filter.channels;
+        const channels = Number(ingredient.channels);
+        if ((min !== undefined && channels < min) || (max !== undefined && channels > max)) {
+            return false;
+        }
+    }
+    if (filter.not && MatchStreamFilter(ingredient, filter.not)) {
+        return false;
+    }
+
+    return true;
+}
+
+// Streams kept by the recipe include and exclude filters
+export function FilterRecipeIngredients(recipe: Recipe, ingredients: StreamIngredient[]) {
+    return ingredients.filter((ingredient) => {
+        const included = !recipe.include || recipe.include.some(filter => MatchStreamFilter(ingredient, filter));
+        const excluded = recipe.exclude?.some(filter => MatchStreamFilter(ingredient, filter)) ?? false;
+        return included && !excluded;
+    });
+}
+
+// Group Ingredient Bowls by file name without extension, groups and bowls are sorted by path
+export function GroupIngredientBowls(ingredientBowls: IngredientBowl[], groupBy: Recipe['groupBy'] = 'stem'): RecipeGroup[] {
+    const sortedBowls = [...ingredientBowls].sort((a, b) => a.path.localeCompare(b.path));
+
+    if (groupBy === 'file') {
+        return sortedBowls.map(ingredientBowl => ({
+            stem: path.parse(ingredientBowl.path).name,
+            ingredientBowls: [ingredientBowl]
+        }));
+    }
+
+    const groups = new Map<string, RecipeGroup>();
+    sortedBowls.forEach((ingredientBowl) => {
+        const stem = path.parse(ingredientBowl.path).name;
+        const group = groups.get(stem);
+        if (group) {
+            group.ingredientBowls.push(ingredientBowl);
+        } else {
+            groups.set(stem, { stem, ingredientBowls: [ingredientBowl] });
+        }
+    });
+
+    return [...groups.values()];
+}
+
+export function GetRecipeGroupVariables(group: RecipeGroup, index: number): TemplateVariables {
+    const [firstBowl] = group.ingredientBowls;
+    return {
+        stem: group.stem,
+        dir: path.dirname(firstBowl.path),
+        ext: path.extname(firstBowl.path).slice(1),
+        index,
+        title: firstBowl.tags.title
+    };
+}
+
+export function GetRecipeStreamVariables(groupVariables: TemplateVariables, ingredient: StreamIngredient): TemplateVariables {
+    return {
+        ...groupVariables,
+        type: ingredient.type,
+        codec: ingredient.outputCodec,
+        language: ingredient.language || 'und',
+        streamIndex: ingredient.index,
+        streamTitle: ingredient.title,
+        channels: ingredient instanceof AudioIngredient ? Number(ingredient.channels) : undefined
+    };
+}
@@ -0,0 +1,250 @@
+import { JSONSchema } from 'json-schema-typed';
+
+import { BowlTags, IngredientBowl, MixingBowl } from './Bowl.js';
+import { Chapter, ChaptersIngredientState, StreamIngredientState } from './Ingredient.js';
+import { MixingBowlTrim } from './Trim.js';
+
+// Increment when the session format changes
+export const SESSION_VERSION = 1;
+
+// Used to detect source files that changed since the session was exported
+export interface SessionFileStat {
+    size: number;
+    modified: number; // Modification time in milliseconds
+}
+
+export interface IngredientBowlSession {
+    id: number;
+    path: string;
+    file?: SessionFileStat; // Missing if the file could not be read during export
+    ingredients: StreamIngredientState[];
+    chapters?: ChaptersIngredientState;
+}
+
+export interface MixingBowlSession {
+    id: number;
+    output: string;
+    tags: BowlTags;
+    ingredientIds: number[];
+    chaptersIngredientId?: number;
+    trim?: MixingBowlTrim;
+    concatIngredientBowlIds?: number[]; // Parts joined in order
+}
+
+// Chapters imported from chapter files
+export interface StandaloneChaptersSession {
+    id: number;
+    filePath: string;
+    chapters: Chapter[];
+}
+
+export interface VideoSaladSession {
+    version: number;
+    exportedAt: string; // ISO 8601
+    ingredientBowls: IngredientBowlSession[];
+    chapters?: StandaloneChaptersSession[];
+    mixingBowls: MixingBowlSession[];
+}
+
+export interface SessionImportIssue {
+    code: 'missingFile' | 'changedFile' | 'missingIngredient' | 'missingChapters' | 'invalidChanges';
+    message: string;
+    path?: string;
+    ingredientBowlId?: number; // Exported id
+    mixingBowlId?: number; // Exported id
+    ingredientId?: number; // Exported id
+    chapterIds?: number[];
+    error?: unknown;
+}
+
+export interface SessionImportResult {
+    ingredientBowls: IngredientBowl[];
+    mixingBowls: MixingBowl[];
+    // Exported id to imported id
+    ids: {
+        ingredientBowls: { [exportedId: number]: number };
+        ingredients: { [exportedId: number]: number };
+        chaptersIngredients: { [exportedId: number]: number };
+        mixingBowls: { [exportedId: number]: number };
+    };
+    missingFiles: string[];
+    changedFiles: string[];
+    issues: SessionImportIssue[];
+}
+
+const tagsSchema = {
+    type: 'object',
+    additionalProperties: {
+        type: ['string', 'null']
+    }
+} satisfies JSONSchema;
+
+const bowlTagsSchema = {
+    type: 'object',
+    additionalProperties: {
+        type: 'string'
+    }
+} satisfies JSONSchema;
+
+const ingredientStateSchema = {
+    type: 'object',
+    required: ['id', 'index', 'type', 'isOriginal', 'changes'],
+    properties: {
+        id: { type: 'integer' },
+        index: { type: 'integer', minimum: 0 },
+        type: {
+            type: 'string',
+            enum: ['video', 'audio', 'subtitle', 'attachment', 'data']
+        },
+        isOriginal: { type: 'boolean' },
+        tags: tagsSchema,
+        dispositions: {
+            type: 'object',
+            additionalProperties: { type: 'boolean' }
+        },
+        changes: { type: 'object' },
+        // Conversion options are validated by the ingredient
+        conversion: {
+            type: 'object',
+            required: ['codec'],
+            properties: {
+                codec: { type: 'string' }
+            }
+        }
+    }
+} satisfies JSONSchema;
+
+const chapterSchema = {
+    type: 'object',
+    required: ['id', 'timeBase', 'start', 'end', 'title'],
+    properties: {
+        id: { type: 'integer' },
+        timeBase: { type: 'string' },
+        start: { type: 'number' },
+        end: { type: 'number' },
+        title: { type: 'string' }
+    }
+} satisfies JSONSchema;
+
+const chaptersStateSchema = {
+    type: 'object',
+    required: ['id', 'chapters'],
+    properties: {
+        id: { type: 'integer' },
+        added: {
+            type: 'array',
+            items: chapterSchema
+        },
+        removedChapterIds: {
+            type: 'array',
+            items: { type: 'integer' }
+        },
+        chapters: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['id', 'changes'],
+                properties: {
+                    id: { type: 'integer' },
+                    changes: {
+                        type: 'object',
+                        properties: {
+                            timeBase: { type: 'string' },
+                            start: { type: 'number' },
+                            end: { type: 'number' },
+                            title: { type: 'string' }
+                        }
+                    }
+                }
+            }
+        }
+    }
+} satisfies JSONSchema;
+
+export const sessionSchema = {
+    type: 'object',
+    required: ['version', 'exportedAt', 'ingredientBowls', 'mixingBowls'],
+    properties: {
+        version: { const: SESSION_VERSION },
+        exportedAt: { type: 'string' },
+        ingredientBowls: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['id', 'path', 'ingredients'],
+                properties: {
+                    id: { type: 'integer' },
+                    path: { type: 'string', minLength: 1 },
+                    file: {
+                        type: 'object',
+                        required: ['size', 'modified'],
+                        properties: {
+                            size: { type: 'number' },
+                            modified: { type: 'number' }
+                        }
+                    },
+                    ingredients: {
+                        type: 'array',
+                        items: ingredientStateSchema
+                    },
+                    chapters: chaptersStateSchema
+                }
+            }
+        },
+        chapters: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['id', 'filePath', 'chapters'],
+                properties: {
+                    id: { type: 'integer' },
+                    filePath: { type: 'string' },
+                    chapters: {
+                        type: 'array',
+                        items: chapterSchema
+                    }
+                }
+            }
+        },
+        mixingBowls: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['id', 'output', 'tags', 'ingredientIds'],
+                properties: {
+                    id: { type: 'integer' },
+                    output: { type: 'string' },
+                    tags: bowlTagsSchema,
+                    ingredientIds: {
+                        type: 'array',
+                        items: { type: 'integer' }
+                    },
+                    chaptersIngredientId: { type: 'integer' },
+                    trim: {
+                        type: 'object',
+                        required: ['ranges', 'mode'],
+                        properties: {
+                            ranges: {
+                                type: 'array',
+                                items: {
+                                    type: 'object',
+                                    required: ['start'],
+                                    properties: {
+                                        start: { type: 'number', minimum: 0 },
+                                        end: { type: 'number' }
+                                    }
+                                }
+                            },
+                            mode: { type: 'string', enum: ['copy', 'accurate'] }
+                        }
+                    },
+                    concatIngredientBowlIds: {
+                        type: 'array',
+                        minItems: 2,
+                        items: { type: 'integer' }
+                    }
+                }
+            }
+        }
+    }
+} satisfies JSONSchema;
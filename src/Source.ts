@@ -0,0 +1,123 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { fileURLToPath } from 'url';
+
+import { BowlSourceProtocolError, BowlSourceReadError } from './utils/errors/BowlError.js';
+import { GetTempDir } from './utils/ffmpeg/FfmpegEnvironment.js';
+
+// File path, file or HTTP URL, buffer or stream of a media file, strings starting with file://, http:// or https:// are URLs
+export type IngredientBowlSource = string | URL | Buffer | Readable;
+
+export interface IngredientBowlSourceOptions {
+    /**
+     * Copy buffers, streams and HTTP sources to a temporary file so their ingredients can be mixed, default true
+     * Without it the source is only probed, mixing its ingredients throws BowlMixNotSeekableError
+     */
+    cache?: boolean;
+    // Extension of the temporary file, ex. mkv, the format is detected from the content if missing
+    extension?: string;
+}
+
+// Input of sources that were probed from a pipe, ffmpeg cannot seek or read them again
+export const PIPE_SOURCE_PATH = 'pipe:0';
+
+const URL_SOURCE_PATTERN = /^(file|https?):\/\//i;
+
+let nextSourceId = 0;
+// Temporary files holding cached sources
+const cachedSources = new Set<string>();
+
+// URL of file and HTTP URL strings, other strings are file paths
+export function ParseSource(source: IngredientBowlSource) {
+    if (typeof source !== 'string' || !URL_SOURCE_PATTERN.test(source)) {
+        return source;
+    }
+    try {
+        return new URL(source);
+    } catch {
+        return source;
+    }
+}
+
+// File path of file paths and file URLs, undefined for sources read as a stream
+export function GetSourceFilePath(source: IngredientBowlSource) {
+    const parsedSource = ParseSource(source);
+    if (typeof parsedSource === 'string') {
+        return parsedSource;
+    }
+    if (parsedSource instanceof URL && parsedSource.protocol === 'file:') {
+        return fileURLToPath(parsedSource);
+    }
+    return undefined;
+}
+
+// Name of the source in logs and errors, ex. the URL
+export function GetSourceName(source: IngredientBowlSource) {
+    if (typeof source === 'string' || source instanceof URL) {
+        return source.toString();
+    }
+    return Buffer.isBuffer(source) ? '<buffer>' : '<stream>';
+}
+
+export function IsSeekableSource(filePath: string) {
+    return !filePath.startsWith('pipe:');
+}
+
+export function IsCachedSource(filePath: string) {
+    return cachedSources.has(filePath);
+}
+
+// Stream of a buffer, stream or HTTP source, rejects with BowlSourceProtocolError for other URLs
+export async function OpenSource(source: Buffer | Readable | URL) {
+    if (Buffer.isBuffer(source)) {
+        return Readable.from([source]);
+    }
+    if (source instanceof Readable) {
+        return source;
+    }
+    if (source.protocol !== 'http:' && source.protocol !== 'https:') {
+        throw new BowlSourceProtocolError(source.toString(), source.protocol);
+    }
+
+    return new Promise<Readable>((resolve, reject) => {
+        const request = (source.protocol === 'https:' ? https : http).get(source, response => {
+            // Redirects are not followed
+            if (!response.statusCode || response.statusCode < 200 || response.statusCode >= 300) {
+                response.resume();
+                reject(new BowlSourceReadError(source.toString(), new Error(`HTTP status ${response.statusCode}`)));
+                return;
+            }
+            resolve(response);
+        });
+        request.on('error', error => reject(new BowlSourceReadError(source.toString(), error)));
+    });
+}
+
+/**
+ * Write the stream to a temporary file, ffmpeg can then seek it and read it once per input
+ * The file is kept until ReleaseCachedSource or VideoSalad.releaseCachedSources is called
+ */
+export async function CacheSource(stream: Readable, sourceName: string, extension = '') {
+    const cachePath = path.join(GetTempDir(), `video-salad-${process.pid}-source${nextSourceId++}${extension ? `.${extension.replace(/^\./, '')}` : ''}`);
+    try {
+        await pipeline(stream, fs.createWriteStream(cachePath));
+    } catch (error) {
+        await fs.promises.rm(cachePath, { force: true });
+        throw new BowlSourceReadError(sourceName, error);
+    }
+
+    cachedSources.add(cachePath);
+    return cachePath;
+}
+
+// Delete the temporary file of a cached source, ex. once every Mixing Bowl using it has been mixed
+export async function ReleaseCachedSource(filePath: string) {
+    if (!cachedSources.delete(filePath)) {
+        return;
+    }
+    await fs.promises.rm(filePath, { force: true });
+}
@@ -0,0 +1,58 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+import { ContainerFormat } from './Containers.js';
+import { GetTempDir } from './utils/ffmpeg/FfmpegEnvironment.js';
+
+// Mixing Bowl output written to a stream instead of the output path
+export interface MixingBowlStreamOutput {
+    stream: Writable; // ex. process.stdout, an HTTP response or an upload stream
+    format: string; // Output container, ex. mkv, webm, ts or mp4
+    fragmented?: boolean; // Write MP4 and MOV as fragmented MP4, default false
+    allowTempFile?: boolean; // Mix formats that cannot be streamed to a temporary file copied to the stream once mixed
+    end?: boolean; // End the stream once the output has been written, default true except for process.stdout
+}
+
+// How the stream output is written
+export interface MixingBowlStreamOutputPlan {
+    format: string;
+    ffmpegFormat: string;
+    tempFile?: string; // Written first, then copied to the stream
+}
+
+// ffmpeg writes streamed outputs to its stdout
+export const STREAM_OUTPUT = 'pipe:1';
+
+// Undefined if the container can only be written to a temporary file
+export function GetStreamOutputOptions(container: ContainerFormat, fragmented = false) {
+    if (container.streaming === 'full') {
+        return ['-f', container.ffmpegName];
+    }
+    if (container.streaming === 'fragmented' && fragmented) {
+        // The moov atom is written first and the media follows as self contained fragments
+        return ['-f', container.ffmpegName, '-movflags', 'frag_keyframe+empty_moov+default_base_moof'];
+    }
+    return undefined;
+}
+
+// Plain MP4 and MOV files move their index to the front for progressive playback
+export function GetTempFileOutputOptions(container: ContainerFormat) {
+    return container.streaming === 'fragmented'
+        ? ['-f', container.ffmpegName, '-movflags', '+faststart']
+        : ['-f', container.ffmpegName];
+}
+
+export function GetStreamOutputTempPath(bowlId: number, extension: string) {
+    return path.join(GetTempDir(), `video-salad-${process.pid}-bowl${bowlId}-output.${extension}`);
+}
+
+export function GetStreamOutputEnd(output: MixingBowlStreamOutput) {
+    return output.end ?? output.stream !== process.stdout;
+}
+
+// Copy the mixed temporary file to the stream
+export async function CopyToStream(filePath: string, output: MixingBowlStreamOutput) {
+    await pipeline(fs.createReadStream(filePath), output.stream, { end: GetStreamOutputEnd(output) });
+}
@@ -0,0 +1,312 @@
+import { FfprobeData } from 'fluent-ffmpeg';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { AudioIngredient, StreamIngredient, StreamIngredientType, SubtitleIngredient, VideoIngredient } from './Ingredient.js';
+import { CreateFfmpegCommand, GetTempDir } from './utils/ffmpeg/FfmpegEnvironment.js';
+
+/**
+ * offset - the input is delayed with -itsoffset
+ * seek - the start of the input is skipped with -ss, used for negative delays
+ * retime - text subtitle timestamps are rewritten into a temporary file, used for negative subtitle delays
+ *          since seeking drops subtitle events that started before the seek point
+ */
+export type SyncStrategy = 'offset' | 'seek' | 'retime';
+
+// Largest difference in seconds between the expected and probed output start times
+export const SYNC_TOLERANCE = 0.05;
+
+// Text subtitle codecs that can be retimed and their file extension
+const RETIMABLE_SUBTITLES: { [codec: string]: 'srt' | 'ass' | 'vtt' } = {
+    srt: 'srt',
+    ass: 'ass',
+    ssa: 'ass',
+    webvtt: 'vtt'
+};
+
+// Sync of a delayed ingredient in a Mixing Bowl
+export interface MixingBowlSync {
+    ingredientId: number;
+    expectedIngredientIndex: number; // Stream index within the output
+    delay: number; // Seconds, negative delays advance the ingredient
+    strategy: SyncStrategy;
+    expectedStart: number; // Output stream start time in seconds
+    retimedPath?: string; // Temporary file holding the retimed subtitles
+}
+
+// Output stream start time compared to the expected start time
+export interface SyncVerification {
+    ingredientId: number;
+    expectedIngredientIndex: number;
+    expectedStart: number;
+    actualStart?: number; // Undefined if the output stream has no start time
+    difference?: number;
+    synced: boolean;
+}
+
+// Delays are applied with millisecond precision
+export function RoundSyncOffset(seconds: number) {
+    if (!Number.isFinite(seconds)) {
+        throw new RangeError(`Invalid delay: ${seconds}`);
+    }
+    return Math.round(seconds * 1000) / 1000;
+}
+
+export function FormatSyncOffset(seconds: number) {
+    return RoundSyncOffset(seconds).toFixed(3);
+}
+
+// Attachments and data streams cannot be delayed
+export function GetIngredientDelay(ingredient: StreamIngredient) {
+    switch (ingredient.type) {
+        case StreamIngredientType.video:
+            return (ingredient as VideoIngredient).delay;
+        case StreamIngredientType.audio:
+            return (ingredient as AudioIngredient).delay;
+        case StreamIngredientType.subtitle:
+            return (ingredient as SubtitleIngredient).delay;
+        default:
+            return 0;
+    }
+}
+
+// Output start time of the delayed ingredient, streams cannot start before 0
+export function GetExpectedStart(ingredient: StreamIngredient, delay: number) {
+    const sourceStart = Number.isFinite(ingredient.startTime) ? ingredient.startTime : 0;
+    return Math.max(0, RoundSyncOffset(sourceStart + delay));
+}
+
+// File extension of the retimed subtitles, undefined if the ingredient cannot be retimed
+export function GetRetimedSubtitleExtension(ingredient: StreamIngredient) {
+    if (ingredient.type !== StreamIngredientType.subtitle || (ingredient as SubtitleIngredient).isImageBased) {
+        return undefined;
+    }
+    return RETIMABLE_SUBTITLES[ingredient.codec];
+}
+
+// Undefined if the ingredient is not delayed
+export function GetSyncStrategy(ingredient: StreamIngredient, delay: number): SyncStrategy | undefined {
+    if (delay > 0) {
+        return 'offset';
+    }
+    if (delay < 0) {
+        return GetRetimedSubtitleExtension(ingredient) ? 'retime' : 'seek';
+    }
+    return undefined;
+}
+
+// Input options placed before -i, retimed subtitles are already shifted
+export function GetSyncInputOptions(strategy: SyncStrategy, delay: number) {
+    switch (strategy) {
+        case 'offset':
+            return ['-itsoffset', FormatSyncOffset(delay)];
+        case 'seek':
+            return ['-ss', FormatSyncOffset(-delay)];
+        case 'retime':
+            return [];
+    }
+}
+
+export function GetRetimedSubtitlePath(bowlId: number, ingredientId: number, extension: string) {
+    return path.join(GetTempDir(), `video-salad-${process.pid}-bowl${bowlId}-ingredient${ingredientId}.${extension}`);
+}
+
+//#region Retiming
+
+const SRT_TIME = /(\d+):(\d{2}):(\d{2})[,.](\d{3})/;
+const VTT_TIME = /(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})/;
+const ASS_TIME = /(\d+):(\d{2}):(\d{2})\.(\d{2})/;
+
+function ParseTime(match: RegExpExecArray, fractionDigits: number) {
+    const [, hours, minutes, seconds, fraction] = match;
+    return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction) / 10 ** fractionDigits;
+}
+
+function FormatTime(seconds: number, fractionDigits: number, fractionSeparator: string, hourDigits: number) {
+    const scale = 10 ** fractionDigits;
+    const total = Math.round(Math.max(0, seconds) * scale);
+    const fraction = total % scale;
+    const wholeSeconds = Math.floor(total / scale);
+    const hours = String(Math.floor(wholeSeconds / 3600)).padStart(hourDigits, '0');
+    const minutes = String(Math.floor(wholeSeconds / 60) % 60).padStart(2, '0');
+    const remainingSeconds = String(wholeSeconds % 60).padStart(2, '0');
+    return `${hours}:${minutes}:${remainingSeconds}${fractionSeparator}${String(fraction).padStart(fractionDigits, '0')}`;
+}
+
+interface RetimedCue {
+    start: number;
+    end: number;
+}
+
+// Shift a cue, undefined if it ends before the start of the output
+function ShiftCue(start: number, end: number, offset: number): RetimedCue | undefined {
+    const shiftedEnd = end + offset;
+    if (shiftedEnd <= 0) {
+        return undefined;
+    }
+    return { start: Math.max(0, start + offset), end: shiftedEnd };
+}
+
+function RetimeSrt(text: string, offset: number) {
+    const starts: number[] = [];
+    const blocks = text.trim().split(/\r?\n\r?\n+/).reduce<string[]>((blocks, block) => {
+        const lines = block.split(/\r?\n/);
+        const timingIndex = lines.findIndex(line => line.includes('-->'));
+        if (timingIndex === -1) {
+            return blocks;
+        }
+
+        const [startText, endText] = lines[timingIndex].split('-->');
+        const startMatch = SRT_TIME.exec(startText);
+        const endMatch = SRT_TIME.exec(endText);
+        if (!startMatch || !endMatch) {
+            return blocks;
+        }
+
+        const cue = ShiftCue(ParseTime(startMatch, 3), ParseTime(endMatch, 3), offset);
+        if (!cue) {
+            return blocks;
+        }
+
+        starts.push(cue.start);
+        // Cues are renumbered, position coordinates after the end time are kept
+        const position = endText.slice(endMatch.index + endMatch[0].length);
+        const timing = `${FormatTime(cue.start, 3, ',', 2)} --> ${FormatTime(cue.end, 3, ',', 2)}${position}`;
+        blocks.push([`${blocks.length + 1}`, timing, ...lines.slice(timingIndex + 1)].join('\n'));
+        return blocks;
+    }, []);
+
+    return { text: blocks.length ? `${blocks.join('\n\n')}\n` : '', starts };
+}
+
+function RetimeVtt(text: string, offset: number) {
+    const starts: number[] = [];
+    const blocks = text.trim().split(/\r?\n\r?\n+/).reduce<string[]>((blocks, block) => {
+        const lines = block.split(/\r?\n/);
+        const timingIndex = lines.findIndex(line => line.includes('-->'));
+        // Header, NOTE, STYLE and REGION blocks are kept as is
+        if (timingIndex === -1) {
+            blocks.push(block);
+            return blocks;
+        }
+
+        const [startText, endText] = lines[timingIndex].split('-->');
+        const startMatch = VTT_TIME.exec(startText);
+        const endMatch = VTT_TIME.exec(endText);
+        if (!startMatch || !endMatch) {
+            blocks.push(block);
+            return blocks;
+        }
+
+        const cue = ShiftCue(ParseTime(startMatch, 3), ParseTime(endMatch, 3), offset);
+        if (!cue) {
+            return blocks;
+        }
+
+        starts.push(cue.start);
+        // Cue settings after the end time are kept
+        const settings = endText.slice(endMatch.index + endMatch[0].length);
+        lines[timingIndex] = `${FormatTime(cue.start, 3, '.', 2)} --> ${FormatTime(cue.end, 3, '.', 2)}${settings}`;
+        blocks.push(lines.join('\n'));
+        return blocks;
+    }, []);
+
+    return { text: `${blocks.join('\n\n')}\n`, starts };
+}
+
+function RetimeAss(text: string, offset: number) {
+    const starts: number[] = [];
+    const lines = text.split(/\r?\n/).reduce<string[]>((lines, line) => {
+        // Dialogue: Layer,Start,End,Style,Name,MarginL,MarginR,MarginV,Effect,Text
+        const event = /^(Dialogue|Comment):([^,]*),([^,]*),([^,]*),(.*)$/.exec(line);
+        const startMatch = event ? ASS_TIME.exec(event[3]) : null;
+        const endMatch = event ? ASS_TIME.exec(event[4]) : null;
+        if (!event || !startMatch || !endMatch) {
+            lines.push(line);
+            return lines;
+        }
+
+        const cue = ShiftCue(ParseTime(startMatch, 2), ParseTime(endMatch, 2), offset);
+        if (!cue) {
+            return lines;
+        }
+
+        if (event[1] === 'Dialogue') {
+            starts.push(cue.start);
+        }
+        lines.push(`${event[1]}:${event[2]},${FormatTime(cue.start, 2, '.', 1)},${FormatTime(cue.end, 2, '.', 1)},${event[5]}`);
+        return lines;
+    }, []);
+
+    return { text: lines.join('\n'), starts };
+}
+
+/**
+ * Shift every subtitle event by offset seconds
+ * Events ending before 0 are removed, events in progress at 0 are cut
+ * firstStart is undefined if no event remains
+ */
+export function RetimeSubtitleText(text: string, extension: 'srt' | 'ass' | 'vtt', offset: number) {
+    const content = text.replace(/^\uFEFF/, '');
+    const { text: retimedText, starts } = extension === 'srt'
+        ? RetimeSrt(content, offset)
+        : extension === 'vtt'
+            ? RetimeVtt(content, offset)
+            : RetimeAss(content, offset);
+
+    return {
+        text: retimedText,
+        firstStart: starts.length ? Math.min(...starts) : undefined
+    };
+}
+
+// Extract the subtitle stream and write it retimed to retimedPath, resolves with the start of the first event
+export async function RetimeSubtitle(ingredient: StreamIngredient, delay: number, retimedPath: string) {
+    const extension = GetRetimedSubtitleExtension(ingredient);
+    if (!extension) {
+        throw new TypeError(`${ingredient.codec} ${ingredient.type} streams cannot be retimed`);
+    }
+
+    const extractedPath = `${retimedPath}.source.${extension}`;
+    await new Promise<void>((resolve, reject) => {
+        CreateFfmpegCommand(ingredient.filePath)
+            .output(extractedPath)
+            .addOptions(['-map', `0:${ingredient.index}`, '-c', 'copy'])
+            .on('end', () => resolve())
+            .on('error', (err) => reject(err))
+            .run();
+    });
+
+    try {
+        const text = await fs.promises.readFile(extractedPath, 'utf8');
+        const retimed = RetimeSubtitleText(text, extension, delay);
+        await fs.promises.writeFile(retimedPath, retimed.text, 'utf8');
+
+        return retimed.firstStart;
+    } finally {
+        await fs.promises.rm(extractedPath, { force: true });
+    }
+}
+
+//#endregion Retiming
+
+// Compare the start time of every delayed output stream with its expected start time
+export function VerifySync(syncs: MixingBowlSync[], ffProbeData: FfprobeData, tolerance = SYNC_TOLERANCE): SyncVerification[] {
+    return syncs.map(({ ingredientId, expectedIngredientIndex, expectedStart }) => {
+        const stream = ffProbeData.streams.find(stream => stream.index === expectedIngredientIndex);
+        const actualStart = Number(stream?.start_time);
+        if (!Number.isFinite(actualStart)) {
+            return { ingredientId, expectedIngredientIndex, expectedStart, synced: false };
+        }
+
+        const difference = RoundSyncOffset(actualStart - expectedStart);
+        return {
+            ingredientId,
+            expectedIngredientIndex,
+            expectedStart,
+            actualStart,
+            difference,
+            synced: Math.abs(difference) <= tolerance
+        };
+    });
+}
@@ -0,0 +1,166 @@
+import * as path from 'path';
+
+import { VIDEO_ENCODERS } from './Encoders.js';
+import { Chapter, ChaptersIngredientChapter, StreamIngredient } from './Ingredient.js';
+import { CreateFfmpegCommand, GetTempDir } from './utils/ffmpeg/FfmpegEnvironment.js';
+
+/**
+ * copy - stream copy, cuts are moved back to the previous keyframe of the copied video
+ * accurate - copied video is re-encoded so cuts land on the exact frame
+ */
+export type TrimMode = 'copy' | 'accurate';
+
+// Seconds on the mixed timeline, after delays are applied
+export interface TrimRange {
+    start: number;
+    end?: number; // Until the end of the ingredients if missing
+}
+
+export interface MixingBowlTrim {
+    ranges: TrimRange[]; // Kept ranges, joined in order
+    mode: TrimMode;
+}
+
+// A kept range mixed to its own file before the ranges are joined
+export interface MixingBowlSegment {
+    range: TrimRange;
+    output: string;
+    options: string[]; // Arguments following the chapters/metadata input
+    args: string[]; // Full ffmpeg argument list, excluding the ffmpeg executable
+}
+
+export interface MixingBowlTrimPlan {
+    mode: TrimMode;
+    ranges: TrimRange[]; // Ranges after keyframe alignment
+    chapters: Chapter[]; // Chapters of the trimmed output
+    segments?: MixingBowlSegment[]; // Only when more than one range is kept
+    concatList?: string; // ffmpeg concat demuxer list joining the segments
+    concatListPath?: string;
+}
+
+// Seconds searched before a cut point for a keyframe
+const KEYFRAME_SEARCH_WINDOW = 30;
+
+// Ranges ordered by start, throws if a range is invalid or overlaps another
+export function NormalizeTrimRanges(ranges: TrimRange[]) {
+    if (!ranges.length) {
+        throw new RangeError('At least one trim range is required');
+    }
+
+    const sortedRanges = ranges
+        .map(({ start, end }) => ({ start, ...(end !== undefined ? { end } : {}) }))
+        .sort((a, b) => a.start - b.start);
+    sortedRanges.forEach((range, index) => {
+        if (!Number.isFinite(range.start) || range.start < 0) {
+            throw new RangeError(`Invalid trim start: ${range.start}`);
+        }
+        if (range.end !== undefined && (!Number.isFinite(range.end) || range.end <= range.start)) {
+            throw new RangeError(`Invalid trim end: ${range.end}`);
+        }
+
+        const nextRange = sortedRanges[index + 1];
+        if (nextRange && (range.end === undefined || range.end > nextRange.start)) {
+            throw new RangeError(`Trim range starting at ${range.start} overlaps the range starting at ${nextRange.start}`);
+        }
+    });
+
+    return sortedRanges;
+}
+
+// Encoder used to re-encode copied video for frame accurate cuts
+export function GetTrimVideoEncoder(codec: string): string | undefined {
+    return VIDEO_ENCODERS[codec];
+}
+
+// Output options cutting a single range
+export function GetTrimOptions(range: TrimRange) {
+    const options = ['-ss', range.start.toFixed(3)];
+    if (range.end !== undefined) {
+        options.push('-to', range.end.toFixed(3));
+    }
+    return options;
+}
+
+// Position on the trimmed timeline, undefined if the time was cut
+export function MapTrimTime(time: number, ranges: TrimRange[]) {
+    let elapsed = 0;
+    for (const range of ranges) {
+        const end = range.end ?? Infinity;
+        if (time >= range.start && time <= end) {
+            return elapsed + time - range.start;
+        }
+        elapsed += end - range.start;
+    }
+    return undefined;
+}
+
+// Position on the trimmed timeline of the first kept time at or after time, undefined if everything after it was cut
+export function MapTrimStart(time: number, ranges: TrimRange[]) {
+    const range = ranges.find(range => (range.end ?? Infinity) > time);
+    return range ? MapTrimTime(Math.max(time, range.start), ranges) : undefined;
+}
+
+// Chapters moved to the trimmed timeline, chapters entirely cut are removed and the rest are clipped
+export function TrimChapters(chapters: Chapter[], ranges: TrimRange[]): Chapter[] {
+    return chapters.reduce<Chapter[]>((trimmedChapters, chapter) => {
+        const start = ChaptersIngredientChapter.ToSeconds(chapter.start, chapter.timeBase);
+        const end = ChaptersIngredientChapter.ToSeconds(chapter.end, chapter.timeBase);
+        const keptRanges = ranges.filter(range => range.start < end && (range.end ?? Infinity) > start);
+        if (!keptRanges.length) {
+            return trimmedChapters;
+        }
+
+        const firstRange = keptRanges[0];
+        const lastRange = keptRanges[keptRanges.length - 1];
+        const trimmedStart = MapTrimTime(Math.max(start, firstRange.start), ranges) ?? 0;
+        const trimmedEnd = MapTrimTime(Math.min(end, lastRange.end ?? Infinity), ranges) ?? trimmedStart;
+        trimmedChapters.push({
+            ...chapter,
+            start: ChaptersIngredientChapter.FromSeconds(trimmedStart, chapter.timeBase),
+            end: ChaptersIngredientChapter.FromSeconds(trimmedEnd, chapter.timeBase)
+        });
+        return trimmedChapters;
+    }, []);
+}
+
+export function GetSegmentPath(bowlId: number, segmentIndex: number, extension: string) {
+    return path.join(GetTempDir(), `video-salad-${process.pid}-bowl${bowlId}-segment${segmentIndex}${extension}`);
+}
+
+export function GetConcatListPath(bowlId: number) {
+    return path.join(GetTempDir(), `video-salad-${process.pid}-bowl${bowlId}-segments.txt`);
+}
+
+// ffmpeg concat demuxer list, quotes in paths are escaped
+export function BuildConcatList(filePaths: string[]) {
+    return filePaths.map(filePath => `file '${filePath.replace(/'/g, `'\\''`)}'\n`).join('');
+}
+
+/**
+ * Last keyframe at or before time, undefined if there is none within the search window
+ * time and the result are seconds on the mixed timeline, delay converts them to the source timeline
+ */
+export async function FindPreviousKeyframe(ingredient: StreamIngredient, time: number, delay = 0) {
+    const sourceTime = time - delay;
+    const searchStart = Math.max(0, sourceTime - KEYFRAME_SEARCH_WINDOW);
+
+    return new Promise<number | undefined>((resolve, reject) => {
+        let keyframe: number | undefined;
+
+        // Only keyframes are decoded, timestamps are kept to report source times
+        CreateFfmpegCommand(ingredient.filePath)
+            .inputOptions(['-skip_frame', 'nokey', '-ss', searchStart.toFixed(3), '-to', (sourceTime + 0.001).toFixed(3)])
+            .output('-')
+            .addOptions(['-copyts', '-map', `0:${ingredient.index}`, '-vf', 'showinfo', '-f', 'null'])
+            .on('stderr', (line: string) => {
+                const match = /\[Parsed_showinfo.*\bpts_time:\s*(-?[\d.]+)/.exec(line);
+                const pts = match ? Number(match[1]) : NaN;
+                if (Number.isFinite(pts) && pts <= sourceTime + 0.001) {
+                    keyframe = Math.max(keyframe ?? -Infinity, pts);
+                }
+            })
+            .on('end', () => resolve(keyframe !== undefined ? Math.max(0, keyframe + delay) : undefined))
+            .on('error', (err) => reject(err))
+            .run();
+    });
+}
@@ -1,8 +1,77 @@
+import Ajv from 'ajv';
 import Ffmpeg from 'fluent-ffmpeg';
-import { BaseMeta, NutritionLogger } from './utils/logging/NutritionLogger.js';
-import { BowlTags, IngredientBowl, MixingBowl } from './Bowl.js';
-import { ChaptersIngredient, StreamIngredient } from './Ingredient.js';
-import { ImportRejectedResult, VideoSaladImportBowlError, VideoSaladNotFoundError, VideoSaladType } from './utils/errors/VideoSaladError.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BaseMeta, NutritionLogger, NutritionLoggerOptions } from './utils/logging/NutritionLogger.js';
+import { AudioSyncOptions, DetectAudioSync } from './AudioSync.js';
+import { BowlTags, IngredientBowl, MixingBowl, MixingBowlReport, MixingBowlStatus } from './Bowl.js';
+import {
+    ChaptersFormat,
+    ChaptersParseOptions,
+    DetectChaptersFormat,
+    ParseChapters,
+    ParsedChapters,
+    SerializeChapters
+} from './ChapterFormats.js';
+import { CHAPTERS_DETECTION_STREAM_TYPES, ChaptersGeneratorOptions, GenerateChapters } from './ChapterGenerator.js';
+import {
+    DEFAULT_DEMUX_OUTPUT,
+    DEFAULT_DEMUX_TYPES,
+    DemuxOptions,
+    DemuxOutputReceives,
+    GetDemuxFormat,
+    GetDemuxVariables
+} from './Demux.js';
+import { MergeConcatChapters } from './Concat.js';
+import { FfmpegCapabilities, LoadFfmpegCapabilities } from './Capabilities.js';
+import { GetContainerFormat } from './Containers.js';
+import { CommandJournal, HistoryCreation, HistoryEntry, HistorySubject } from './History.js';
+import { ChaptersIngredient, ChaptersOperation, StreamIngredient, StreamIngredientType } from './Ingredient.js';
+import { MixingQueue } from './MixingQueue.js';
+import { AggregateProgress, MixProgress } from './Progress.js';
+import {
+    FilterRecipeIngredients,
+    GetRecipeGroupVariables,
+    GetRecipeStreamVariables,
+    GroupIngredientBowls,
+    MatchStreamFilter,
+    Recipe,
+    RecipeResult,
+    recipeSchema
+} from './Recipe.js';
+import {
+    IngredientBowlSession,
+    MixingBowlSession,
+    SESSION_VERSION,
+    SessionImportResult,
+    VideoSaladSession,
+    sessionSchema
+} from './Session.js';
+import { GetSourceName, IngredientBowlSource, IngredientBowlSourceOptions, IsCachedSource, ReleaseCachedSource } from './Source.js';
+import { MixingBowlStreamOutput } from './StreamOutput.js';
+import { MixingBowlTrim, NormalizeTrimRanges } from './Trim.js';
+import {
+    ImportRejectedResult,
+    VideoSaladBinaryError,
+    VideoSaladDemuxOutputConflictError,
+    VideoSaladImportBowlError,
+    VideoSaladInvalidRecipeError,
+    VideoSaladInvalidSessionError,
+    VideoSaladNotFoundError,
+    VideoSaladSessionVersionError,
+    VideoSaladType
+} from './utils/errors/VideoSaladError.js';
+import { ChaptersAccessError } from './utils/errors/ChaptersError.js';
+import { BowlMixCanceledError } from './utils/errors/BowlError.js';
+import { EventMap, TypedEventEmitter } from './utils/events/TypedEventEmitter.js';
+import {
+    CreateFfmpegCommand,
+    FfmpegEnvironment,
+    GetBinaryPath,
+    GetBinaryVersion,
+    RunInFfmpegEnvironment
+} from './utils/ffmpeg/FfmpegEnvironment.js';
+import { RenderTemplate } from './utils/templating/Template.js';
 
 interface Resolvable {
     mixingBowlId: number;
@@ -20,142 +89,324 @@ interface Resolvable {
 export interface UpdatableMixingBowl extends Partial<Pick<MixingBowl, 'output' | 'tags'>> {
     ingredientIds?: number[];
     chaptersIngredientId?: number;
+    trim?: MixingBowlTrim | null; // null removes the trim
+    concatIngredientBowlIds?: number[] | null; // Parts joined in order, null stops concatenating
+    outputStream?: MixingBowlStreamOutput | null; // null writes to the output path again
+}
+
+export interface VideoSaladOptions extends FfmpegEnvironment {
+    // Extension added to Mixing Bowl outputs without one, ex. mkv
+    defaultContainer?: string;
+    // Maximum number of Mixing Bowls mixed in parallel, default 1
+    maxConcurrentMixes?: number;
+    // Minimum milliseconds between mixProgress events of a Mixing Bowl, default 0
+    progressInterval?: number;
+    // Logging of this instance, the shared console and ./logs/video-salad.log logger is used if missing
+    logger?: NutritionLoggerOptions;
 }
 
 // Utility type to extract the fluent-ffmpeg available capabilities return values from a callback
 type SecondCallbackArg<F> = F extends (callback: (error: infer E, value: infer V) => void) => void ? V : never;
 
+export interface FFMPEGCapabilities {
+    formats?: SecondCallbackArg<typeof Ffmpeg.availableFormats>;
+    codecs?: SecondCallbackArg<typeof Ffmpeg.availableCodecs>;
+    encoders?: SecondCallbackArg<typeof Ffmpeg.availableEncoders>;
+    filters?: SecondCallbackArg<typeof Ffmpeg.availableFilters>;
+}
+
+//#region Events
+
+// Every event carries the id of the SDK command that caused it
+export interface VideoSaladEvent {
+    commandId: number;
+}
+
+export interface IngredientBowlEvent extends VideoSaladEvent {
+    ingredientBowl: IngredientBowl;
+}
+
+export interface MixingBowlEvent extends VideoSaladEvent {
+    mixingBowl: MixingBowl;
+}
+
+export interface IngredientEvent extends VideoSaladEvent {
+    ingredient: StreamIngredient;
+    mixingBowl?: MixingBowl; // Set when the ingredient was added to or removed from a Mixing Bowl
+}
+
+export interface IngredientCopiedEvent extends VideoSaladEvent {
+    ingredient: StreamIngredient;
+    copiedIngredient: StreamIngredient;
+}
+
+export interface ChaptersChangedEvent extends VideoSaladEvent {
+    chaptersIngredient: ChaptersIngredient;
+    mixingBowl?: MixingBowl; // Set when the chapters of a Mixing Bowl were replaced
+}
+
+export interface MixStatusEvent extends MixingBowlEvent {
+    status: MixingBowlStatus;
+}
+
+export interface MixProgressEvent extends MixStatusEvent {
+    progress: MixProgress;
+}
+
+export interface MixFinishedEvent extends MixingBowlEvent {
+    report: MixingBowlReport;
+}
+
+export interface MixFailedEvent extends MixingBowlEvent {
+    error: unknown;
+}
+
+export interface CapabilitiesLoadedEvent extends VideoSaladEvent {
+    // Loaded by getCapabilities, or the fluent-ffmpeg lists of the deprecated FFMPEGCapabilities getter
+    capabilities: FfmpegCapabilities | FFMPEGCapabilities;
+}
+
+export interface HistoryEvent extends VideoSaladEvent {
+    entry: HistoryEntry;
+}
+
+export interface VideoSaladEvents extends EventMap {
+    ingredientBowlImported: [IngredientBowlEvent];
+    ingredientBowlRemoved: [IngredientBowlEvent];
+    mixingBowlCreated: [MixingBowlEvent];
+    mixingBowlUpdated: [MixingBowlEvent];
+    mixingBowlRemoved: [MixingBowlEvent];
+    ingredientAdded: [IngredientEvent];
+    ingredientRemoved: [IngredientEvent];
+    ingredientCopied: [IngredientCopiedEvent];
+    ingredientUpdated: [IngredientEvent];
+    chaptersChanged: [ChaptersChangedEvent];
+    mixQueued: [MixStatusEvent];
+    mixStarted: [MixStatusEvent];
+    mixProgress: [MixProgressEvent];
+    mixFinished: [MixFinishedEvent];
+    mixFailed: [MixFailedEvent];
+    mixCancelled: [MixingBowlEvent];
+    capabilitiesLoaded: [CapabilitiesLoadedEvent];
+    commandUndone: [HistoryEvent];
+    commandRedone: [HistoryEvent];
+}
+
+//#endregion Events
+
+export interface ChaptersImportOptions extends ChaptersParseOptions {
+    format?: ChaptersFormat; // Detected from the file extension and content if missing
+}
+
+export interface ChaptersImportResult {
+    chaptersIngredient: ChaptersIngredient;
+    warnings: string[];
+}
+
 export type UpdatableIngredient = Partial<Pick<StreamIngredient, 'tags' | 'dispositions'>>;
 
 // https://stackoverflow.com/questions/40510611/typescript-interface-require-one-of-two-properties-to-exist
 type RequireAtLeastOne<T, Keys extends keyof T = keyof T> = Pick<T, Exclude<keyof T, Keys>>
     & { [K in Keys]-?: Required<Pick<T, K>> & Partial<Pick<T, Exclude<Keys, K>>> }[Keys];
 
-export class VideoSalad {
+export class VideoSalad extends TypedEventEmitter<VideoSaladEvents> {
     private nextCommandId = 0;
 
     // FFMPEG Capabilities
-    private capabilities?: {
-        formats?: SecondCallbackArg<typeof Ffmpeg.availableFormats>;
-        codecs?: SecondCallbackArg<typeof Ffmpeg.availableCodecs>;
-        encoders?: SecondCallbackArg<typeof Ffmpeg.availableEncoders>;
-        filters?: SecondCallbackArg<typeof Ffmpeg.availableFilters>;
-    };
+    private capabilities?: FFMPEGCapabilities;
+    // Whether getCapabilities has emitted capabilitiesLoaded, only the first load of the instance emits it
+    private capabilitiesLoaded = false;
 
     private mixingBowlMap: { [bowlId: number]: { removed: boolean; bowl: MixingBowl } } = {};
     private ingredientBowlMap: { [bowlId: number]: { removed: boolean; bowl: IngredientBowl } } = {};
+    // Chapters imported from chapter files instead of media files
+    private standaloneChaptersMap: { [chaptersIngredientId: number]: ChaptersIngredient } = {};
+
+    private mixingQueue = new MixingQueue({ onStatusChange: (bowl, status) => this.emitMixStatus(bowl, status) });
+    // Command that queued each mixing bowl, carried by its mix events
+    private mixCommandIds = new Map<number, number>();
+    // Undo/redo history of the commands changing bowls, ingredients and chapters
+    private journal = new CommandJournal();
+
+    // Every command, and the mixing it starts, logs to this logger
+    private nutritionLogger: NutritionLogger;
+    public logger: NutritionLogger['logger'];
+
+    // Binaries and temporary directory used by every command of this instance
+    private environment: FfmpegEnvironment;
+    private defaultContainer?: string;
+    // Set by VideoSalad.create
+    private binaryVersions: { ffmpeg?: string; ffprobe?: string } = {};
+
+    constructor(options?: VideoSaladOptions);
+    /** @deprecated Use the options object, ex. new VideoSalad({ ffmpegPath, ffprobePath }) */
+    constructor(ffmpegPath?: string, ffprobePath?: string, options?: VideoSaladOptions);
+    constructor(optionsOrFfmpegPath?: VideoSaladOptions | string, ffprobePath?: string, legacyOptions: VideoSaladOptions = {}) {
+        super();
+
+        const options: VideoSaladOptions = typeof optionsOrFfmpegPath === 'object'
+            ? optionsOrFfmpegPath
+            : { ...legacyOptions, ffmpegPath: optionsOrFfmpegPath ?? legacyOptions.ffmpegPath, ffprobePath: ffprobePath ?? legacyOptions.ffprobePath };
+
+        this.nutritionLogger = options.logger ? new NutritionLogger(options.logger) : NutritionLogger.instance;
+        this.logger = this.nutritionLogger.logger;
+
+        if (options.defaultContainer !== undefined && !GetContainerFormat(options.defaultContainer)) {
+            throw new RangeError(`Unknown default container: ${options.defaultContainer}`);
+        }
+        this.defaultContainer = options.defaultContainer?.replace(/^\./, '');
+        if (options.maxConcurrentMixes !== undefined) {
+            this.mixingQueue.maxConcurrentMixes = options.maxConcurrentMixes;
+        }
+        if (options.progressInterval !== undefined) {
+            this.mixingQueue.progressInterval = options.progressInterval;
+        }
 
-    public logger = NutritionLogger.instance.logger;
+        // Scoped to this instance instead of the process-wide fluent-ffmpeg paths, so instances can run different builds
+        this.environment = {
+            ffmpegPath: options.ffmpegPath,
+            ffprobePath: options.ffprobePath,
+            tempDir: options.tempDir
+        };
+        // The deprecated form still sets the process-wide paths, ex. for IngredientBowl.Initialize called directly
+        if (typeof optionsOrFfmpegPath !== 'object') {
+            if (options.ffmpegPath) {
+                Ffmpeg.setFfmpegPath(options.ffmpegPath);
+            }
+            if (options.ffprobePath) {
+                Ffmpeg.setFfprobePath(options.ffprobePath);
+            }
+        }
 
-    constructor(ffmpegPath?: string, ffprobePath?: string) {
-        NutritionLogger.Info(
+        this.withContext(() => NutritionLogger.Info(
             'Initialize FFMPEG',
             {
                 location: 'VideoSalad',
                 functionName: 'constructor',
                 operation: 'Set FFMPEG paths',
-                ffmpegPath,
-                ffprobePath
+                ...this.environment
             }
-        );
-        // Set ffmpeg and ffprobe paths and initialize ffmpeg and ffprobe
-        if (ffmpegPath) {
-            Ffmpeg.setFfmpegPath(ffmpegPath);
-        }
-        if (ffprobePath) {
-            Ffmpeg.setFfprobePath(ffprobePath);
-        }
+        ));
+    }
+
+    /**
+     * Create a VideoSalad after checking that its ffmpeg and ffprobe binaries can be run
+     * Rejects with VideoSaladBinaryError if either binary is missing or fails to report its version
+     */
+    public static async create(options: VideoSaladOptions = {}) {
+        const videoSalad = new VideoSalad(options);
+        await videoSalad.withContext(() => videoSalad.checkBinaries(videoSalad.newCommandId));
+        return videoSalad;
     }
 
     //#region Public SDK API
 
-    public get FFMPEGCapabilities() {
-        // Return cached capabilities
-        if (this.capabilities) {
-            return this.capabilities;
-        }
+    // Version reported by ffmpeg -version, set by VideoSalad.create
+    public get ffmpegVersion() {
+        return this.binaryVersions.ffmpeg;
+    }
 
-        const baseMeta: BaseMeta = {
-            location: 'VideoSalad',
-            functionName: 'FFMPEGCapabilities',
-            operation: 'Get FFMPEG Capabilities'
-        };
-        NutritionLogger.Debug(
-            'Get FFMPEG Capabilities',
-            baseMeta
-        );
+    // Version reported by ffprobe -version, set by VideoSalad.create
+    public get ffprobeVersion() {
+        return this.binaryVersions.ffprobe;
+    }
 
-        // Warning: Callback Hell
-        Ffmpeg.availableFormats((formatErr, formatsResult) => {
-            if (formatErr) {
-                NutritionLogger.Error(
-                    'Get FFMPEG Capabilities - Available Formats',
-                    {
-                        ...baseMeta,
-                        operation: 'Get FFMPEG Capabilities - Available Formats',
-                        error: formatErr
-                    }
-                );
-                return;
-            }
-            if (!this.capabilities) {
-                this.capabilities = {};
-            }
-            this.capabilities.formats = formatsResult;
-        });
-        Ffmpeg.availableCodecs((codecErr, codecsResult) => {
-            if (codecErr) {
-                NutritionLogger.Error(
-                    'Get FFMPEG Capabilities - Available Codecs',
-                    {
-                        ...baseMeta,
-                        operation: 'Get FFMPEG Capabilities - Available Codecs',
-                        error: codecErr
-                    }
-                );
-                return;
-            }
-            if (!this.capabilities) {
-                this.capabilities = {};
-            }
-            this.capabilities.codecs = codecsResult;
-        });
-        Ffmpeg.availableEncoders((encoderErr, encodersResult) => {
-            if (encoderErr) {
-                NutritionLogger.Error(
-                    'Get FFMPEG Capabilities - Available Encoders',
-                    {
-                        ...baseMeta,
-                        operation: 'Get FFMPEG Capabilities - Available Encoders',
-                        error: encoderErr
-                    }
-                );
-                return;
-            }
-            if (!this.capabilities) {
-                this.capabilities = {};
-            }
-            this.capabilities.encoders = encodersResult;
-        });
-        Ffmpeg.availableFilters((filterErr, filtersResult) => {
-            if (filterErr) {
-                NutritionLogger.Error(
-                    'Get FFMPEG Capabilities - Available Filters',
-                    {
-                        ...baseMeta,
-                        operation: 'Get FFMPEG Capabilities - Available Filters',
-                        error: filterErr
-                    }
-                );
-                return;
-            }
-            if (!this.capabilities) {
-                this.capabilities = {};
+    /** @deprecated Use getCapabilities, this getter returns undefined until every list has been loaded */
+    public get FFMPEGCapabilities() {
+        return this.withContext(() => {
+            // Return cached capabilities
+            if (this.capabilities) {
+                return this.capabilities;
             }
-            this.capabilities.filters = filtersResult;
-        });
 
-        return this.capabilities;
+            const baseMeta: BaseMeta = {
+                location: 'VideoSalad',
+                functionName: 'FFMPEGCapabilities',
+                operation: 'Get FFMPEG Capabilities'
+            };
+            NutritionLogger.Debug(
+                'Get FFMPEG Capabilities',
+                baseMeta
+            );
+            const commandId = this.newCommandId;
+
+            // Warning: Callback Hell
+            // fluent-ffmpeg caches these lists process-wide, the first instance to load them answers for every instance
+            CreateFfmpegCommand().availableFormats((formatErr, formatsResult) => {
+                if (formatErr) {
+                    NutritionLogger.Error(
+                        'Get FFMPEG Capabilities - Available Formats',
+                        {
+                            ...baseMeta,
+                            operation: 'Get FFMPEG Capabilities - Available Formats',
+                            error: formatErr
+                        }
+                    );
+                    return;
+                }
+                if (!this.capabilities) {
+                    this.capabilities = {};
+                }
+                this.capabilities.formats = formatsResult;
+                this.emitCapabilitiesLoaded(commandId);
+            });
+            CreateFfmpegCommand().availableCodecs((codecErr, codecsResult) => {
+                if (codecErr) {
+                    NutritionLogger.Error(
+                        'Get FFMPEG Capabilities - Available Codecs',
+                        {
+                            ...baseMeta,
+                            operation: 'Get FFMPEG Capabilities - Available Codecs',
+                            error: codecErr
+                        }
+                    );
+                    return;
+                }
+                if (!this.capabilities) {
+                    this.capabilities = {};
+                }
+                this.capabilities.codecs = codecsResult;
+                this.emitCapabilitiesLoaded(commandId);
+            });
+            CreateFfmpegCommand().availableEncoders((encoderErr, encodersResult) => {
+                if (encoderErr) {
+                    NutritionLogger.Error(
+                        'Get FFMPEG Capabilities - Available Encoders',
+                        {
+                            ...baseMeta,
+                            operation: 'Get FFMPEG Capabilities - Available Encoders',
+                            error: encoderErr
+                        }
+                    );
+                    return;
+                }
+                if (!this.capabilities) {
+                    this.capabilities = {};
+                }
+                this.capabilities.encoders = encodersResult;
+                this.emitCapabilitiesLoaded(commandId);
+            });
+            CreateFfmpegCommand().availableFilters((filterErr, filtersResult) => {
+                if (filterErr) {
+                    NutritionLogger.Error(
+                        'Get FFMPEG Capabilities - Available Filters',
+                        {
+                            ...baseMeta,
+                            operation: 'Get FFMPEG Capabilities - Available Filters',
+                            error: filterErr
+                        }
+                    );
+                    return;
+                }
+                if (!this.capabilities) {
+                    this.capabilities = {};
+                }
+                this.capabilities.filters = filtersResult;
+                this.emitCapabilitiesLoaded(commandId);
+            });
+
+            return this.capabilities;
+        });
     }
 
     public get mixingBowls() {
@@ -170,68 +421,129 @@ export class VideoSalad {
             .map(({ bowl }) => bowl);
     }
 
+    public get standaloneChapters() {
+        return Object.values(this.standaloneChaptersMap);
+    }
+
     public get ingredients() {
         return this.ingredientBowls
             .map(bowl => bowl.ingredients)
             .flat();
     }
 
-    public getMixingBowl(bowlId: number) {
-        NutritionLogger.Debug(
-            'Get Mixing Bowl',
-            {
-                location: 'VideoSalad',
-                functionName: 'getMixingBowl',
-                operation: 'Get Mixing Bowl',
-                bowlId
-            }
-        );
+    // Maximum number of Mixing Bowls mixed in parallel
+    public get maxConcurrentMixes() {
+        return this.mixingQueue.maxConcurrentMixes;
+    }
 
-        const { removed, bowl } = this.getAnyMixingBowl(bowlId);
-        if (removed) {
-            const error = new VideoSaladNotFoundError(VideoSaladType.MixingBowl, bowlId);
-            NutritionLogger.Error(
-                'Mixing Bowl not found',
+    public set maxConcurrentMixes(maxConcurrentMixes: number) {
+        this.mixingQueue.maxConcurrentMixes = maxConcurrentMixes;
+    }
+
+    // Minimum milliseconds between mixProgress events of a Mixing Bowl
+    public get progressInterval() {
+        return this.mixingQueue.progressInterval;
+    }
+
+    public set progressInterval(progressInterval: number) {
+        this.mixingQueue.progressInterval = progressInterval;
+    }
+
+    // Mixing Bowls waiting for a free mixing slot, in mixing order
+    public get queuedBowls() {
+        return this.mixingQueue.queuedBowls;
+    }
+
+    // Undoable and redoable commands, mixing and exports are not recorded
+    public get history() {
+        return this.journal.state;
+    }
+
+    public get canUndo() {
+        return this.journal.canUndo;
+    }
+
+    public get canRedo() {
+        return this.journal.canRedo;
+    }
+
+    // Maximum number of undoable commands, the oldest commands are forgotten first
+    public get historyLimit() {
+        return this.journal.limit;
+    }
+
+    public set historyLimit(historyLimit: number) {
+        this.journal.limit = historyLimit;
+    }
+
+    // Combined progress of every Mixing Bowl currently mixing
+    public get mixProgress() {
+        return AggregateProgress(this.mixingQueue.mixingBowls.map(bowl => ({
+            bowlId: bowl.id,
+            progress: bowl.status.mixProgress ?? { processedSeconds: 0 }
+        })));
+    }
+
+    public getMixingBowl(bowlId: number) {
+        return this.withContext(() => {
+            NutritionLogger.Debug(
+                'Get Mixing Bowl',
                 {
                     location: 'VideoSalad',
                     functionName: 'getMixingBowl',
                     operation: 'Get Mixing Bowl',
-                    bowlId,
-                    error
+                    bowlId
                 }
             );
-            throw error;
-        }
-        return bowl;
-    }
 
-    public getIngredientBowl(bowlId: number) {
-        NutritionLogger.Debug(
-            'Get Ingredient Bowl',
-            {
-                location: 'VideoSalad',
-                functionName: 'getIngredientBowl',
-                operation: 'Get Ingredient Bowl',
-                bowlId
+            const { removed, bowl } = this.getAnyMixingBowl(bowlId);
+            if (removed) {
+                const error = new VideoSaladNotFoundError(VideoSaladType.MixingBowl, bowlId);
+                NutritionLogger.Error(
+                    'Mixing Bowl not found',
+                    {
+                        location: 'VideoSalad',
+                        functionName: 'getMixingBowl',
+                        operation: 'Get Mixing Bowl',
+                        bowlId,
+                        error
+                    }
+                );
+                throw error;
             }
-        );
+            return bowl;
+        });
+    }
 
-        const { removed, bowl } = this.getAnyIngredientBowl(bowlId);
-        if (removed) {
-            const error = new VideoSaladNotFoundError(VideoSaladType.IngredientBowl, bowlId);
-            NutritionLogger.Error(
-                'Ingredient Bowl not found',
+    public getIngredientBowl(bowlId: number) {
+        return this.withContext(() => {
+            NutritionLogger.Debug(
+                'Get Ingredient Bowl',
                 {
                     location: 'VideoSalad',
                     functionName: 'getIngredientBowl',
                     operation: 'Get Ingredient Bowl',
-                    bowlId,
-                    error
+                    bowlId
                 }
             );
-            throw error;
-        }
-        return bowl;
+
+            const { removed, bowl } = this.getAnyIngredientBowl(bowlId);
+            if (removed) {
+                const error = new VideoSaladNotFoundError(VideoSaladType.IngredientBowl, bowlId);
+                NutritionLogger.Error(
+                    'Ingredient Bowl not found',
+                    {
+                        location: 'VideoSalad',
+                        functionName: 'getIngredientBowl',
+                        operation: 'Get Ingredient Bowl',
+                        bowlId,
+                        error
+                    }
+                );
+                throw error;
+            }
+            return bowl;
+        });
     }
 
     private getAnyMixingBowl(bowlId: number) {
@@ -331,7 +643,8 @@ export class VideoSalad {
             }
         );
 
-        const chaptersIngredient = this.ingredientBowls.find(bowl => bowl.chapters?.id === chaptersIngredientId)?.chapters;
+        const chaptersIngredient = this.ingredientBowls.find(bowl => bowl.chapters?.id === chaptersIngredientId)?.chapters
+            ?? this.standaloneChaptersMap[chaptersIngredientId];
         if (!chaptersIngredient) {
             const error = new VideoSaladNotFoundError(VideoSaladType.ChaptersIngredient, chaptersIngredientId);
             NutritionLogger.Error(
@@ -349,90 +662,451 @@ export class VideoSalad {
         return chaptersIngredient;
     }
 
-    public async importBowls(filePaths: string[]) {
-        return this.importIngredientBowls(filePaths, this.newCommandId);
+    // Formats, codecs, encoders and filters of the ffmpeg binary of this instance, loaded once per binary
+    public async getCapabilities() {
+        return this.withContext(async () => {
+            const commandId = this.newCommandId;
+            const capabilities = await this.loadCapabilities(commandId);
+
+            if (!this.capabilitiesLoaded) {
+                this.capabilitiesLoaded = true;
+                this.emit('capabilitiesLoaded', { commandId, capabilities });
+            }
+            return capabilities;
+        });
+    }
+
+    // File paths, file or HTTP URLs, buffers or streams, see IngredientBowlSourceOptions for caching
+    public async importBowls(sources: IngredientBowlSource[], options: IngredientBowlSourceOptions = {}) {
+        return this.withContext(() => {
+            const commandId = this.newCommandId;
+            return this.recordCommand('importBowls', commandId, [], () => this.importIngredientBowls(sources, options, commandId));
+        });
     }
 
     public async removeImportedBowl(ingredientBowlId: number) {
-        const { ingredientBowl } = this.resolveItems({ ingredientBowlId });
-        return this.removeIngredientBowl(ingredientBowl, this.newCommandId);
+        return this.withContext(() => {
+            const { ingredientBowl } = this.resolveItems({ ingredientBowlId });
+            const commandId = this.newCommandId;
+            return this.recordCommand(
+                'removeImportedBowl',
+                commandId,
+                [this.ingredientBowlSubject(ingredientBowl), ...this.mixingBowlSubjectsUsing(ingredientBowl.ingredients)],
+                () => this.removeIngredientBowl(ingredientBowl, commandId)
+            );
+        });
+    }
+
+    /**
+     * Delete the temporary files of the Ingredient Bowls imported from buffers, streams and HTTP sources
+     * Removed bowls are released too, so call it once this instance is no longer used, ex. before closing the app
+     * Released bowls cannot be mixed anymore
+     */
+    public async releaseCachedSources() {
+        return this.withContext(async () => {
+            const cachedPaths = Object.values(this.ingredientBowlMap)
+                .map(({ bowl }) => bowl.path)
+                .filter(IsCachedSource);
+            NutritionLogger.Debug(
+                'Release Cached Sources',
+                {
+                    location: 'VideoSalad',
+                    functionName: 'releaseCachedSources',
+                    operation: 'Release Cached Sources',
+                    commandId: this.newCommandId,
+                    paths: cachedPaths
+                }
+            );
+
+            await Promise.all(cachedPaths.map(ReleaseCachedSource));
+        });
     }
 
     public async createBowls(outputFilePaths: string[]) {
-        return this.createMixingBowls(outputFilePaths, this.newCommandId);
+        return this.withContext(() => {
+            const commandId = this.newCommandId;
+            return this.recordCommand('createBowls', commandId, [], () => this.createMixingBowls(outputFilePaths, commandId));
+        });
     }
 
     public async updateBowl(bowlId: number, updates: UpdatableMixingBowl) {
-        const {
-            mixingBowl,
-            ingredients,
-            chaptersIngredient
-        } = this.resolveItems({
-            mixingBowlId: bowlId,
-            ingredientIds: updates.ingredientIds,
-            chaptersIngredientId: updates.chaptersIngredientId
-        });
-        return this.updateMixingBowl(
-            mixingBowl,
-            {
-                output: updates.output,
-                tags: updates.tags,
+        return this.withContext(() => {
+            const {
+                mixingBowl,
                 ingredients,
-                chapters: chaptersIngredient
-            },
-            this.newCommandId
-        );
+                chaptersIngredient
+            } = this.resolveItems({
+                mixingBowlId: bowlId,
+                ingredientIds: updates.ingredientIds,
+                chaptersIngredientId: updates.chaptersIngredientId
+            });
+            const concat = updates.concatIngredientBowlIds === null
+                ? null
+                : updates.concatIngredientBowlIds?.map(ingredientBowlId => this.resolveItems({ ingredientBowlId }).ingredientBowl);
+            const commandId = this.newCommandId;
+            return this.recordCommand('updateBowl', commandId, [this.mixingBowlSubject(mixingBowl)], () => this.updateMixingBowl(
+                mixingBowl,
+                {
+                    output: updates.output,
+                    tags: updates.tags,
+                    ingredients,
+                    chapters: chaptersIngredient,
+                    trim: updates.trim,
+                    concat,
+                    outputStream: updates.outputStream
+                },
+                commandId
+            ));
+        });
     }
 
+    // Mixing is cancelled, undoing the removal does not queue the bowl again
     public async removeBowl(bowlId: number) {
-        return this.removeMixingBowl(bowlId, this.newCommandId);
+        return this.withContext(() => {
+            const { bowl } = this.getAnyMixingBowl(bowlId);
+            const commandId = this.newCommandId;
+            return this.recordCommand('removeBowl', commandId, [this.mixingBowlSubject(bowl)], () => this.removeMixingBowl(bowlId, commandId));
+        });
     }
 
     public async addIngredientToBowl(bowlId: number, ingredientId: number) {
-        const { mixingBowl, ingredient } = this.resolveItems({ mixingBowlId: bowlId, ingredientId });
-        return this.addIngredient(mixingBowl, ingredient, this.newCommandId);
+        return this.withContext(() => {
+            const { mixingBowl, ingredient } = this.resolveItems({ mixingBowlId: bowlId, ingredientId });
+            const commandId = this.newCommandId;
+            return this.recordCommand('addIngredientToBowl', commandId, [this.mixingBowlSubject(mixingBowl)], () => this.addIngredient(mixingBowl, ingredient, commandId));
+        });
     }
 
     public async removeIngredientFromBowl(bowlId: number, ingredientId: number) {
-        const { mixingBowl, ingredient } = this.resolveItems({ mixingBowlId: bowlId, ingredientId });
-        return this.removeIngredient(mixingBowl, ingredient, this.newCommandId);
+        return this.withContext(() => {
+            const { mixingBowl, ingredient } = this.resolveItems({ mixingBowlId: bowlId, ingredientId });
+            const commandId = this.newCommandId;
+            return this.recordCommand('removeIngredientFromBowl', commandId, [this.mixingBowlSubject(mixingBowl)], () => this.removeIngredient(mixingBowl, ingredient, commandId));
+        });
+    }
+
+    // Resolves once the bowl has been mixed, higher priority bowls are mixed first
+    public async mixBowl(bowlId: number, priority = 0) {
+        return this.withContext(() => {
+            const { mixingBowl } = this.resolveItems({ mixingBowlId: bowlId });
+            return this.mixMixingBowl(mixingBowl, priority, this.newCommandId);
+        });
+    }
+
+    // Resolves once all of the bowls have settled
+    public async mixBowls(bowlIds: number[], priority = 0) {
+        return this.withContext(() => {
+            const mixingBowls = bowlIds.map(bowlId => this.getMixingBowl(bowlId));
+            const commandId = this.newCommandId;
+            return Promise.allSettled(mixingBowls.map(mixingBowl => this.mixMixingBowl(mixingBowl, priority, commandId)));
+        });
+    }
+
+    // Build the ffmpeg arguments for a bowl without running ffmpeg
+    public async planBowl(bowlId: number) {
+        return this.withContext(() => {
+            const { mixingBowl } = this.resolveItems({ mixingBowlId: bowlId });
+            return this.planMixingBowl(mixingBowl, this.newCommandId);
+        });
+    }
+
+    public async cancelMix(bowlId: number) {
+        return this.withContext(() => {
+            const { mixingBowl } = this.resolveItems({ mixingBowlId: bowlId });
+            return this.cancelMixingBowl(mixingBowl, this.newCommandId);
+        });
     }
 
-    // public async mixBowl(bowlId: number) {
-    //     const { mixingBowl } = this.resolveItems({ mixingBowlId: bowlId });
-    //     return this.mixMixingBowl(mixingBowl, this.newCommandId);
-    // }
+    // Resolves once every bowl queued since the last call has settled
+    public async waitForMixes() {
+        return this.withContext(() => this.mixingQueue.drain());
+    }
 
     public async updateIngredient(ingredientId: number, updates: Partial<Pick<StreamIngredient, 'tags' | 'dispositions'>>) {
-        const { ingredient } = this.resolveItems({ ingredientId });
-        return this.updateIngredientBowlIngredient(ingredient, updates, this.newCommandId);
+        return this.withContext(() => {
+            const { ingredient } = this.resolveItems({ ingredientId });
+            const commandId = this.newCommandId;
+            return this.recordCommand('updateIngredient', commandId, [this.ingredientSubject(ingredient)], () => this.updateIngredientBowlIngredient(ingredient, updates, commandId));
+        });
     }
 
     public async copyIngredient(ingredientId: number) {
-        const { ingredient } = this.resolveItems({ ingredientId });
-        return this.copyIngredientBowlIngredient(ingredient, this.newCommandId);
+        return this.withContext(() => {
+            const { ingredient } = this.resolveItems({ ingredientId });
+            const commandId = this.newCommandId;
+            return this.recordCommand(
+                'copyIngredient',
+                commandId,
+                this.ingredientBowls
+                    .filter(ingredientBowl => ingredientBowl.ingredients.includes(ingredient))
+                    .map(ingredientBowl => this.ingredientBowlSubject(ingredientBowl)),
+                () => this.copyIngredientBowlIngredient(ingredient, commandId)
+            );
+        });
     }
 
-    //#endregion Public SDK API
+    // Estimate the delay lining the candidate audio up with the reference audio, optionally applying it
+    public async detectAudioSync(referenceIngredientId: number, candidateIngredientId: number, options: AudioSyncOptions = {}) {
+        return this.withContext(() => {
+            const { ingredients } = this.resolveItems({ ingredientIds: [referenceIngredientId, candidateIngredientId] });
+            const [reference, candidate] = ingredients;
+            const commandId = this.newCommandId;
+            // Only an applied delay changes the candidate
+            return options.apply
+                ? this.recordCommand('detectAudioSync', commandId, [this.ingredientSubject(candidate)], () => this.detectIngredientAudioSync(reference, candidate, options, commandId))
+                : this.detectIngredientAudioSync(reference, candidate, options, commandId);
+        });
+    }
 
-    //#region Utilities
+    // Parse a chapters file into standalone chapters that can be added to any Mixing Bowl
+    public async importChapters(filePath: string, options: ChaptersImportOptions = {}) {
+        return this.withContext(() => {
+            const commandId = this.newCommandId;
+            return this.recordCommand('importChapters', commandId, [], () => this.importChaptersFile(filePath, options, commandId));
+        });
+    }
 
-    private get newCommandId() {
-        return this.nextCommandId++;
+    // Parse chapters text into standalone chapters that can be added to any Mixing Bowl
+    public async importChaptersText(text: string, options: ChaptersImportOptions = {}) {
+        return this.withContext(() => {
+            const commandId = this.newCommandId;
+            return this.recordCommand('importChaptersText', commandId, [], () => this.createStandaloneChapters(text, '', options, commandId));
+        });
     }
 
-    private resolveItems(ids: RequireAtLeastOne<Pick<Resolvable, 'mixingBowlId' | 'ingredientBowlId' | 'ingredientId' | 'ingredientIds' | 'chaptersIngredientId'>>) {
-        const resolved = {} as Pick<Resolvable, 'mixingBowl' | 'ingredientBowl' | 'ingredient' | 'ingredients' | 'chaptersIngredient'>;
+    // Generate standalone chapters from fixed intervals or scene, black frame or silence detection
+    // Silence is detected on the first audio ingredient of the bowl when given a video ingredient
+    public async generateChapters(ingredientId: number, options: ChaptersGeneratorOptions) {
+        return this.withContext(() => {
+            const { ingredient } = this.resolveItems({ ingredientId });
+            const commandId = this.newCommandId;
+            return this.recordCommand('generateChapters', commandId, [], () => this.generateStandaloneChapters(ingredient, options, commandId));
+        });
+    }
 
-        if (!Object.keys(ids).length) {
-            throw new Error('At least one of mixingBowlId, ingredientBowlId, ingredientId, ingredientIds, or chaptersIngredientId must be specified');
-        }
+    // Serialize chapters ordered by start time, writes them to filePath if supplied
+    public async exportChapters(chaptersIngredientId: number, format: ChaptersFormat, filePath?: string) {
+        return this.withContext(() => {
+            const { chaptersIngredient } = this.resolveItems({ chaptersIngredientId });
+            return this.exportChaptersIngredient(chaptersIngredient, format, filePath, this.newCommandId);
+        });
+    }
 
-        if (ids.mixingBowlId !== undefined) {
-            resolved.mixingBowl = this.getMixingBowl(ids.mixingBowlId);
-        }
-        if (ids.ingredientBowlId !== undefined) {
-            resolved.ingredientBowl = this.getIngredientBowl(ids.ingredientBowlId);
+    // Apply every chapter operation or none of them, resolves with the chapters ordered by start time
+    public async updateChapters(chaptersIngredientId: number, operations: ChaptersOperation[]) {
+        return this.withContext(() => {
+            const { chaptersIngredient } = this.resolveItems({ chaptersIngredientId });
+            const commandId = this.newCommandId;
+            return this.recordCommand('updateChapters', commandId, [this.chaptersSubject(chaptersIngredient)], () => this.updateChaptersIngredient(chaptersIngredient, operations, commandId));
+        });
+    }
+
+    // Create Mixing Bowls from the imported Ingredient Bowls, or only the given bowls, without mixing them
+    public async applyRecipe(recipe: Recipe, ingredientBowlIds?: number[]) {
+        return this.withContext(() => {
+            const ingredientBowls = ingredientBowlIds
+                ? ingredientBowlIds.map(bowlId => this.getIngredientBowl(bowlId))
+                : this.ingredientBowls;
+            const commandId = this.newCommandId;
+            // Converted and tagged streams are copied into the Ingredient Bowls
+            return this.recordCommand(
+                'applyRecipe',
+                commandId,
+                ingredientBowls.map(ingredientBowl => this.ingredientBowlSubject(ingredientBowl)),
+                () => this.applyMixingRecipe(recipe, ingredientBowls, commandId)
+            );
+        });
+    }
+
+    // Create one Mixing Bowl per ingredient of the Ingredient Bowl, without mixing them
+    public async demux(ingredientBowlId: number, options: DemuxOptions = {}) {
+        return this.withContext(() => {
+            const { ingredientBowl, ingredients } = this.resolveItems({ ingredientBowlId, ingredientIds: options.ingredientIds });
+            const commandId = this.newCommandId;
+            return this.recordCommand('demux', commandId, [], () => this.demuxIngredientBowl(ingredientBowl, ingredients, options, commandId));
+        });
+    }
+
+    // JSON serializable snapshot of the imported bowls, ingredient changes and mixing bowls
+    public async exportSession() {
+        return this.withContext(() => this.exportVideoSaladSession(this.newCommandId));
+    }
+
+    // Re-imports the session source files and reapplies changes, ids are reassigned
+    public async importSession(session: string | VideoSaladSession) {
+        return this.withContext(() => {
+            const commandId = this.newCommandId;
+            return this.recordCommand('importSession', commandId, [], () => this.importVideoSaladSession(session, commandId));
+        });
+    }
+
+    // Resolves with the undone history entry, undefined if there is nothing to undo
+    public async undo() {
+        return this.withContext(() => this.undoCommand(this.newCommandId));
+    }
+
+    // Resolves with the redone history entry, undefined if there is nothing to redo
+    public async redo() {
+        return this.withContext(() => this.redoCommand(this.newCommandId));
+    }
+
+    public async clearHistory() {
+        return this.withContext(() => this.clearCommandHistory(this.newCommandId));
+    }
+
+    /**
+     * Record every command run by the callback as one history entry, ex. a bulk edit undone with a single undo
+     * If the callback throws, its commands are undone and the error is rethrown
+     * Commands run by other callers while the transaction is open are recorded in it
+     */
+    public async transaction<T>(label: string, callback: () => Promise<T>) {
+        return this.withContext(() => this.runTransaction(label, callback, this.newCommandId));
+    }
+
+    //#endregion Public SDK API
+
+    //#region Utilities
+
+    private get newCommandId() {
+        return this.nextCommandId++;
+    }
+
+    // Run a command with the logger and ffmpeg binaries of this instance
+    private withContext<T>(command: () => T) {
+        return NutritionLogger.Run(this.nutritionLogger, () => RunInFfmpegEnvironment(this.environment, command));
+    }
+
+    // Output with the default container extension if it has none
+    private withDefaultContainer(output: string) {
+        return this.defaultContainer && !path.extname(output) ? `${output}.${this.defaultContainer}` : output;
+    }
+
+    // Emitted once every capability has been loaded
+    private emitCapabilitiesLoaded(commandId: number) {
+        const capabilities = this.capabilities;
+        if (capabilities?.formats && capabilities.codecs && capabilities.encoders && capabilities.filters) {
+            this.emit('capabilitiesLoaded', { commandId, capabilities });
+        }
+    }
+
+    // Mixing statuses reported by the mixing queue, queued and settled mixes are emitted by mixMixingBowl
+    private emitMixStatus(mixingBowl: MixingBowl, status: MixingBowlStatus) {
+        const commandId = this.mixCommandIds.get(mixingBowl.id);
+        if (commandId === undefined || status.state !== 'mixing') {
+            return;
+        }
+
+        const previousStatus = mixingBowl.statusHistory[mixingBowl.statusHistory.indexOf(status) - 1];
+        if (previousStatus?.state === 'queued') {
+            this.emit('mixStarted', { commandId, mixingBowl, status });
+        }
+        if (status.progress && status.mixProgress) {
+            this.emit('mixProgress', { commandId, mixingBowl, status, progress: status.mixProgress });
+        }
+    }
+
+    /**
+     * Record the changes of the command to the subjects in the history
+     * Bowls and standalone chapters registered while the command runs are recorded as created by it
+     */
+    private async recordCommand<T>(label: string, commandId: number, subjects: HistorySubject[], command: () => Promise<T>) {
+        const registeredTargets = new Set(this.registeredSubjects.map(({ target }) => `${target.type}:${target.id}`));
+        return this.journal.record(
+            label,
+            commandId,
+            subjects,
+            command,
+            () => this.registeredSubjects.filter(({ target }) => !registeredTargets.has(`${target.type}:${target.id}`))
+        );
+    }
+
+    private get registeredSubjects() {
+        return [
+            ...Object.values(this.ingredientBowlMap).map(({ bowl }) => this.ingredientBowlSubject(bowl)),
+            ...Object.values(this.mixingBowlMap).map(({ bowl }) => this.mixingBowlSubject(bowl)),
+            ...Object.values(this.standaloneChaptersMap).map(chaptersIngredient => this.chaptersSubject(chaptersIngredient))
+        ];
+    }
+
+    // Snapshots of a bowl also cover whether it is registered and removed
+    private bowlSubject<T extends MixingBowl | IngredientBowl>(registry: { [bowlId: number]: { removed: boolean; bowl: T } }, type: VideoSaladType, bowl: T): HistoryCreation {
+        return {
+            target: { type, id: bowl.id },
+            snapshot: () => {
+                const restoreBowl = bowl.snapshot();
+                const removed = registry[bowl.id]?.removed;
+                return () => {
+                    restoreBowl();
+                    if (removed === undefined) {
+                        delete registry[bowl.id];
+                    } else {
+                        registry[bowl.id] = { removed, bowl };
+                    }
+                };
+            },
+            discard: () => {
+                delete registry[bowl.id];
+            }
+        };
+    }
+
+    private mixingBowlSubject(mixingBowl: MixingBowl) {
+        return this.bowlSubject(this.mixingBowlMap, VideoSaladType.MixingBowl, mixingBowl);
+    }
+
+    private ingredientBowlSubject(ingredientBowl: IngredientBowl) {
+        return this.bowlSubject(this.ingredientBowlMap, VideoSaladType.IngredientBowl, ingredientBowl);
+    }
+
+    // Mixing Bowls holding any of the ingredients
+    private mixingBowlSubjectsUsing(ingredients: StreamIngredient[]) {
+        return Object.values(this.mixingBowlMap)
+            .filter(({ bowl }) => bowl.ingredients.some(ingredient => ingredients.includes(ingredient)))
+            .map(({ bowl }) => this.mixingBowlSubject(bowl));
+    }
+
+    private ingredientSubject(ingredient: StreamIngredient): HistorySubject {
+        return {
+            target: { type: VideoSaladType.StreamIngredient, id: ingredient.id },
+            snapshot: () => ingredient.snapshot()
+        };
+    }
+
+    // Snapshots also cover whether the chapters are registered as standalone chapters
+    private chaptersSubject(chaptersIngredient: ChaptersIngredient): HistoryCreation {
+        const { id } = chaptersIngredient;
+        return {
+            target: { type: VideoSaladType.ChaptersIngredient, id },
+            snapshot: () => {
+                const restoreChapters = chaptersIngredient.snapshot();
+                const registered = this.standaloneChaptersMap[id] === chaptersIngredient;
+                return () => {
+                    restoreChapters();
+                    if (registered) {
+                        this.standaloneChaptersMap[id] = chaptersIngredient;
+                    } else if (this.standaloneChaptersMap[id] === chaptersIngredient) {
+                        delete this.standaloneChaptersMap[id];
+                    }
+                };
+            },
+            discard: () => {
+                delete this.standaloneChaptersMap[id];
+            }
+        };
+    }
+
+    private resolveItems(ids: RequireAtLeastOne<Pick<Resolvable, 'mixingBowlId' | 'ingredientBowlId' | 'ingredientId' | 'ingredientIds' | 'chaptersIngredientId'>>) {
+        const resolved = {} as Pick<Resolvable, 'mixingBowl' | 'ingredientBowl' | 'ingredient' | 'ingredients' | 'chaptersIngredient'>;
+
+        if (!Object.keys(ids).length) {
+            throw new Error('At least one of mixingBowlId, ingredientBowlId, ingredientId, ingredientIds, or chaptersIngredientId must be specified');
+        }
+
+        if (ids.mixingBowlId !== undefined) {
+            resolved.mixingBowl = this.getMixingBowl(ids.mixingBowlId);
+        }
+        if (ids.ingredientBowlId !== undefined) {
+            resolved.ingredientBowl = this.getIngredientBowl(ids.ingredientBowlId);
         }
         if (ids.ingredientId !== undefined) {
             resolved.ingredient = this.getIngredient(ids.ingredientId);
@@ -451,7 +1125,7 @@ export class VideoSalad {
 
     //#region Implementations
 
-    private async importIngredientBowls(filePaths: string[], commandId: number) {
+    private async importIngredientBowls(sources: IngredientBowlSource[], options: IngredientBowlSourceOptions, commandId: number) {
         const baseMeta: BaseMeta = {
             location: 'VideoSalad',
             functionName: 'importIngredientBowls',
@@ -466,7 +1140,7 @@ export class VideoSalad {
             }
         );
 
-        const initResults = await Promise.allSettled(filePaths.map(IngredientBowl.Initialize));
+        const initResults = await Promise.allSettled(sources.map(source => IngredientBowl.InitializeSource(source, options)));
 
         if (initResults.some(result => result.status === 'rejected')) {
             const initErrors = initResults
@@ -474,12 +1148,17 @@ export class VideoSalad {
                 .map(result => result.reason);
             const videoSaladError = new VideoSaladImportBowlError(initErrors);
 
+            // The sources imported alongside the failed ones are dropped, so are their cached files
+            await Promise.all(initResults
+                .filter((result): result is PromiseFulfilledResult<IngredientBowl> => result.status === 'fulfilled')
+                .map(({ value }) => ReleaseCachedSource(value.path)));
+
             NutritionLogger.Error(
                 'Import Ingredient Bowls',
                 {
                     ...baseMeta,
                     commandId,
-                    filePaths,
+                    sources: sources.map(GetSourceName),
                     error: videoSaladError
                 }
             );
@@ -495,6 +1174,7 @@ export class VideoSalad {
                 removed: false,
                 bowl: bowl
             };
+            this.emit('ingredientBowlImported', { commandId, ingredientBowl: bowl });
         });
 
         return ingredientBowls;
@@ -540,8 +1220,13 @@ export class VideoSalad {
             const { bowl } = this.mixingBowlMap[Number(bowlId)];
             ingredients.forEach(ingredient => {
                 bowl.removeIngredient(ingredient);
+                this.emit('ingredientRemoved', { commandId, ingredient, mixingBowl: bowl });
             });
         });
+
+        // Kept registered so undo can restore it, its cached source is deleted by releaseCachedSources
+        this.ingredientBowlMap[ingredientBowl.id].removed = true;
+        this.emit('ingredientBowlRemoved', { commandId, ingredientBowl });
     }
 
     private async createMixingBowls(filePaths: string[], commandId: number) {
@@ -555,18 +1240,19 @@ export class VideoSalad {
             }
         );
 
-        const bowls = filePaths.map(filePath => new MixingBowl(filePath));
+        const bowls = filePaths.map(filePath => new MixingBowl(this.withDefaultContainer(filePath)));
         bowls.forEach(bowl => {
             this.mixingBowlMap[bowl.id] = {
                 removed: false,
                 bowl
             };
+            this.emit('mixingBowlCreated', { commandId, mixingBowl: bowl });
         });
 
         return bowls;
     }
 
-    private async updateMixingBowl(mixingBowl: MixingBowl, updates: Partial<Pick<MixingBowl, 'output' | 'tags' | 'ingredients' | 'chapters'>>, commandId: number) {
+    private async updateMixingBowl(mixingBowl: MixingBowl, updates: Partial<Pick<MixingBowl, 'output' | 'tags' | 'ingredients' | 'chapters'>> & { trim?: MixingBowlTrim | null, concat?: IngredientBowl[] | null, outputStream?: MixingBowlStreamOutput | null }, commandId: number) {
         NutritionLogger.Debug(
             'Update Mixing Bowl',
             {
@@ -579,17 +1265,34 @@ export class VideoSalad {
                     ...(updates.output ? { output: updates.output } : {}),
                     ...(updates.tags ? { tags: updates.tags } : {}),
                     ...(updates.chapters ? { chapters: updates.chapters.id } : {}),
+                    ...(updates.trim !== undefined ? { trim: updates.trim } : {}),
+                    ...(updates.concat !== undefined ? { concat: updates.concat?.map(part => part.id) ?? null } : {}),
+                    ...(updates.outputStream !== undefined ? { outputStreamFormat: updates.outputStream?.format ?? null } : {}),
                     ...(updates.ingredients ? { ingredients: updates.ingredients.map(ingredient => ingredient.id) } : {})
                 }
             }
         );
 
+        // Invalid trim ranges throw a RangeError before any update is applied
+        if (updates.trim) {
+            NormalizeTrimRanges(updates.trim.ranges);
+        }
+
         if (updates.output) {
             this.updateMixingBowlOutput(mixingBowl, updates.output, commandId);
         }
+        if (updates.outputStream !== undefined) {
+            this.updateMixingBowlOutputStream(mixingBowl, updates.outputStream ?? undefined, commandId);
+        }
         if (updates.tags) {
             this.updateMixingBowlTags(mixingBowl, updates.tags, commandId);
         }
+        if (updates.trim !== undefined) {
+            this.updateMixingBowlTrim(mixingBowl, updates.trim ?? undefined, commandId);
+        }
+        if (updates.concat !== undefined) {
+            this.updateMixingBowlConcat(mixingBowl, updates.concat ?? undefined, !updates.chapters, commandId);
+        }
         if (updates.ingredients) {
             // Remove ingredients that are missing from updates.ingredients
             mixingBowl.ingredients
@@ -608,6 +1311,8 @@ export class VideoSalad {
             this.updateMixingBowlChapters(mixingBowl, updates.chapters, commandId);
         }
 
+        this.emit('mixingBowlUpdated', { commandId, mixingBowl });
+
         return mixingBowl;
     }
 
@@ -626,11 +1331,14 @@ export class VideoSalad {
         const bowl = this.getAnyMixingBowl(bowlId);
 
         // Cancel mixing before removing bowl
-        if (bowl.bowl.status.state === 'mixing' || bowl.bowl.status.state === 'paused') {
+        if (this.mixingQueue.has(bowl.bowl)) {
+            this.mixingQueue.cancel(bowl.bowl);
+        } else if (bowl.bowl.status.state === 'mixing' || bowl.bowl.status.state === 'paused') {
             bowl.bowl.cancelMixing();
         }
 
         bowl.removed = true;
+        this.emit('mixingBowlRemoved', { commandId, mixingBowl: bowl.bowl });
     }
 
     private async addIngredient(mixingBowl: MixingBowl, ingredient: StreamIngredient, commandId: number) {
@@ -647,6 +1355,7 @@ export class VideoSalad {
         );
 
         mixingBowl.addIngredient(ingredient);
+        this.emit('ingredientAdded', { commandId, ingredient, mixingBowl });
     }
 
     private async removeIngredient(mixingBowl: MixingBowl, ingredient: StreamIngredient, commandId: number) {
@@ -663,6 +1372,80 @@ export class VideoSalad {
         );
 
         mixingBowl.removeIngredient(ingredient);
+        this.emit('ingredientRemoved', { commandId, ingredient, mixingBowl });
+    }
+
+    private async mixMixingBowl(mixingBowl: MixingBowl, priority: number, commandId: number) {
+        NutritionLogger.Debug(
+            'Mix Mixing Bowl',
+            {
+                location: 'VideoSalad',
+                functionName: 'mixMixingBowl',
+                operation: 'Mix Mixing Bowl',
+                commandId,
+                bowlId: mixingBowl.id,
+                priority
+            }
+        );
+
+        // Throws if the bowl is already queued or mixing
+        const mix = this.mixingQueue.enqueue(mixingBowl, priority);
+        this.mixCommandIds.set(mixingBowl.id, commandId);
+        this.emit('mixQueued', { commandId, mixingBowl, status: mixingBowl.status });
+
+        mix.then(
+            report => this.emit('mixFinished', { commandId, mixingBowl, report }),
+            (error) => {
+                if (error instanceof BowlMixCanceledError) {
+                    this.emit('mixCancelled', { commandId, mixingBowl });
+                } else {
+                    this.emit('mixFailed', { commandId, mixingBowl, error });
+                }
+            }
+        ).finally(() => {
+            // A later mix of the bowl may have replaced the command
+            if (this.mixCommandIds.get(mixingBowl.id) === commandId) {
+                this.mixCommandIds.delete(mixingBowl.id);
+            }
+        });
+
+        return mix;
+    }
+
+    private async planMixingBowl(mixingBowl: MixingBowl, commandId: number) {
+        NutritionLogger.Debug(
+            'Plan Mixing Bowl',
+            {
+                location: 'VideoSalad',
+                functionName: 'planMixingBowl',
+                operation: 'Plan Mixing Bowl',
+                commandId,
+                bowlId: mixingBowl.id
+            }
+        );
+
+        return mixingBowl.plan();
+    }
+
+    private async cancelMixingBowl(mixingBowl: MixingBowl, commandId: number) {
+        NutritionLogger.Debug(
+            'Cancel Mixing Bowl',
+            {
+                location: 'VideoSalad',
+                functionName: 'cancelMixingBowl',
+                operation: 'Cancel Mixing Bowl',
+                commandId,
+                bowlId: mixingBowl.id
+            }
+        );
+
+        if (this.mixingQueue.has(mixingBowl)) {
+            this.mixingQueue.cancel(mixingBowl);
+        } else {
+            mixingBowl.cancelMixing();
+        }
+
+        return mixingBowl;
     }
 
     private async updateMixingBowlOutput(mixingBowl: MixingBowl, output: string, commandId: number) {
@@ -678,7 +1461,7 @@ export class VideoSalad {
             }
         );
 
-        mixingBowl.output = output;
+        mixingBowl.output = this.withDefaultContainer(output);
 
         return mixingBowl;
     }
@@ -701,6 +1484,71 @@ export class VideoSalad {
         return mixingBowl;
     }
 
+    private updateMixingBowlOutputStream(mixingBowl: MixingBowl, outputStream: MixingBowlStreamOutput | undefined, commandId: number) {
+        NutritionLogger.Debug(
+            'Update Mixing Bowl Output Stream',
+            {
+                location: 'VideoSalad',
+                functionName: 'updateMixingBowlOutputStream',
+                operation: 'Update Mixing Bowl Output Stream',
+                commandId,
+                bowlId: mixingBowl.id,
+                format: outputStream?.format
+            }
+        );
+
+        // Throws a RangeError if the format is unknown
+        mixingBowl.outputStream = outputStream;
+
+        return mixingBowl;
+    }
+
+    private updateMixingBowlTrim(mixingBowl: MixingBowl, trim: MixingBowlTrim | undefined, commandId: number) {
+        NutritionLogger.Debug(
+            'Update Mixing Bowl Trim',
+            {
+                location: 'VideoSalad',
+                functionName: 'updateMixingBowlTrim',
+                operation: 'Update Mixing Bowl Trim',
+                commandId,
+                bowlId: mixingBowl.id,
+                trim
+            }
+        );
+
+        // Throws a RangeError if a range is invalid
+        mixingBowl.trim = trim;
+
+        return mixingBowl;
+    }
+
+    // The chapters of the parts are merged into standalone chapters unless other chapters are set in the same update
+    private updateMixingBowlConcat(mixingBowl: MixingBowl, parts: IngredientBowl[] | undefined, mergeChapters: boolean, commandId: number) {
+        NutritionLogger.Debug(
+            'Update Mixing Bowl Concat',
+            {
+                location: 'VideoSalad',
+                functionName: 'updateMixingBowlConcat',
+                operation: 'Update Mixing Bowl Concat',
+                commandId,
+                bowlId: mixingBowl.id,
+                ingredientBowlIds: parts?.map(part => part.id)
+            }
+        );
+
+        // Throws a RangeError if there are less than two parts
+        mixingBowl.concat = parts;
+
+        if (parts && mergeChapters) {
+            const chaptersIngredient = ChaptersIngredient.FromChapters(mixingBowl.output, MergeConcatChapters(parts));
+            this.standaloneChaptersMap[chaptersIngredient.id] = chaptersIngredient;
+            mixingBowl.chapters = chaptersIngredient;
+            this.emit('chaptersChanged', { commandId, chaptersIngredient, mixingBowl });
+        }
+
+        return mixingBowl;
+    }
+
     private async updateMixingBowlChapters(mixingBowl: MixingBowl, chapters: ChaptersIngredient, commandId: number) {
         NutritionLogger.Debug(
             'Update Mixing Bowl Chapters',
@@ -715,6 +1563,7 @@ export class VideoSalad {
         );
 
         mixingBowl.chapters = chapters;
+        this.emit('chaptersChanged', { commandId, chaptersIngredient: chapters, mixingBowl });
 
         return mixingBowl;
     }
@@ -738,6 +1587,7 @@ export class VideoSalad {
         if (updates.dispositions) {
             ingredient.dispositions = updates.dispositions;
         }
+        this.emit('ingredientUpdated', { commandId, ingredient });
 
         return ingredient;
     }
@@ -778,9 +1628,1015 @@ export class VideoSalad {
 
         const copiedIngredient = ingredient.copy();
         ingredientBowl.addCopiedIngredient(copiedIngredient);
+        this.emit('ingredientCopied', { commandId, ingredient, copiedIngredient });
 
         return copiedIngredient;
     }
 
+    private async detectIngredientAudioSync(reference: StreamIngredient, candidate: StreamIngredient, options: AudioSyncOptions, commandId: number) {
+        const baseMeta: BaseMeta = {
+            location: 'VideoSalad',
+            functionName: 'detectIngredientAudioSync',
+            operation: 'Detect Audio Sync'
+        };
+        NutritionLogger.Debug(
+            'Detect Audio Sync',
+            {
+                ...baseMeta,
+                commandId,
+                referenceIngredientId: reference.id,
+                candidateIngredientId: candidate.id,
+                options
+            }
+        );
+
+        try {
+            const result = await DetectAudioSync(reference, candidate, options);
+            if (result.applied) {
+                this.emit('ingredientUpdated', { commandId, ingredient: candidate });
+            }
+            if (options.apply && !result.applied) {
+                NutritionLogger.Warn(
+                    'Audio sync confidence too low, delay not applied',
+                    {
+                        ...baseMeta,
+                        commandId,
+                        result
+                    }
+                );
+            }
+
+            return result;
+        } catch (error) {
+            NutritionLogger.Error(
+                'Audio sync detection failed',
+                {
+                    ...baseMeta,
+                    commandId,
+                    referenceIngredientId: reference.id,
+                    candidateIngredientId: candidate.id,
+                    error: error as Error
+                }
+            );
+
+            throw error;
+        }
+    }
+
+    private async importChaptersFile(filePath: string, options: ChaptersImportOptions, commandId: number) {
+        NutritionLogger.Debug(
+            'Import Chapters File',
+            {
+                location: 'VideoSalad',
+                functionName: 'importChaptersFile',
+                operation: 'Import Chapters File',
+                commandId,
+                options
+            }
+        );
+
+        let text: string;
+        try {
+            text = await fs.promises.readFile(filePath, 'utf8');
+        } catch (accessError) {
+            const error = new ChaptersAccessError(filePath, accessError);
+            NutritionLogger.Error(
+                'No access to chapters file',
+                {
+                    location: 'VideoSalad',
+                    functionName: 'importChaptersFile',
+                    operation: 'Import Chapters File',
+                    commandId,
+                    path: filePath,
+                    error
+                }
+            );
+
+            throw error;
+        }
+
+        return this.createStandaloneChapters(text, filePath, options, commandId);
+    }
+
+    private async createStandaloneChapters(text: string, filePath: string, options: ChaptersImportOptions, commandId: number): Promise<ChaptersImportResult> {
+        const baseMeta: BaseMeta = {
+            location: 'VideoSalad',
+            functionName: 'createStandaloneChapters',
+            operation: 'Create Standalone Chapters'
+        };
+
+        // Strip the byte order mark written by some editors
+        const content = text.replace(/^\uFEFF/, '');
+        const format = options.format ?? DetectChaptersFormat(content, filePath);
+        NutritionLogger.Debug(
+            'Create Standalone Chapters',
+            {
+                ...baseMeta,
+                commandId,
+                format
+            }
+        );
+
+        let parsedChapters: ParsedChapters;
+        try {
+            parsedChapters = ParseChapters(content, format, options);
+        } catch (error) {
+            NutritionLogger.Error(
+                'Invalid chapters',
+                {
+                    ...baseMeta,
+                    commandId,
+                    subOperations: ['Parse chapters'],
+                    format,
+                    error: error as Error
+                }
+            );
+
+            throw error;
+        }
+
+        if (parsedChapters.warnings.length) {
+            NutritionLogger.Warn(
+                'Chapters imported with warnings',
+                {
+                    ...baseMeta,
+                    commandId,
+                    format,
+                    warnings: parsedChapters.warnings
+                }
+            );
+        }
+
+        const chaptersIngredient = ChaptersIngredient.FromChapters(filePath, parsedChapters.chapters);
+        this.standaloneChaptersMap[chaptersIngredient.id] = chaptersIngredient;
+
+        return {
+            chaptersIngredient,
+            warnings: parsedChapters.warnings
+        };
+    }
+
+    private async generateStandaloneChapters(ingredient: StreamIngredient, options: ChaptersGeneratorOptions, commandId: number) {
+        const baseMeta: BaseMeta = {
+            location: 'VideoSalad',
+            functionName: 'generateStandaloneChapters',
+            operation: 'Generate Standalone Chapters'
+        };
+        NutritionLogger.Debug(
+            'Generate Standalone Chapters',
+            {
+                ...baseMeta,
+                commandId,
+                ingredientId: ingredient.id,
+                options
+            }
+        );
+
+        const ingredientBowl = this.ingredientBowls.find(bowl => bowl.path === ingredient.filePath);
+        const bowlDuration = Number(ingredientBowl?.ffProbeData.format.duration);
+        const duration = Number.isFinite(bowlDuration) ? bowlDuration : ingredient.duration;
+
+        // Analyze the matching stream of the same file, ex. the audio of a video for silence detection
+        let detectionIngredient = ingredient;
+        if (options.method !== 'interval' && ingredient.type !== CHAPTERS_DETECTION_STREAM_TYPES[options.method]) {
+            const detectionType = CHAPTERS_DETECTION_STREAM_TYPES[options.method];
+            detectionIngredient = ingredientBowl?.ingredients.find(bowlIngredient => bowlIngredient.isOriginal && bowlIngredient.type === detectionType) ?? ingredient;
+        }
+
+        try {
+            const chaptersIngredient = await GenerateChapters(detectionIngredient, duration, options);
+            this.standaloneChaptersMap[chaptersIngredient.id] = chaptersIngredient;
+
+            return chaptersIngredient;
+        } catch (error) {
+            NutritionLogger.Error(
+                'Chapters generation failed',
+                {
+                    ...baseMeta,
+                    commandId,
+                    ingredientId: detectionIngredient.id,
+                    method: options.method,
+                    error: error as Error
+                }
+            );
+
+            throw error;
+        }
+    }
+
+    private async exportChaptersIngredient(chaptersIngredient: ChaptersIngredient, format: ChaptersFormat, filePath: string | undefined, commandId: number) {
+        NutritionLogger.Debug(
+            'Export Chapters Ingredient',
+            {
+                location: 'VideoSalad',
+                functionName: 'exportChaptersIngredient',
+                operation: 'Export Chapters Ingredient',
+                commandId,
+                chaptersIngredientId: chaptersIngredient.id,
+                format
+            }
+        );
+
+        const text = SerializeChapters(chaptersIngredient.sortedChapters.map(chapter => chapter.toChapter()), format);
+
+        if (filePath) {
+            try {
+                await fs.promises.writeFile(filePath, text, 'utf8');
+            } catch (accessError) {
+                const error = new ChaptersAccessError(filePath, accessError);
+                NutritionLogger.Error(
+                    'No access to chapters file',
+                    {
+                        location: 'VideoSalad',
+                        functionName: 'exportChaptersIngredient',
+                        operation: 'Export Chapters Ingredient',
+                        commandId,
+                        path: filePath,
+                        error
+                    }
+                );
+
+                throw error;
+            }
+        }
+
+        return text;
+    }
+
+    private async updateChaptersIngredient(chaptersIngredient: ChaptersIngredient, operations: ChaptersOperation[], commandId: number) {
+        NutritionLogger.Debug(
+            'Update Chapters Ingredient',
+            {
+                location: 'VideoSalad',
+                functionName: 'updateChaptersIngredient',
+                operation: 'Update Chapters Ingredient',
+                commandId,
+                chaptersIngredientId: chaptersIngredient.id,
+                operations
+            }
+        );
+
+        // Chapters cannot end after the media containing them
+        const ingredientBowl = this.ingredientBowls.find(bowl => bowl.chapters?.id === chaptersIngredient.id);
+        const duration = ingredientBowl ? Number(ingredientBowl.ffProbeData.format.duration) : undefined;
+
+        const result = chaptersIngredient.edit(operations, duration);
+        this.emit('chaptersChanged', { commandId, chaptersIngredient });
+
+        return result;
+    }
+
+    private async applyMixingRecipe(recipe: Recipe, ingredientBowls: IngredientBowl[], commandId: number) {
+        const baseMeta: BaseMeta = {
+            location: 'VideoSalad',
+            functionName: 'applyMixingRecipe',
+            operation: 'Apply Recipe'
+        };
+        NutritionLogger.Debug(
+            'Apply Recipe',
+            {
+                ...baseMeta,
+                commandId,
+                ingredientBowlIds: ingredientBowls.map(ingredientBowl => ingredientBowl.id)
+            }
+        );
+
+        const ajv = new Ajv();
+        const validate = ajv.compile<Recipe>(recipeSchema);
+        if (!validate(recipe)) {
+            const error = new VideoSaladInvalidRecipeError(validate.errors ?? []);
+            NutritionLogger.Error(
+                'Invalid recipe',
+                {
+                    ...baseMeta,
+                    commandId,
+                    subOperations: ['Validate recipe'],
+                    error
+                }
+            );
+
+            throw error;
+        }
+
+        const result: RecipeResult = {
+            mixingBowls: [],
+            copiedIngredients: [],
+            issues: []
+        };
+
+        const groups = GroupIngredientBowls(ingredientBowls, recipe.groupBy);
+        for (const [index, group] of groups.entries()) {
+            const groupVariables = GetRecipeGroupVariables(group, index);
+            // Copies from earlier recipes are ignored
+            const originalIngredients = group.ingredientBowls
+                .flatMap(ingredientBowl => ingredientBowl.ingredients)
+                .filter(ingredient => ingredient.isOriginal);
+            const ingredients = FilterRecipeIngredients(recipe, originalIngredients);
+
+            if (!ingredients.length) {
+                result.issues.push({
+                    code: 'noIngredients',
+                    message: `No ingredients matched the recipe for ${group.stem}`,
+                    stem: group.stem
+                });
+                continue;
+            }
+
+            const [mixingBowl] = await this.createMixingBowls([RenderTemplate(recipe.output, groupVariables)], commandId);
+
+            if (recipe.tags) {
+                const tags = Object.fromEntries(Object.entries(recipe.tags).map(([name, template]) => [name, RenderTemplate(template, groupVariables)]));
+                await this.updateMixingBowlTags(mixingBowl, tags, commandId);
+            }
+
+            for (const ingredient of ingredients) {
+                const conversion = recipe.conversions?.find(({ filter }) => MatchStreamFilter(ingredient, filter));
+                const streamTags = recipe.streamTags?.filter(({ filter }) => !filter || MatchStreamFilter(ingredient, filter)) ?? [];
+
+                // Convert and tag copies to leave the original ingredients untouched
+                let recipeIngredient = ingredient;
+                if (conversion || streamTags.length) {
+                    recipeIngredient = await this.copyIngredientBowlIngredient(ingredient, commandId);
+                    result.copiedIngredients.push(recipeIngredient);
+                }
+
+                if (conversion) {
+                    try {
+                        recipeIngredient.convert(conversion.options);
+                    } catch (error) {
+                        // Keep the stream copied without conversion for review
+                        result.issues.push({
+                            code: 'conversionFailed',
+                            message: `Ingredient ${ingredient.id} could not be converted to ${conversion.options.codec}`,
+                            stem: group.stem,
+                            ingredientId: ingredient.id,
+                            error
+                        });
+                    }
+                }
+
+                if (streamTags.length) {
+                    const streamVariables = GetRecipeStreamVariables(groupVariables, recipeIngredient);
+                    streamTags.forEach(({ tags }) => {
+                        Object.entries(tags).forEach(([name, template]) => {
+                            recipeIngredient.setTag(name, RenderTemplate(template, streamVariables));
+                        });
+                    });
+                }
+
+                await this.addIngredient(mixingBowl, recipeIngredient, commandId);
+            }
+
+            if (recipe.chapters ?? true) {
+                const chapters = group.ingredientBowls.find(ingredientBowl => ingredientBowl.chapters?.chapters.length)?.chapters;
+                if (chapters) {
+                    await this.updateMixingBowlChapters(mixingBowl, chapters, commandId);
+                }
+            }
+
+            result.mixingBowls.push(mixingBowl);
+        }
+
+        if (result.issues.length) {
+            NutritionLogger.Warn(
+                'Recipe applied with issues',
+                {
+                    ...baseMeta,
+                    commandId,
+                    issues: result.issues
+                }
+            );
+        }
+
+        return result;
+    }
+
+    private async demuxIngredientBowl(ingredientBowl: IngredientBowl, ingredients: StreamIngredient[] | undefined, options: DemuxOptions, commandId: number) {
+        const baseMeta: BaseMeta = {
+            location: 'VideoSalad',
+            functionName: 'demuxIngredientBowl',
+            operation: 'Demux Ingredient Bowl'
+        };
+        NutritionLogger.Debug(
+            'Demux Ingredient Bowl',
+            {
+                ...baseMeta,
+                commandId,
+                ingredientBowlId: ingredientBowl.id,
+                options
+            }
+        );
+
+        const demuxedIngredients = ingredients ?? ingredientBowl.ingredients
+            .filter(ingredient => ingredient.isOriginal && DEFAULT_DEMUX_TYPES.includes(ingredient.type));
+
+        // Only ingredients of the Ingredient Bowl can be demuxed
+        const foreignIngredient = demuxedIngredients.find(ingredient => !ingredientBowl.ingredients.includes(ingredient));
+        if (foreignIngredient) {
+            const error = new VideoSaladNotFoundError(VideoSaladType.StreamIngredient, foreignIngredient.id);
+            NutritionLogger.Error(
+                'Ingredient not found in Ingredient Bowl',
+                {
+                    ...baseMeta,
+                    commandId,
+                    ingredientBowlId: ingredientBowl.id,
+                    ingredientId: foreignIngredient.id,
+                    error
+                }
+            );
+
+            throw error;
+        }
+
+        const outputs = demuxedIngredients.map((ingredient) => {
+            const format = GetDemuxFormat(ingredient, options.elementaryStreams);
+            const output = RenderTemplate(options.output ?? DEFAULT_DEMUX_OUTPUT, GetDemuxVariables(ingredientBowl, ingredient, format));
+            return { ingredient, format, output };
+        });
+
+        const duplicateOutputs = [...new Set(outputs
+            .map(({ output }) => output)
+            .filter((output, index, allOutputs) => allOutputs.indexOf(output) !== index))];
+        if (duplicateOutputs.length) {
+            const error = new VideoSaladDemuxOutputConflictError(duplicateOutputs);
+            NutritionLogger.Error(
+                'Duplicate demux outputs',
+                {
+                    ...baseMeta,
+                    commandId,
+                    ingredientBowlId: ingredientBowl.id,
+                    error
+                }
+            );
+
+            throw error;
+        }
+
+        const attachments = ingredientBowl.attachmentIngredients.filter(attachment => attachment.isOriginal);
+        const chapters = ingredientBowl.chapters?.chapters.length ? ingredientBowl.chapters : undefined;
+        const mixingBowls = await this.createMixingBowls(outputs.map(({ output }) => output), commandId);
+
+        for (const [index, { ingredient, format }] of outputs.entries()) {
+            const mixingBowl = mixingBowls[index];
+            await this.addIngredient(mixingBowl, ingredient, commandId);
+
+            if (ingredient.type !== StreamIngredientType.attachment && DemuxOutputReceives(format, ingredient, options.attachments ?? StreamIngredientType.subtitle)) {
+                for (const attachment of attachments) {
+                    await this.addIngredient(mixingBowl, attachment, commandId);
+                }
+            }
+            if (chapters && DemuxOutputReceives(format, ingredient, options.chapters ?? StreamIngredientType.video)) {
+                await this.updateMixingBowlChapters(mixingBowl, chapters, commandId);
+            }
+        }
+
+        return mixingBowls;
+    }
+
+    private async exportVideoSaladSession(commandId: number): Promise<VideoSaladSession> {
+        const baseMeta: BaseMeta = {
+            location: 'VideoSalad',
+            functionName: 'exportVideoSaladSession',
+            operation: 'Export Session'
+        };
+        NutritionLogger.Debug(
+            'Export Session',
+            {
+                ...baseMeta,
+                commandId
+            }
+        );
+
+        const ingredientBowls = await Promise.all(this.ingredientBowls.map(async (ingredientBowl) => {
+            const bowlSession: IngredientBowlSession = {
+                id: ingredientBowl.id,
+                path: ingredientBowl.path,
+                ingredients: ingredientBowl.ingredients.map(ingredient => ingredient.exportState())
+            };
+
+            // Stat the file to detect changes when importing
+            try {
+                const fileStat = await fs.promises.stat(ingredientBowl.path);
+                bowlSession.file = {
+                    size: fileStat.size,
+                    modified: fileStat.mtimeMs
+                };
+            } catch (error) {
+                // Non-critical error, the session can still be exported
+                NutritionLogger.Warn(
+                    'Source file not found',
+                    {
+                        ...baseMeta,
+                        commandId,
+                        subOperations: ['Stat source file'],
+                        ingredientBowlId: ingredientBowl.id,
+                        error
+                    }
+                );
+            }
+
+            if (ingredientBowl.chapters) {
+                bowlSession.chapters = ingredientBowl.chapters.exportState();
+            }
+
+            return bowlSession;
+        }));
+
+        const mixingBowls = this.mixingBowls.map((mixingBowl) => {
+            const bowlSession: MixingBowlSession = {
+                id: mixingBowl.id,
+                output: mixingBowl.output,
+                tags: { ...mixingBowl.tags },
+                ingredientIds: mixingBowl.ingredients.map(ingredient => ingredient.id)
+            };
+            if (mixingBowl.chapters) {
+                bowlSession.chaptersIngredientId = mixingBowl.chapters.id;
+            }
+            if (mixingBowl.concat) {
+                bowlSession.concatIngredientBowlIds = mixingBowl.concat.map(part => part.id);
+            }
+            if (mixingBowl.trim) {
+                bowlSession.trim = {
+                    ranges: mixingBowl.trim.ranges.map(range => ({ ...range })),
+                    mode: mixingBowl.trim.mode
+                };
+            }
+            return bowlSession;
+        });
+
+        const chapters = this.standaloneChapters.map(chaptersIngredient => ({
+            id: chaptersIngredient.id,
+            filePath: chaptersIngredient.filePath,
+            chapters: chaptersIngredient.sortedChapters.map(chapter => chapter.toChapter())
+        }));
+
+        return {
+            version: SESSION_VERSION,
+            exportedAt: new Date().toISOString(),
+            ingredientBowls,
+            chapters,
+            mixingBowls
+        };
+    }
+
+    private async importVideoSaladSession(session: string | VideoSaladSession, commandId: number) {
+        const baseMeta: BaseMeta = {
+            location: 'VideoSalad',
+            functionName: 'importVideoSaladSession',
+            operation: 'Import Session'
+        };
+        NutritionLogger.Debug(
+            'Import Session',
+            {
+                ...baseMeta,
+                commandId
+            }
+        );
+
+        let parsedSession: unknown = session;
+        if (typeof session === 'string') {
+            try {
+                parsedSession = JSON.parse(session);
+            } catch (parseError) {
+                const error = new VideoSaladInvalidSessionError([], parseError);
+                NutritionLogger.Error(
+                    'Invalid session',
+                    {
+                        ...baseMeta,
+                        commandId,
+                        subOperations: ['Parse session'],
+                        error
+                    }
+                );
+
+                throw error;
+            }
+        }
+
+        // Check the version first, sessions from other versions are not expected to match the schema
+        if (typeof parsedSession === 'object' && parsedSession !== null && 'version' in parsedSession && parsedSession.version !== SESSION_VERSION) {
+            const error = new VideoSaladSessionVersionError(parsedSession.version, SESSION_VERSION);
+            NutritionLogger.Error(
+                'Unsupported session version',
+                {
+                    ...baseMeta,
+                    commandId,
+                    subOperations: ['Validate session'],
+                    error
+                }
+            );
+
+            throw error;
+        }
+
+        const ajv = new Ajv();
+        const validate = ajv.compile<VideoSaladSession>(sessionSchema);
+        if (!validate(parsedSession)) {
+            const error = new VideoSaladInvalidSessionError(validate.errors ?? []);
+            NutritionLogger.Error(
+                'Invalid session',
+                {
+                    ...baseMeta,
+                    commandId,
+                    subOperations: ['Validate session'],
+                    error
+                }
+            );
+
+            throw error;
+        }
+
+        const result: SessionImportResult = {
+            ingredientBowls: [],
+            mixingBowls: [],
+            ids: {
+                ingredientBowls: {},
+                ingredients: {},
+                chaptersIngredients: {},
+                mixingBowls: {}
+            },
+            missingFiles: [],
+            changedFiles: [],
+            issues: []
+        };
+        // Exported ids to imported ingredients, used to refill the mixing bowls
+        const ingredientMap = new Map<number, StreamIngredient>();
+        const chaptersIngredientMap = new Map<number, ChaptersIngredient>();
+
+        const ingredientBowls = await Promise.all(parsedSession.ingredientBowls.map(bowlSession => this.importIngredientBowlSession(bowlSession, result, ingredientMap, chaptersIngredientMap, commandId)));
+        ingredientBowls.forEach((ingredientBowl) => {
+            if (!ingredientBowl) {
+                return;
+            }
+            this.ingredientBowlMap[ingredientBowl.id] = {
+                removed: false,
+                bowl: ingredientBowl
+            };
+            result.ingredientBowls.push(ingredientBowl);
+            this.emit('ingredientBowlImported', { commandId, ingredientBowl });
+        });
+
+        parsedSession.chapters?.forEach((chaptersSession) => {
+            const chaptersIngredient = ChaptersIngredient.FromChapters(chaptersSession.filePath, chaptersSession.chapters);
+            this.standaloneChaptersMap[chaptersIngredient.id] = chaptersIngredient;
+            chaptersIngredientMap.set(chaptersSession.id, chaptersIngredient);
+            result.ids.chaptersIngredients[chaptersSession.id] = chaptersIngredient.id;
+        });
+
+        parsedSession.mixingBowls.forEach((bowlSession) => {
+            const mixingBowl = new MixingBowl(bowlSession.output);
+            mixingBowl.tags = { ...bowlSession.tags };
+
+            bowlSession.ingredientIds.forEach((ingredientId) => {
+                const ingredient = ingredientMap.get(ingredientId);
+                if (!ingredient) {
+                    result.issues.push({
+                        code: 'missingIngredient',
+                        message: `Ingredient ${ingredientId} could not be added to ${bowlSession.output}`,
+                        mixingBowlId: bowlSession.id,
+                        ingredientId
+                    });
+                    return;
+                }
+                mixingBowl.addIngredient(ingredient);
+            });
+
+            if (bowlSession.chaptersIngredientId !== undefined) {
+                const chaptersIngredient = chaptersIngredientMap.get(bowlSession.chaptersIngredientId);
+                if (chaptersIngredient) {
+                    mixingBowl.chapters = chaptersIngredient;
+                } else {
+                    result.issues.push({
+                        code: 'missingChapters',
+                        message: `Chapters ${bowlSession.chaptersIngredientId} could not be added to ${bowlSession.output}`,
+                        mixingBowlId: bowlSession.id
+                    });
+                }
+            }
+
+            if (bowlSession.concatIngredientBowlIds) {
+                const parts = bowlSession.concatIngredientBowlIds.map(ingredientBowlId => this.ingredientBowlMap[result.ids.ingredientBowls[ingredientBowlId]]?.bowl);
+                if (parts.every(part => part !== undefined)) {
+                    mixingBowl.concat = parts;
+                } else {
+                    result.issues.push({
+                        code: 'invalidChanges',
+                        message: `Parts of ${bowlSession.output} could not be concatenated, a part was not imported`,
+                        mixingBowlId: bowlSession.id
+                    });
+                }
+            }
+
+            if (bowlSession.trim) {
+                try {
+                    mixingBowl.trim = bowlSession.trim;
+                } catch (error) {
+                    result.issues.push({
+                        code: 'invalidChanges',
+                        message: `Trim of ${bowlSession.output} could not be applied`,
+                        mixingBowlId: bowlSession.id,
+                        error
+                    });
+                }
+            }
+
+            this.mixingBowlMap[mixingBowl.id] = {
+                removed: false,
+                bowl: mixingBowl
+            };
+            result.ids.mixingBowls[bowlSession.id] = mixingBowl.id;
+            result.mixingBowls.push(mixingBowl);
+            this.emit('mixingBowlCreated', { commandId, mixingBowl });
+        });
+
+        if (result.issues.length) {
+            NutritionLogger.Warn(
+                'Session imported with issues',
+                {
+                    ...baseMeta,
+                    commandId,
+                    issues: result.issues
+                }
+            );
+        }
+
+        return result;
+    }
+
+    // Re-probe an exported Ingredient Bowl and reapply its ingredient changes, undefined if the file cannot be imported
+    private async importIngredientBowlSession(
+        bowlSession: IngredientBowlSession,
+        result: SessionImportResult,
+        ingredientMap: Map<number, StreamIngredient>,
+        chaptersIngredientMap: Map<number, ChaptersIngredient>,
+        commandId: number
+    ) {
+        NutritionLogger.Debug(
+            'Import Ingredient Bowl Session',
+            {
+                location: 'VideoSalad',
+                functionName: 'importIngredientBowlSession',
+                operation: 'Import Ingredient Bowl Session',
+                commandId,
+                ingredientBowlId: bowlSession.id
+            }
+        );
+
+        let fileStat: fs.Stats;
+        try {
+            fileStat = await fs.promises.stat(bowlSession.path);
+        } catch (error) {
+            result.missingFiles.push(bowlSession.path);
+            result.issues.push({
+                code: 'missingFile',
+                message: `Source file not found: ${bowlSession.path}`,
+                path: bowlSession.path,
+                ingredientBowlId: bowlSession.id,
+                error
+            });
+            return undefined;
+        }
+
+        if (bowlSession.file && (fileStat.size !== bowlSession.file.size || fileStat.mtimeMs !== bowlSession.file.modified)) {
+            result.changedFiles.push(bowlSession.path);
+            result.issues.push({
+                code: 'changedFile',
+                message: `Source file changed since the session was exported: ${bowlSession.path}`,
+                path: bowlSession.path,
+                ingredientBowlId: bowlSession.id
+            });
+        }
+
+        let ingredientBowl: IngredientBowl;
+        try {
+            ingredientBowl = await IngredientBowl.Initialize(bowlSession.path);
+        } catch (error) {
+            result.missingFiles.push(bowlSession.path);
+            result.issues.push({
+                code: 'missingFile',
+                message: `Source file could not be imported: ${bowlSession.path}`,
+                path: bowlSession.path,
+                ingredientBowlId: bowlSession.id,
+                error
+            });
+            return undefined;
+        }
+        result.ids.ingredientBowls[bowlSession.id] = ingredientBowl.id;
+
+        bowlSession.ingredients.forEach((ingredientState) => {
+            // Streams are matched by index, copies are recreated from the original stream
+            const original = ingredientBowl.ingredients.find(ingredient => ingredient.isOriginal && ingredient.index === ingredientState.index && ingredient.type === ingredientState.type);
+            if (!original) {
+                result.issues.push({
+                    code: 'missingIngredient',
+                    message: `${ingredientState.type} stream ${ingredientState.index} not found in ${bowlSession.path}`,
+                    path: bowlSession.path,
+                    ingredientBowlId: bowlSession.id,
+                    ingredientId: ingredientState.id
+                });
+                return;
+            }
+
+            const ingredient = ingredientState.isOriginal ? original : original.copy();
+            if (!ingredientState.isOriginal) {
+                ingredientBowl.addCopiedIngredient(ingredient);
+            }
+            ingredientMap.set(ingredientState.id, ingredient);
+            result.ids.ingredients[ingredientState.id] = ingredient.id;
+
+            try {
+                ingredient.importState(ingredientState);
+            } catch (error) {
+                result.issues.push({
+                    code: 'invalidChanges',
+                    message: `Changes for ${ingredientState.type} stream ${ingredientState.index} in ${bowlSession.path} could not be applied`,
+                    path: bowlSession.path,
+                    ingredientBowlId: bowlSession.id,
+                    ingredientId: ingredientState.id,
+                    error
+                });
+            }
+        });
+
+        if (bowlSession.chapters) {
+            const missingChapterIds = ingredientBowl.chapters
+                ? ingredientBowl.chapters.importState(bowlSession.chapters)
+                : bowlSession.chapters.chapters.map(({ id }) => id);
+            if (ingredientBowl.chapters) {
+                chaptersIngredientMap.set(bowlSession.chapters.id, ingredientBowl.chapters);
+                result.ids.chaptersIngredients[bowlSession.chapters.id] = ingredientBowl.chapters.id;
+            }
+            if (missingChapterIds.length) {
+                result.issues.push({
+                    code: 'missingChapters',
+                    message: `Chapters not found in ${bowlSession.path}`,
+                    path: bowlSession.path,
+                    ingredientBowlId: bowlSession.id,
+                    chapterIds: missingChapterIds
+                });
+            }
+        }
+
+        return ingredientBowl;
+    }
+
+    private async undoCommand(commandId: number) {
+        NutritionLogger.Debug(
+            'Undo Command',
+            {
+                location: 'VideoSalad',
+                functionName: 'undoCommand',
+                operation: 'Undo Command',
+                commandId
+            }
+        );
+
+        // Throws if a transaction is open
+        const entry = this.journal.undo();
+        if (entry) {
+            this.emit('commandUndone', { commandId, entry });
+        }
+
+        return entry;
+    }
+
+    private async redoCommand(commandId: number) {
+        NutritionLogger.Debug(
+            'Redo Command',
+            {
+                location: 'VideoSalad',
+                functionName: 'redoCommand',
+                operation: 'Redo Command',
+                commandId
+            }
+        );
+
+        // Throws if a transaction is open
+        const entry = this.journal.redo();
+        if (entry) {
+            this.emit('commandRedone', { commandId, entry });
+        }
+
+        return entry;
+    }
+
+    private async clearCommandHistory(commandId: number) {
+        NutritionLogger.Debug(
+            'Clear Command History',
+            {
+                location: 'VideoSalad',
+                functionName: 'clearCommandHistory',
+                operation: 'Clear Command History',
+                commandId
+            }
+        );
+
+        this.journal.clear();
+    }
+
+    private async runTransaction<T>(label: string, callback: () => Promise<T>, commandId: number) {
+        const baseMeta: BaseMeta = {
+            location: 'VideoSalad',
+            functionName: 'runTransaction',
+            operation: 'Run Transaction'
+        };
+        NutritionLogger.Debug(
+            'Run Transaction',
+            {
+                ...baseMeta,
+                commandId,
+                label
+            }
+        );
+
+        try {
+            return await this.journal.transaction(label, callback);
+        } catch (error) {
+            NutritionLogger.Warn(
+                'Transaction failed, its commands were undone',
+                {
+                    ...baseMeta,
+                    commandId,
+                    label,
+                    error: error as Error
+                }
+            );
+
+            throw error;
+        }
+    }
+
+    private async loadCapabilities(commandId: number) {
+        const baseMeta: BaseMeta = {
+            location: 'VideoSalad',
+            functionName: 'loadCapabilities',
+            operation: 'Get FFMPEG Capabilities'
+        };
+        NutritionLogger.Debug(
+            'Get FFMPEG Capabilities',
+            {
+                ...baseMeta,
+                commandId
+            }
+        );
+
+        try {
+            return await LoadFfmpegCapabilities(GetBinaryPath('ffmpeg', this.environment));
+        } catch (error) {
+            NutritionLogger.Error(
+                'Get FFMPEG Capabilities',
+                {
+                    ...baseMeta,
+                    commandId,
+                    error: error as Error
+                }
+            );
+            throw error;
+        }
+    }
+
+    private async checkBinaries(commandId: number) {
+        const baseMeta: BaseMeta = {
+            location: 'VideoSalad',
+            functionName: 'checkBinaries',
+            operation: 'Check FFMPEG Binaries'
+        };
+        NutritionLogger.Debug(
+            'Check FFMPEG Binaries',
+            {
+                ...baseMeta,
+                commandId
+            }
+        );
+
+        for (const binary of ['ffmpeg', 'ffprobe'] as const) {
+            const binaryPath = GetBinaryPath(binary, this.environment);
+            try {
+                this.binaryVersions[binary] = await GetBinaryVersion(binaryPath);
+            } catch (error) {
+                const binaryError = new VideoSaladBinaryError(binary, binaryPath, error);
+                NutritionLogger.Error(
+                    binaryError.message,
+                    {
+                        ...baseMeta,
+                        commandId,
+                        error: binaryError
+                    }
+                );
+                throw binaryError;
+            }
+        }
+
+        NutritionLogger.Info(
+            'FFMPEG Binaries Found',
+            {
+                ...baseMeta,
+                commandId,
+                ffmpegVersion: this.binaryVersions.ffmpeg,
+                ffprobeVersion: this.binaryVersions.ffprobe
+            }
+        );
+    }
+
     //#endregion Implementations
 }
\ No newline at end of file
@@ -2,8 +2,29 @@ import { VideoSalad } from './VideoSalad.js';
 
 export default VideoSalad;
 export * from './VideoSalad.js';
+export * from './AudioSync.js';
 export * from './Bowl.js';
+export * from './Capabilities.js';
+export * from './ChapterFormats.js';
+export * from './ChapterGenerator.js';
+export * from './Concat.js';
+export * from './Containers.js';
+export * from './Demux.js';
+export * from './History.js';
+export * from './MixingQueue.js';
+export * from './Progress.js';
 export * from './Ingredient.js';
 export * from './Encoders.js';
+export * from './Recipe.js';
+export * from './Session.js';
+export * from './Source.js';
+export * from './StreamOutput.js';
+export * from './Sync.js';
+export * from './Trim.js';
 export * from './utils/errors/VideoSaladError.js';
-export * from './utils/errors/BowlError.js';
\ No newline at end of file
+export * from './utils/errors/BowlError.js';
+export * from './utils/errors/IngredientError.js';
+export * from './utils/errors/ChaptersError.js';
+export * from './utils/templating/Template.js';
+export * from './utils/events/TypedEventEmitter.js';
+export * from './utils/ffmpeg/FfmpegEnvironment.js';
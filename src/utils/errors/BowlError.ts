@@ -1,11 +1,23 @@
+import { MixingBowlValidationIssue } from '../../Bowl.js';
+
 enum BowlErrorName {
     BowlAccessError = 'BowlAccessError',
     BowlFileTypeError = 'BowlFileTypeError',
     BowlFFProbeError = 'BowlFFProbeError',
+    BowlSourceProtocolError = 'BowlSourceProtocolError',
+    BowlSourceReadError = 'BowlSourceReadError',
     BowlMixError = 'BowlMixError',
     BowlMixNoOutputError = 'BowlMixNoOutputError',
     BowlMixNoIngredientsError = 'BowlMixNoIngredientsError',
-    BowlMixInvalidOutputError = 'BowlMixInvalidOutputError'
+    BowlMixInvalidOutputError = 'BowlMixInvalidOutputError',
+    BowlMixInProgressError = 'BowlMixInProgressError',
+    BowlMixCanceledError = 'BowlMixCanceledError',
+    BowlMixFfmpegError = 'BowlMixFfmpegError',
+    BowlMixValidationError = 'BowlMixValidationError',
+    BowlMixSyncError = 'BowlMixSyncError',
+    BowlMixNotSeekableError = 'BowlMixNotSeekableError',
+    BowlMixNotStreamableError = 'BowlMixNotStreamableError',
+    BowlMixStreamError = 'BowlMixStreamError'
 }
 
 export abstract class BowlError extends Error {
@@ -44,6 +56,20 @@ export class BowlFFProbeError extends BowlImportError {
     }
 }
 
+// Only file and HTTP URLs can be imported
+export class BowlSourceProtocolError extends BowlImportError {
+    constructor(filePath: string, public protocol: string) {
+        super(BowlErrorName.BowlSourceProtocolError, filePath, `Unsupported source protocol ${protocol}`);
+    }
+}
+
+// The stream, buffer or HTTP source could not be read or cached
+export class BowlSourceReadError extends BowlImportError {
+    constructor(filePath: string, public readError: unknown) {
+        super(BowlErrorName.BowlSourceReadError, filePath, `Failed to read source`);
+    }
+}
+
 export abstract class MixingBowlError extends BowlError {
     constructor(errorName: BowlErrorName, public id: number, message: string) {
         super(errorName, message);
@@ -74,4 +100,69 @@ export class BowlMixInvalidOutputError extends BowlMixError {
             `Output file path cannot be the same as any Ingredient`
         );
     }
-}
\ No newline at end of file
+}
+
+// Bowl is already queued or mixing
+export class BowlMixInProgressError extends BowlMixError {
+    constructor(id: number, public state: string) {
+        super(BowlErrorName.BowlMixInProgressError, id, `Mixing bowl is already ${state}`);
+    }
+}
+
+// Mixing was canceled before the output was written
+export class BowlMixCanceledError extends BowlMixError {
+    constructor(id: number) {
+        super(BowlErrorName.BowlMixCanceledError, id, `Mixing was canceled`);
+    }
+}
+
+// ffmpeg exited with an error while mixing
+export class BowlMixFfmpegError extends BowlMixError {
+    // Last lines of ffmpeg's stderr, usually containing the cause
+    public readonly stderrTail: string;
+
+    constructor(id: number, public ffmpegError: unknown, stderr: string, public fullFfmpegCommand?: string, stderrTailLines = 20) {
+        super(
+            BowlErrorName.BowlMixFfmpegError,
+            id,
+            ffmpegError instanceof Error ? ffmpegError.message : `Unknown ffmpeg error`
+        );
+
+        this.stderrTail = stderr.trimEnd().split(/\r?\n/).slice(-stderrTailLines).join('\n');
+    }
+}
+
+// Ingredients cannot be muxed into the output container
+export class BowlMixValidationError extends BowlMixError {
+    constructor(id: number, public validationErrors: MixingBowlValidationIssue[]) {
+        super(BowlErrorName.BowlMixValidationError, id, `Ingredients are not compatible with the output container`);
+    }
+}
+
+// A delayed ingredient could not be prepared for mixing
+export class BowlMixSyncError extends BowlMixError {
+    constructor(id: number, public ingredientId: number, public syncError: unknown) {
+        super(BowlErrorName.BowlMixSyncError, id, `Ingredient ${ingredientId} could not be synced`);
+    }
+}
+
+// Ingredients probed from a stream without caching cannot be read again by ffmpeg
+export class BowlMixNotSeekableError extends BowlMixError {
+    constructor(id: number, public ingredientIds: number[]) {
+        super(BowlErrorName.BowlMixNotSeekableError, id, `Ingredients ${ingredientIds.join(', ')} were not cached and cannot be mixed`);
+    }
+}
+
+// The output container cannot be written to a stream without a temporary file
+export class BowlMixNotStreamableError extends BowlMixError {
+    constructor(id: number, public format: string) {
+        super(BowlErrorName.BowlMixNotStreamableError, id, `${format} cannot be streamed, allow a temporary file or use a streamable format`);
+    }
+}
+
+// The mixed temporary file could not be copied to the output stream
+export class BowlMixStreamError extends BowlMixError {
+    constructor(id: number, public streamError: unknown) {
+        super(BowlErrorName.BowlMixStreamError, id, `Failed to write the output to the stream`);
+    }
+}
@@ -0,0 +1,56 @@
+enum ChaptersErrorName {
+    ChaptersParseError = 'ChaptersParseError',
+    ChaptersFormatError = 'ChaptersFormatError',
+    ChaptersAccessError = 'ChaptersAccessError',
+    ChaptersDetectionError = 'ChaptersDetectionError',
+    ChaptersDetectionStreamError = 'ChaptersDetectionStreamError',
+    ChaptersDurationError = 'ChaptersDurationError'
+}
+
+export abstract class ChaptersError extends Error {
+    constructor(public readonly errorName: ChaptersErrorName, message: string) {
+        super(message);
+    }
+}
+
+// The chapters text is not valid for the format
+export class ChaptersParseError extends ChaptersError {
+    constructor(public format: string, reason: string, public line?: number) {
+        super(ChaptersErrorName.ChaptersParseError, `Invalid ${format} chapters${line !== undefined ? ` on line ${line}` : ''}: ${reason}`);
+    }
+}
+
+// The chapters format could not be determined or is not supported
+export class ChaptersFormatError extends ChaptersError {
+    constructor(public format: string) {
+        super(ChaptersErrorName.ChaptersFormatError, `Unsupported chapters format: ${format}`);
+    }
+}
+
+// The chapters file cannot be read or written
+export class ChaptersAccessError extends ChaptersError {
+    constructor(public filePath: string, public accessError: unknown) {
+        super(ChaptersErrorName.ChaptersAccessError, `No access to chapters file`);
+    }
+}
+
+// ffmpeg failed while detecting chapter boundaries
+export class ChaptersDetectionError extends ChaptersError {
+    constructor(public filePath: string, public method: string, public ffmpegError: unknown, public stderr: string) {
+        super(ChaptersErrorName.ChaptersDetectionError, `${method} detection failed`);
+    }
+}
+
+// The detection method cannot analyze this type of stream
+export class ChaptersDetectionStreamError extends ChaptersError {
+    constructor(public method: string, public type: string) {
+        super(ChaptersErrorName.ChaptersDetectionStreamError, `${method} detection cannot analyze ${type} streams`);
+    }
+}
+
+// Chapters cannot be generated without knowing where the media ends
+export class ChaptersDurationError extends ChaptersError {
+    constructor(public filePath: string) {
+        super(ChaptersErrorName.ChaptersDurationError, `Unknown media duration`);
+    }
+}
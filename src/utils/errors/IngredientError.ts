@@ -0,0 +1,110 @@
+import { ErrorObject } from 'ajv';
+
+import { ChaptersValidationIssue } from '../../Ingredient.js';
+
+enum IngredientErrorName {
+    IngredientConvertUnsupportedCodecError = 'IngredientConvertUnsupportedCodecError',
+    IngredientConvertInvalidOptionsError = 'IngredientConvertInvalidOptionsError',
+    IngredientConvertDecodeOnlyError = 'IngredientConvertDecodeOnlyError',
+    IngredientConvertImageSubtitleError = 'IngredientConvertImageSubtitleError',
+    IngredientChapterNotFoundError = 'IngredientChapterNotFoundError',
+    IngredientChapterInvalidTimeError = 'IngredientChapterInvalidTimeError',
+    IngredientChapterMissingEndError = 'IngredientChapterMissingEndError',
+    IngredientChaptersValidationError = 'IngredientChaptersValidationError',
+    IngredientSyncStreamError = 'IngredientSyncStreamError',
+    IngredientSyncDecodeError = 'IngredientSyncDecodeError',
+    IngredientSyncNoSignalError = 'IngredientSyncNoSignalError'
+}
+
+export abstract class IngredientError extends Error {
+    constructor(public readonly errorName: IngredientErrorName, public id: number, message: string) {
+        super(message);
+    }
+}
+
+export abstract class IngredientConvertError extends IngredientError {
+    constructor(errorName: IngredientErrorName, id: number, public codec: string, message: string) {
+        super(errorName, id, message);
+    }
+}
+
+export abstract class IngredientChaptersError extends IngredientError { }
+
+export abstract class IngredientSyncError extends IngredientError { }
+
+// The requested codec cannot be converted to
+export class IngredientConvertUnsupportedCodecError extends IngredientConvertError {
+    constructor(id: number, codec: string) {
+        super(IngredientErrorName.IngredientConvertUnsupportedCodecError, id, codec, `Unsupported codec: ${codec}`);
+    }
+}
+
+// Conversion options failed schema validation
+export class IngredientConvertInvalidOptionsError extends IngredientConvertError {
+    constructor(id: number, codec: string, public validationErrors: ErrorObject[]) {
+        super(IngredientErrorName.IngredientConvertInvalidOptionsError, id, codec, `Invalid ${codec} conversion options`);
+    }
+}
+
+// ffmpeg can decode the codec but has no encoder for it
+export class IngredientConvertDecodeOnlyError extends IngredientConvertError {
+    constructor(id: number, codec: string) {
+        super(IngredientErrorName.IngredientConvertDecodeOnlyError, id, codec, `${codec} can only be decoded, ffmpeg cannot encode it`);
+    }
+}
+
+// Image based subtitles cannot be converted to text subtitles
+export class IngredientConvertImageSubtitleError extends IngredientConvertError {
+    constructor(id: number, public sourceCodec: string, codec: string) {
+        super(IngredientErrorName.IngredientConvertImageSubtitleError, id, codec, `Image based ${sourceCodec} subtitles cannot be converted to ${codec}`);
+    }
+}
+
+// The chapter does not exist in the Chapters Ingredient
+export class IngredientChapterNotFoundError extends IngredientChaptersError {
+    constructor(id: number, public chapterId: number) {
+        super(IngredientErrorName.IngredientChapterNotFoundError, id, `Chapter ${chapterId} not found`);
+    }
+}
+
+// The chapter operation cannot be applied at this time
+export class IngredientChapterInvalidTimeError extends IngredientChaptersError {
+    constructor(id: number, public chapterId: number, public time: number, message: string) {
+        super(IngredientErrorName.IngredientChapterInvalidTimeError, id, message);
+    }
+}
+
+// An added chapter is not followed by a chapter and the media duration is unknown
+export class IngredientChapterMissingEndError extends IngredientChaptersError {
+    constructor(id: number, public start: number) {
+        super(IngredientErrorName.IngredientChapterMissingEndError, id, `End of the chapter added at ${start} is required`);
+    }
+}
+
+// Edited chapters overlap or fall outside of the media duration
+export class IngredientChaptersValidationError extends IngredientChaptersError {
+    constructor(id: number, public issues: ChaptersValidationIssue[]) {
+        super(IngredientErrorName.IngredientChaptersValidationError, id, `Invalid chapters`);
+    }
+}
+
+// Sync detection compares audio streams only
+export class IngredientSyncStreamError extends IngredientSyncError {
+    constructor(id: number, public type: string) {
+        super(IngredientErrorName.IngredientSyncStreamError, id, `Cannot detect sync of ${type} streams, audio streams are required`);
+    }
+}
+
+// ffmpeg could not decode the audio window
+export class IngredientSyncDecodeError extends IngredientSyncError {
+    constructor(id: number, public ffmpegError: unknown) {
+        super(IngredientErrorName.IngredientSyncDecodeError, id, `Audio could not be decoded for sync detection`);
+    }
+}
+
+// The decoded audio window is too short or silent to correlate
+export class IngredientSyncNoSignalError extends IngredientSyncError {
+    constructor(id: number) {
+        super(IngredientErrorName.IngredientSyncNoSignalError, id, `Not enough audio to detect sync`);
+    }
+}
@@ -1,3 +1,5 @@
+import { ErrorObject } from 'ajv';
+
 import { BowlImportError } from './BowlError.js';
 
 export interface ImportRejectedResult extends PromiseRejectedResult {
@@ -13,7 +15,14 @@ export enum VideoSaladType {
 
 enum VideoSaladErrorName {
     VideoSaladImportBowlError = 'VideoSaladImportBowlError',
-    VideoSaladNotFoundError = 'VideoSaladNotFoundError'
+    VideoSaladNotFoundError = 'VideoSaladNotFoundError',
+    VideoSaladInvalidSessionError = 'VideoSaladInvalidSessionError',
+    VideoSaladSessionVersionError = 'VideoSaladSessionVersionError',
+    VideoSaladInvalidRecipeError = 'VideoSaladInvalidRecipeError',
+    VideoSaladDemuxOutputConflictError = 'VideoSaladDemuxOutputConflictError',
+    VideoSaladTransactionError = 'VideoSaladTransactionError',
+    VideoSaladBinaryError = 'VideoSaladBinaryError',
+    VideoSaladCapabilitiesError = 'VideoSaladCapabilitiesError'
 }
 
 export abstract class VideoSaladError extends Error {
@@ -56,3 +65,80 @@ export class VideoSaladNotFoundError extends VideoSaladError {
         );
     }
 }
+
+
+// The session is not valid JSON or does not match the session schema
+export class VideoSaladInvalidSessionError extends VideoSaladError {
+    constructor(public validationErrors: ErrorObject[], public parseError?: unknown) {
+        super(
+            VideoSaladErrorName.VideoSaladInvalidSessionError,
+            `Invalid session`
+        );
+    }
+}
+
+
+// The session was exported by an unsupported version
+export class VideoSaladSessionVersionError extends VideoSaladError {
+    constructor(public version: unknown, public supportedVersion: number) {
+        super(
+            VideoSaladErrorName.VideoSaladSessionVersionError,
+            `Unsupported session version ${version}, expected ${supportedVersion}`
+        );
+    }
+}
+
+
+// The recipe does not match the recipe schema
+export class VideoSaladInvalidRecipeError extends VideoSaladError {
+    constructor(public validationErrors: ErrorObject[]) {
+        super(
+            VideoSaladErrorName.VideoSaladInvalidRecipeError,
+            `Invalid recipe`
+        );
+    }
+}
+
+
+// Several streams would be demuxed to the same output path
+export class VideoSaladDemuxOutputConflictError extends VideoSaladError {
+    constructor(public outputs: string[]) {
+        super(
+            VideoSaladErrorName.VideoSaladDemuxOutputConflictError,
+            `Demux output template produced duplicate outputs: ${outputs.join(', ')}`
+        );
+    }
+}
+
+
+// Undo, redo and clearing the history are unavailable until the transaction has finished
+export class VideoSaladTransactionError extends VideoSaladError {
+    constructor(public transaction: string) {
+        super(
+            VideoSaladErrorName.VideoSaladTransactionError,
+            `Cannot change the history during transaction ${transaction}`
+        );
+    }
+}
+
+
+// The ffmpeg or ffprobe binary is missing or could not report its version
+export class VideoSaladBinaryError extends VideoSaladError {
+    constructor(public binary: 'ffmpeg' | 'ffprobe', public binaryPath: string, public cause?: unknown) {
+        super(
+            VideoSaladErrorName.VideoSaladBinaryError,
+            `Cannot run ${binary} at ${binaryPath}`
+        );
+    }
+}
+
+
+// ffmpeg could not list its formats, codecs, encoders or filters
+export class VideoSaladCapabilitiesError extends VideoSaladError {
+    constructor(public binaryPath: string, public list: string, public cause?: unknown) {
+        super(
+            VideoSaladErrorName.VideoSaladCapabilitiesError,
+            `Failed to load the ${list} of ${binaryPath}`
+        );
+    }
+}
@@ -0,0 +1,33 @@
+import { EventEmitter } from 'events';
+
+// Event names mapped to their listener arguments
+export type EventMap = { [event: string]: unknown[] };
+
+type Listener<Events extends EventMap, E extends keyof Events> = (...args: Events[E]) => void;
+
+// EventEmitter with listener arguments checked against the event map
+export class TypedEventEmitter<Events extends EventMap> extends EventEmitter {
+    public on<E extends keyof Events & string>(event: E, listener: Listener<Events, E>) {
+        return super.on(event, listener as (...args: unknown[]) => void);
+    }
+
+    public once<E extends keyof Events & string>(event: E, listener: Listener<Events, E>) {
+        return super.once(event, listener as (...args: unknown[]) => void);
+    }
+
+    public off<E extends keyof Events & string>(event: E, listener: Listener<Events, E>) {
+        return super.off(event, listener as (...args: unknown[]) => void);
+    }
+
+    public addListener<E extends keyof Events & string>(event: E, listener: Listener<Events, E>) {
+        return super.addListener(event, listener as (...args: unknown[]) => void);
+    }
+
+    public removeListener<E extends keyof Events & string>(event: E, listener: Listener<Events, E>) {
+        return super.removeListener(event, listener as (...args: unknown[]) => void);
+    }
+
+    public emit<E extends keyof Events & string>(event: E, ...args: Events[E]) {
+        return super.emit(event, ...args);
+    }
+}
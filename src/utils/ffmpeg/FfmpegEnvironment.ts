@@ -0,0 +1,85 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { execFile } from 'child_process';
+import Ffmpeg from 'fluent-ffmpeg';
+import * as os from 'os';
+import { Readable } from 'stream';
+
+import { VideoSaladBinaryError } from '../errors/VideoSaladError.js';
+
+// Binaries and scratch space of a VideoSalad instance
+export interface FfmpegEnvironment {
+    ffmpegPath?: string; // FFMPEG_PATH, then PATH if missing
+    ffprobePath?: string; // FFPROBE_PATH, PATH, then next to ffmpeg if missing
+    tempDir?: string; // Default os.tmpdir()
+}
+
+// Private binary lookups of fluent-ffmpeg 2.1 commands, missing from its typings
+interface FfmpegPathLookups {
+    _getFfmpegPath(callback: (error: Error | null, path: string) => void): void;
+    _getFfprobePath(callback: (error: Error | null, path: string) => void): void;
+}
+
+const environmentContext = new AsyncLocalStorage<FfmpegEnvironment>();
+
+// Environment of the VideoSalad instance running the current command, the process defaults outside of commands
+export function GetFfmpegEnvironment(): FfmpegEnvironment {
+    return environmentContext.getStore() ?? {};
+}
+
+// ffmpeg commands created by the callback, and the asynchronous work it starts, use the environment
+export function RunInFfmpegEnvironment<T>(environment: FfmpegEnvironment, callback: () => T) {
+    return environmentContext.run(environment, callback);
+}
+
+/**
+ * fluent-ffmpeg command running the binaries of the current environment
+ * setFfmpegPath and setFfprobePath write the process-wide path cache of fluent-ffmpeg, even when called on a command,
+ * so they would switch the binaries of every VideoSalad instance and the lookups of the command are replaced instead
+ * The lookups are private to fluent-ffmpeg 2.1.2, which package.json pins, throws VideoSaladBinaryError instead of running the binaries in PATH if they are missing
+ */
+export function CreateFfmpegCommand(input?: string | Readable) {
+    const command = Ffmpeg(input);
+    const { ffmpegPath, ffprobePath } = GetFfmpegEnvironment();
+
+    const lookups = command as unknown as FfmpegPathLookups;
+    if (ffmpegPath) {
+        if (typeof lookups._getFfmpegPath !== 'function') {
+            throw new VideoSaladBinaryError('ffmpeg', ffmpegPath, new Error('Unsupported fluent-ffmpeg version, binary paths cannot be set per command'));
+        }
+        lookups._getFfmpegPath = callback => callback(null, ffmpegPath);
+    }
+    if (ffprobePath) {
+        if (typeof lookups._getFfprobePath !== 'function') {
+            throw new VideoSaladBinaryError('ffprobe', ffprobePath, new Error('Unsupported fluent-ffmpeg version, binary paths cannot be set per command'));
+        }
+        lookups._getFfprobePath = callback => callback(null, ffprobePath);
+    }
+
+    return command;
+}
+
+export function GetTempDir() {
+    return GetFfmpegEnvironment().tempDir ?? os.tmpdir();
+}
+
+// Binaries run when the environment does not set a path, found in PATH by execFile
+export function GetBinaryPath(binary: 'ffmpeg' | 'ffprobe', environment: FfmpegEnvironment) {
+    return binary === 'ffmpeg'
+        ? environment.ffmpegPath ?? process.env.FFMPEG_PATH ?? 'ffmpeg'
+        : environment.ffprobePath ?? process.env.FFPROBE_PATH ?? 'ffprobe';
+}
+
+// Version from the first line of -version, ex. 6.0 or N-111111-gabcdef, rejects if the binary cannot be run
+export async function GetBinaryVersion(binaryPath: string) {
+    return new Promise<string>((resolve, reject) => {
+        execFile(binaryPath, ['-version'], (error, stdout) => {
+            if (error) {
+                reject(error);
+                return;
+            }
+
+            const [firstLine] = stdout.split('\n');
+            resolve(/^\S+ version (\S+)/.exec(firstLine)?.[1] ?? firstLine.trim());
+        });
+    });
+}
@@ -1,12 +1,11 @@
 // import package.json
 // import pkg from '../../../package.json';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Writable } from 'stream';
 import * as winston from 'winston';
 
 // TODO:
-// Enable/disable console/file logging
-// Enable/disable levels
 // multiple/combined logger(s)
-// file location
 
 export interface BaseMeta {
     // File location
@@ -23,12 +22,66 @@ export interface ErrorMeta<T extends Error = Error> extends BaseMeta {
     error: T;
 }
 
+export type NutritionLogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+// Receives every entry at or above the logger level, ex. console or the logger of the host application
+export interface NutritionLogSink {
+    error(message: string, metadata: object): void;
+    warn(message: string, metadata: object): void;
+    info(message: string, metadata: object): void;
+    debug(message: string, metadata: object): void;
+}
+
+export interface NutritionLogFileOptions {
+    path?: string; // Default ./logs/video-salad.log, relative to the current working directory
+    maxSize?: number; // Bytes written before the file is rotated, never rotated by default
+    maxFiles?: number; // Rotated files kept, every file is kept by default
+}
+
+export interface NutritionLoggerOptions {
+    level?: NutritionLogLevel; // Default info
+    console?: boolean; // Default true
+    file?: boolean | NutritionLogFileOptions; // Default true
+    sink?: NutritionLogSink; // Receives every entry, in addition to the console and file
+    logger?: winston.Logger; // Used as is instead of the console, file and sink, the level is left unchanged
+    defaultMeta?: { [key: string]: unknown }; // Added to every entry
+}
+
+export const DEFAULT_LOG_FILE_PATH = './logs/video-salad.log';
+
 export class NutritionLogger {
     public logger: winston.Logger;
 
-    private static singleton: NutritionLogger;
+    private static singleton?: NutritionLogger;
+    // Used outside of VideoSalad commands until the shared logger is created, nothing is written
+    private static readonly silent = new NutritionLogger({ console: false, file: false });
+    // Logger of the VideoSalad instance running the current command
+    private static readonly context = new AsyncLocalStorage<NutritionLogger>();
+
+    constructor(options: NutritionLoggerOptions = {}) {
+        if (options.logger) {
+            this.logger = options.logger;
+            return;
+        }
+
+        const transports: winston.transport[] = [];
+        if (options.console ?? true) {
+            transports.push(new winston.transports.Console());
+        }
+        if (options.file ?? true) {
+            const fileOptions = typeof options.file === 'object' ? options.file : {};
+            transports.push(new winston.transports.File({
+                filename: fileOptions.path ?? DEFAULT_LOG_FILE_PATH,
+                maxsize: fileOptions.maxSize,
+                maxFiles: fileOptions.maxFiles,
+                // The newest entries are always in the configured file
+                tailable: true
+            }));
+        }
+        if (options.sink) {
+            transports.push(NutritionLogger.SinkTransport(options.sink));
+        }
 
-    constructor() {
         this.logger = winston.createLogger({
             levels: {
                 error: 0,
@@ -36,19 +89,17 @@ export class NutritionLogger {
                 info: 2,
                 debug: 3
             },
-            level: 'info',
+            level: options.level ?? 'info',
             defaultMeta: {
                 application: 'video-salad-core',
-                version: '0.0.1'
+                version: '0.0.1',
                 // application: pkg.name,
                 // version: pkg.version
+                ...options.defaultMeta
             },
-            transports: [
-                new winston.transports.Console(),
-                new winston.transports.File({
-                    filename: './logs/video-salad.log',
-                })
-            ],
+            transports,
+            // Entries are dropped when every transport is disabled
+            silent: !transports.length,
             format: winston.format.combine(
                 winston.format.timestamp(),
                 winston.format.errors({ stack: true }),
@@ -58,6 +109,19 @@ export class NutritionLogger {
         });
     }
 
+    // Forwards entries to the sink as a message and metadata
+    private static SinkTransport(sink: NutritionLogSink) {
+        return new winston.transports.Stream({
+            stream: new Writable({
+                objectMode: true,
+                write({ level, message, ...metadata }: winston.Logform.TransformableInfo, _encoding, callback) {
+                    sink[level as NutritionLogLevel](String(message), metadata);
+                    callback();
+                }
+            })
+        });
+    }
+
     // Ensure singleton instance
     public static get instance(): NutritionLogger {
         if (!NutritionLogger.singleton) {
@@ -67,19 +131,29 @@ export class NutritionLogger {
 
     }
 
+    // Logger of the current command, the shared logger outside of commands if a VideoSalad created it
+    public static get current(): NutritionLogger {
+        return NutritionLogger.context.getStore() ?? NutritionLogger.singleton ?? NutritionLogger.silent;
+    }
+
+    // Entries logged by the callback, and the asynchronous work it starts, go to the logger
+    public static Run<T>(logger: NutritionLogger, callback: () => T) {
+        return NutritionLogger.context.run(logger, callback);
+    }
+
     public static Info<T extends BaseMeta>(message: string, metadata: T) {
-        NutritionLogger.instance.logger.info(message, metadata);
+        NutritionLogger.current.logger.info(message, metadata);
     }
 
     public static Warn<T extends BaseMeta>(message: string, metadata: T) {
-        NutritionLogger.instance.logger.warn(message, metadata);
+        NutritionLogger.current.logger.warn(message, metadata);
     }
 
     public static Debug<T extends BaseMeta>(message: string, metadata: T) {
-        NutritionLogger.instance.logger.debug(message, metadata);
+        NutritionLogger.current.logger.debug(message, metadata);
     }
 
     public static Error<T extends ErrorMeta<U>, U extends Error = Error>(message: string, metadata?: T) {
-        NutritionLogger.instance.logger.error(message, metadata);
+        NutritionLogger.current.logger.error(message, metadata);
     }
-}
\ No newline at end of file
+}
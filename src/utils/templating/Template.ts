@@ -0,0 +1,8 @@
+export interface TemplateVariables {
+    [name: string]: string | number | undefined;
+}
+
+// Replace {name} placeholders with variables, missing variables are replaced with an empty string
+export function RenderTemplate(template: string, variables: TemplateVariables) {
+    return template.replace(/\{(\w+)\}/g, (_placeholder, name: string) => `${variables[name] ?? ''}`);
+}
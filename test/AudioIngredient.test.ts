@@ -0,0 +1,45 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { FfprobeStream } from 'fluent-ffmpeg';
+
+import { AudioIngredient } from '../src/Ingredient.js';
+import { IngredientConvertDecodeOnlyError, IngredientConvertInvalidOptionsError } from '../src/utils/errors/IngredientError.js';
+
+// 5.1 DTS audio, stream 1 of its file
+function CreateAudioIngredient() {
+    return new AudioIngredient('input.mkv', { index: 1, codec_name: 'dts', codec_type: 'audio', channels: 6 } as FfprobeStream);
+}
+
+describe('AudioIngredient', () => {
+    it('stream copies only when the audio is not converted', () => {
+        const audioIngredient = CreateAudioIngredient();
+
+        assert.deepEqual(audioIngredient.buildOptions(0, 1), ['-map 0:1', '-c:1 copy', '-map_metadata:s:1 0:s:1']);
+
+        audioIngredient.convert({ codec: 'aac', q: 1.2, channels: '2' });
+
+        assert.deepEqual(audioIngredient.buildOptions(0, 1), ['-map 0:1', '-map_metadata:s:1 0:s:1', '-c:1 aac', '-q:1 1.2', '-ac:1 2']);
+    });
+
+    it('allows the experimental DTS encoder', () => {
+        const audioIngredient = CreateAudioIngredient();
+        audioIngredient.convert({ codec: 'dts', bitrate: 1509000 });
+
+        assert.deepEqual(audioIngredient.buildOptions(0, 1).slice(2), ['-c:1 dca', '-strict:1 experimental', '-b:1 1509000']);
+    });
+
+    it('rejects conversions to DTS-HD, which ffmpeg only decodes', () => {
+        for (const codec of ['dts_hd', 'dts_hd_ma', 'dts_hd_sp'] as const) {
+            const audioIngredient = CreateAudioIngredient();
+
+            assert.throws(() => audioIngredient.convert({ codec }), IngredientConvertDecodeOnlyError);
+            assert.deepEqual(audioIngredient.buildOptions(0, 1), ['-map 0:1', '-c:1 copy', '-map_metadata:s:1 0:s:1']);
+        }
+    });
+
+    it('rejects invalid conversion options', () => {
+        const audioIngredient = CreateAudioIngredient();
+
+        assert.throws(() => audioIngredient.convert({ codec: 'aac', q: 1.2, bitrate: 192000 }), IngredientConvertInvalidOptionsError);
+    });
+});
@@ -0,0 +1,66 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { AudioEnvelope, EstimateAudioOffset, ValidateAudioSyncOptions } from '../src/AudioSync.js';
+
+const sampleRate = 1000;
+
+// Noise with a loudness changing every 50 ms, the same seed always gives the same audio
+function CreateAudio(seconds: number, seed = 1) {
+    let state = seed;
+    const random = () => {
+        state = (state * 1103515245 + 12345) % 2147483648;
+        return state / 2147483648;
+    };
+
+    const samples = new Float32Array(seconds * sampleRate);
+    let loudness = 0;
+    for (let i = 0; i < samples.length; i++) {
+        if (i % (sampleRate / 20) === 0) {
+            loudness = random();
+        }
+        samples[i] = loudness * (random() * 2 - 1);
+    }
+    return samples;
+}
+
+describe('AudioSync', () => {
+    it('averages the absolute amplitude of each block', () => {
+        assert.deepEqual(AudioEnvelope(new Float32Array([1, -1, 0.5, -0.5, 1]), 2), new Float32Array([1, 0.5]));
+    });
+
+    describe('EstimateAudioOffset', () => {
+        const audio = CreateAudio(12);
+        const reference = audio.slice(4 * sampleRate, 8 * sampleRate);
+
+        it('finds the offset of a candidate playing late to the millisecond', () => {
+            // The reference window starts 1.237 s into the candidate
+            const candidate = audio.slice(2763, 2763 + 6 * sampleRate);
+            const estimate = EstimateAudioOffset(reference, candidate, sampleRate, 0, 2);
+
+            assert.equal(estimate?.offset, -1.237);
+            assert.ok(estimate.confidence > 0.9);
+        });
+
+        it('adds the lead of the candidate window to the offset', () => {
+            const candidate = audio.slice(4 * sampleRate, 10 * sampleRate);
+
+            assert.equal(EstimateAudioOffset(reference, candidate, sampleRate, 0.5, 1)?.offset, 0.5);
+        });
+
+        it('gives a low confidence for unrelated audio and no offset for silence', () => {
+            const estimate = EstimateAudioOffset(reference, CreateAudio(6, 2), sampleRate, 0, 1);
+
+            assert.ok(estimate && estimate.confidence < 0.5);
+            assert.equal(EstimateAudioOffset(reference, new Float32Array(6 * sampleRate), sampleRate, 0, 1), undefined);
+        });
+    });
+
+    it('rejects invalid options', () => {
+        assert.throws(() => ValidateAudioSyncOptions({ duration: 0.5 }), RangeError);
+        assert.throws(() => ValidateAudioSyncOptions({ maxOffset: 0 }), RangeError);
+        assert.throws(() => ValidateAudioSyncOptions({ sampleRate: 44150 }), RangeError);
+        assert.throws(() => ValidateAudioSyncOptions({ minConfidence: 2 }), RangeError);
+        assert.doesNotThrow(() => ValidateAudioSyncOptions({ start: 30, sampleRate: 16000 }));
+    });
+});
@@ -0,0 +1,161 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+import {
+    FfmpegCapabilities,
+    ParseFfmpegCodecs,
+    ParseFfmpegEncoders,
+    ParseFfmpegFilters,
+    ParseFfmpegFormats
+} from '../src/Capabilities.js';
+import { StreamIngredientType } from '../src/Ingredient.js';
+import { CapabilitiesLoadedEvent, VideoSalad } from '../src/VideoSalad.js';
+
+// Trimmed outputs of ffmpeg 6 lists
+const formatsOutput = [
+    'File formats:',
+    ' D. = Demuxing supported',
+    ' .E = Muxing supported',
+    ' --',
+    ' D  aac             raw ADTS AAC (Advanced Audio Coding)',
+    ' DEd fbdev          Linux framebuffer',
+    '  E matroska        Matroska',
+    ' D  matroska,webm   Matroska / WebM',
+    ' DE mp4             MP4 (MPEG-4 Part 14)'
+].join('\n');
+
+const codecsOutput = [
+    'Codecs:',
+    ' D..... = Decoding supported',
+    ' -------',
+    ' DEA.L. aac                  AAC (Advanced Audio Coding) (decoders: aac aac_fixed ) (encoders: aac )',
+    ' DEV.LS h264                 H.264 / AVC / MPEG-4 AVC / MPEG-4 part 10 (decoders: h264 h264_v4l2m2m ) (encoders: libx264 h264_nvenc )',
+    ' D.A.L. mlp                  MLP (Meridian Lossless Packing)',
+    ' DES... ass                  ASS (Advanced SSA) subtitle'
+].join('\n');
+
+const encodersOutput = [
+    'Encoders:',
+    ' V..... = Video',
+    ' ------',
+    ' V....D libx264              libx264 H.264 / AVC / MPEG-4 AVC / MPEG-4 part 10 (codec h264)',
+    ' A....D aac                  AAC (Advanced Audio Coding)',
+    ' A..X.D dca                  DCA (DTS Coherent Acoustics) (codec dts)',
+    ' A....D libopus              libopus Opus (codec opus)'
+].join('\n');
+
+const filtersOutput = [
+    'Filters:',
+    '  T.. = Timeline support',
+    ' TSC acompressor        A->A       Audio compressor.',
+    ' ... amix              N->A       Audio mixing.',
+    ' ... loudnorm          A->A       EBU R128 loudness normalization',
+    ' ... testsrc           |->V       Generate test pattern.'
+].join('\n');
+
+describe('Capabilities', () => {
+    it('parses formats and merges the demuxing and muxing entries of each alias', () => {
+        const formats = ParseFfmpegFormats(formatsOutput);
+
+        assert.deepEqual(Object.keys(formats).sort(), ['aac', 'fbdev', 'matroska', 'mp4', 'webm']);
+        assert.deepEqual(formats.matroska, { name: 'matroska', description: 'Matroska', canDemux: true, canMux: true, isDevice: false });
+        assert.equal(formats.webm.canMux, false);
+        assert.equal(formats.aac.canMux, false);
+        assert.equal(formats.fbdev.isDevice, true);
+    });
+
+    it('parses codecs with their decoders and encoders', () => {
+        const codecs = ParseFfmpegCodecs(codecsOutput);
+
+        assert.deepEqual(codecs.h264, {
+            name: 'h264',
+            description: 'H.264 / AVC / MPEG-4 AVC / MPEG-4 part 10',
+            type: StreamIngredientType.video,
+            canDecode: true,
+            canEncode: true,
+            decoders: ['h264', 'h264_v4l2m2m'],
+            encoders: ['libx264', 'h264_nvenc']
+        });
+        assert.deepEqual(codecs.mlp.encoders, []);
+        assert.deepEqual(codecs.ass.encoders, ['ass']);
+        assert.equal(codecs.ass.type, StreamIngredientType.subtitle);
+    });
+
+    it('parses encoders with their codec and experimental flag', () => {
+        const encoders = ParseFfmpegEncoders(encodersOutput);
+
+        assert.deepEqual(encoders.libopus, {
+            name: 'libopus',
+            description: 'libopus Opus',
+            type: StreamIngredientType.audio,
+            codec: 'opus',
+            experimental: false
+        });
+        assert.equal(encoders.aac.codec, 'aac');
+        assert.equal(encoders.dca.experimental, true);
+    });
+
+    it('parses filters with their inputs and outputs', () => {
+        const filters = ParseFfmpegFilters(filtersOutput);
+
+        assert.deepEqual(Object.keys(filters), ['acompressor', 'amix', 'loudnorm', 'testsrc']);
+        assert.deepEqual(filters.amix, { name: 'amix', description: 'Audio mixing.', input: 'N', output: 'A' });
+        assert.equal(filters.testsrc.input, '|');
+    });
+
+    it('checks encoders, codecs, muxers and filters', () => {
+        const capabilities = new FfmpegCapabilities(
+            ParseFfmpegFormats(formatsOutput),
+            ParseFfmpegCodecs(codecsOutput),
+            ParseFfmpegEncoders(encodersOutput),
+            ParseFfmpegFilters(filtersOutput)
+        );
+
+        assert.equal(capabilities.canEncode('libopus'), true);
+        assert.equal(capabilities.canEncode('h264'), true);
+        assert.equal(capabilities.canEncode('mlp'), false);
+        assert.equal(capabilities.canDecode('mlp'), true);
+        assert.equal(capabilities.canMux('matroska'), true);
+        assert.equal(capabilities.canMux('webm'), false);
+        assert.equal(capabilities.canDemux('webm'), true);
+        assert.equal(capabilities.hasFilter('loudnorm'), true);
+        assert.deepEqual(capabilities.muxers.map(({ name }) => name).sort(), ['fbdev', 'matroska', 'mp4']);
+    });
+
+    // Fake ffmpeg prints the list named by its last argument
+    describe('getCapabilities', { skip: process.platform === 'win32' }, () => {
+        let directory: string;
+        let ffmpegPath: string;
+
+        before(() => {
+            directory = fs.mkdtempSync(path.join(os.tmpdir(), 'video-salad-test-'));
+            ffmpegPath = path.join(directory, 'ffmpeg');
+
+            fs.writeFileSync(path.join(directory, 'formats'), formatsOutput);
+            fs.writeFileSync(path.join(directory, 'codecs'), codecsOutput);
+            fs.writeFileSync(path.join(directory, 'encoders'), encodersOutput);
+            fs.writeFileSync(path.join(directory, 'filters'), filtersOutput);
+            fs.writeFileSync(ffmpegPath, `#!/bin/sh\ncat "${directory}/\${2#-}"\n`, { mode: 0o755 });
+        });
+
+        after(() => {
+            fs.rmSync(directory, { recursive: true, force: true });
+        });
+
+        it('emits capabilitiesLoaded once the capabilities of the instance are loaded', async () => {
+            const videoSalad = new VideoSalad({ ffmpegPath, logger: { console: false, file: false } });
+            const events: CapabilitiesLoadedEvent[] = [];
+            videoSalad.on('capabilitiesLoaded', event => events.push(event));
+
+            const capabilities = await videoSalad.getCapabilities();
+            await videoSalad.getCapabilities();
+
+            assert.equal(capabilities.hasFilter('loudnorm'), true);
+            assert.equal(events.length, 1);
+            assert.equal(events[0].capabilities, capabilities);
+        });
+    });
+});
@@ -0,0 +1,74 @@
+import * as assert from 'node:assert/strict';
+import { describe, it, mock } from 'node:test';
+
+import { ChaptersFormat, DetectChaptersFormat, FormatChapterTime, ParseChapters, ParseChapterTime, SerializeChapters } from '../src/ChapterFormats.js';
+import { Chapter } from '../src/Ingredient.js';
+
+const chapters: Chapter[] = [
+    { id: 0, timeBase: '1/1000', start: 0, end: 90500, title: 'Opening' },
+    { id: 1, timeBase: '1/1000', start: 90500, end: 1200000, title: 'Part "A", B' }
+];
+
+// Start, end and title in seconds, ids and time bases depend on the format
+function ChapterTimes(parsedChapters: Chapter[]) {
+    return parsedChapters.map(({ timeBase, start, end, title }) => {
+        const [numerator, denominator = 1] = timeBase.split('/').map(Number);
+        return [start * numerator / denominator, end * numerator / denominator, title];
+    });
+}
+
+describe('ChapterFormats', () => {
+    it('parses seconds and timestamps', () => {
+        assert.equal(ParseChapterTime(90.5, 'csv'), 90.5);
+        assert.equal(ParseChapterTime('90.5', 'csv'), 90.5);
+        assert.equal(ParseChapterTime('01:30.500', 'csv'), 90.5);
+        assert.equal(ParseChapterTime('00:01:30.500000000', 'csv'), 90.5);
+        assert.equal(ParseChapterTime('1:01:30.5', 'csv'), 3690.5);
+        assert.throws(() => ParseChapterTime('01:00:01:30.5', 'csv'));
+    });
+
+    it('formats times as timestamps', () => {
+        assert.equal(FormatChapterTime(3690.5), '01:01:30.500');
+        assert.equal(FormatChapterTime(59.9996), '00:01:00.000');
+        assert.equal(FormatChapterTime(90.5, 0), '00:01:31');
+    });
+
+    (['ogm', 'matroska', 'ffmetadata', 'csv', 'json'] as ChaptersFormat[]).forEach(format => {
+        it(`serializes and parses ${format} chapters`, () => {
+            const text = SerializeChapters(chapters, format);
+
+            assert.equal(DetectChaptersFormat(text), format);
+            assert.deepEqual(ChapterTimes(ParseChapters(text, format, { duration: 1200 }).chapters), ChapterTimes(chapters));
+        });
+    });
+
+    it('ends open chapters at the next chapter and the last chapter at the duration', () => {
+        const { chapters: parsedChapters } = ParseChapters('[{ "start": 0, "title": "A" }, { "start": "01:00" }]', 'json', { duration: 120 });
+
+        assert.deepEqual(ChapterTimes(parsedChapters), [[0, 60, 'A'], [60, 120, '']]);
+    });
+
+    it('parses JSON chapters without writing to the console', () => {
+        const warn = mock.method(console, 'warn', () => undefined);
+        const log = mock.method(console, 'log', () => undefined);
+        try {
+            ParseChapters('[{ "start": 0, "end": "00:30", "title": "A" }]', 'json');
+
+            assert.equal(warn.mock.callCount(), 0);
+            assert.equal(log.mock.callCount(), 0);
+        } finally {
+            warn.mock.restore();
+            log.mock.restore();
+        }
+    });
+
+    it('rejects invalid JSON chapters', () => {
+        assert.throws(() => ParseChapters('[{ "title": "No start" }]', 'json'));
+        assert.throws(() => ParseChapters('[{ "start": true }]', 'json'));
+    });
+
+    it('detects the format from the file extension first', () => {
+        assert.equal(DetectChaptersFormat('CHAPTER01=00:00:00.000', 'chapters.csv'), 'csv');
+        assert.equal(DetectChaptersFormat('CHAPTER01=00:00:00.000\nCHAPTER01NAME=A'), 'ogm');
+    });
+});
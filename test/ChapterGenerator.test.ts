@@ -0,0 +1,109 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { FfprobeStream } from 'fluent-ffmpeg';
+
+import { BuildGeneratedChapters, GenerateChapters, GetChaptersDetectionFilter, GetIntervalBoundaries, ParseChaptersDetectionLine, ValidateChaptersGeneratorOptions } from '../src/ChapterGenerator.js';
+import { AudioIngredient, Chapter, VideoIngredient } from '../src/Ingredient.js';
+import { ChaptersDetectionError, ChaptersDetectionStreamError, ChaptersDurationError } from '../src/utils/errors/ChaptersError.js';
+import { RunInFfmpegEnvironment } from '../src/utils/ffmpeg/FfmpegEnvironment.js';
+
+function ChapterSeconds(chapters: Chapter[]) {
+    return chapters.map(({ start, end, title }) => [start / 1000, end / 1000, title]);
+}
+
+describe('ChapterGenerator', () => {
+    it('starts chapters at every interval', () => {
+        assert.deepEqual(GetIntervalBoundaries(300, 1000), [0, 300, 600, 900]);
+        assert.deepEqual(GetIntervalBoundaries(300, 900), [0, 300, 600]);
+    });
+
+    it('drops boundaries too close to the previous chapter or the end', () => {
+        const chapters = BuildGeneratedChapters([600, 10, 300, 320, 990], 1000, { title: '{number}. {start}' });
+
+        assert.deepEqual(ChapterSeconds(chapters), [
+            [0, 300, '1. 00:00:00.000'],
+            [300, 600, '2. 00:05:00.000'],
+            [600, 1000, '3. 00:10:00.000']
+        ]);
+        assert.deepEqual(chapters.map(({ id }) => id), [0, 1, 2]);
+    });
+
+    it('keeps every boundary without a minimum chapter duration', () => {
+        assert.deepEqual(
+            ChapterSeconds(BuildGeneratedChapters([0, 10, 990], 1000, { minChapterDuration: 0 })),
+            [[0, 10, 'Chapter 1'], [10, 990, 'Chapter 2'], [990, 1000, 'Chapter 3']]
+        );
+    });
+
+    it('rejects invalid options', () => {
+        assert.throws(() => ValidateChaptersGeneratorOptions({ method: 'interval', interval: 0 }), RangeError);
+        assert.throws(() => ValidateChaptersGeneratorOptions({ method: 'scene', threshold: 2 }), RangeError);
+        assert.throws(() => ValidateChaptersGeneratorOptions({ method: 'silence', noise: 10 }), RangeError);
+        assert.throws(() => ValidateChaptersGeneratorOptions({ method: 'black', minChapterDuration: -1 }), RangeError);
+    });
+
+    it('builds detection filters and parses their output', () => {
+        assert.deepEqual(GetChaptersDetectionFilter({ method: 'scene' }), ['-vf', `select='gt(scene,0.4)',showinfo`]);
+        assert.deepEqual(GetChaptersDetectionFilter({ method: 'black', minBlackDuration: 1 }), ['-vf', 'blackdetect=d=1:pic_th=0.98:pix_th=0.1']);
+        assert.deepEqual(GetChaptersDetectionFilter({ method: 'silence', noise: -40 }), ['-af', 'silencedetect=noise=-40dB:d=2']);
+
+        assert.equal(ParseChaptersDetectionLine('[Parsed_showinfo_1 @ 0x1] n:   3 pts:  90090 pts_time:3.003 duration:1001', 'scene'), 3.003);
+        assert.equal(ParseChaptersDetectionLine('[blackdetect @ 0x1] black_start:0 black_end:2.5 black_duration:2.5', 'black'), 2.5);
+        assert.equal(ParseChaptersDetectionLine('[silencedetect @ 0x1] silence_end: 95.5 | silence_duration: 3', 'silence'), 95.5);
+        assert.equal(ParseChaptersDetectionLine('[silencedetect @ 0x1] silence_start: 92.5', 'silence'), undefined);
+    });
+
+    // Fake ffmpeg prints the silence ends of the detection file next to the input, failing without one
+    describe('GenerateChapters', { skip: process.platform === 'win32' }, () => {
+        let directory: string;
+        let ffmpegPath: string;
+
+        function CreateAudioIngredient(silenceEnds?: number[]) {
+            const inputPath = path.join(directory, `audio-${silenceEnds?.length ?? 'failing'}.mka`);
+            if (silenceEnds) {
+                fs.writeFileSync(`${inputPath}.detection`, silenceEnds.map(end => `[silencedetect @ 0x1] silence_end: ${end} | silence_duration: 3\n`).join(''));
+            }
+            return new AudioIngredient(inputPath, { index: 0, codec_name: 'flac', codec_type: 'audio' } as FfprobeStream);
+        }
+
+        before(() => {
+            directory = fs.mkdtempSync(path.join(os.tmpdir(), 'video-salad-test-'));
+            ffmpegPath = path.join(directory, 'ffmpeg');
+            fs.writeFileSync(ffmpegPath, [
+                '#!/bin/sh',
+                // Only the null muxer is listed, other capability lists are empty
+                'case "$1" in -formats) echo "  E null            raw null video" ;; esac',
+                '[ $# -eq 1 ] && exit 0',
+                'while [ "$1" != "-i" ]; do shift; done',
+                'cat "$2.detection" >&2 || exit 1'
+            ].join('\n'), { mode: 0o755 });
+        });
+
+        after(() => {
+            fs.rmSync(directory, { recursive: true, force: true });
+        });
+
+        it('starts chapters where silence ends', async () => {
+            const ingredient = CreateAudioIngredient([95.5, 100, 1300]);
+            const chaptersIngredient = await RunInFfmpegEnvironment({ ffmpegPath }, () => GenerateChapters(ingredient, 1320, { method: 'silence' }));
+
+            assert.equal(chaptersIngredient.filePath, ingredient.filePath);
+            assert.deepEqual(
+                chaptersIngredient.sortedChapters.map(({ startSeconds, endSeconds, title }) => [startSeconds, endSeconds, title]),
+                [[0, 95.5, 'Chapter 1'], [95.5, 1320, 'Chapter 2']]
+            );
+        });
+
+        it('rejects failed detections, other stream types and unknown durations', async () => {
+            const ingredient = CreateAudioIngredient();
+            const video = new VideoIngredient(ingredient.filePath, { index: 0, codec_name: 'h264', codec_type: 'video' } as FfprobeStream);
+
+            await assert.rejects(RunInFfmpegEnvironment({ ffmpegPath }, () => GenerateChapters(ingredient, 1320, { method: 'silence' })), ChaptersDetectionError);
+            await assert.rejects(GenerateChapters(video, 1320, { method: 'silence' }), ChaptersDetectionStreamError);
+            await assert.rejects(GenerateChapters(ingredient, NaN, { method: 'interval', interval: 300 }), ChaptersDurationError);
+        });
+    });
+});
@@ -0,0 +1,142 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { ChaptersIngredient, ChaptersIngredientChapter } from '../src/Ingredient.js';
+import { IngredientChapterInvalidTimeError, IngredientChapterMissingEndError } from '../src/utils/errors/IngredientError.js';
+
+// Chapters 0 (0-60s) and 1 (60-90s) read from a media file
+function CreateChaptersIngredient() {
+    return new ChaptersIngredient('input.mkv', [
+        new ChaptersIngredientChapter(0, '1/1000', 0, 60000, 'Opening'),
+        new ChaptersIngredientChapter(1, '1/1000', 60000, 90000, 'Episode')
+    ]);
+}
+
+describe('ChaptersIngredient', () => {
+    it('is not modified until a chapter is edited', () => {
+        const chaptersIngredient = CreateChaptersIngredient();
+
+        assert.equal(chaptersIngredient.isModified, false);
+        assert.equal(chaptersIngredient.buildChaptersText(), undefined);
+    });
+
+    it('adds a chapter in the chapter containing its start', () => {
+        const chaptersIngredient = CreateChaptersIngredient();
+        chaptersIngredient.edit([{ type: 'add', start: 30, title: 'Middle' }]);
+
+        assert.deepEqual(
+            chaptersIngredient.sortedChapters.map(({ title, startSeconds, endSeconds }) => [title, startSeconds, endSeconds]),
+            [['Opening', 0, 30], ['Middle', 30, 60], ['Episode', 60, 90]]
+        );
+        assert.equal(chaptersIngredient.isModified, true);
+    });
+
+    it('ends a chapter appended after the last chapter at the media duration', () => {
+        const chaptersIngredient = CreateChaptersIngredient();
+        chaptersIngredient.edit([{ type: 'add', start: 90, title: 'Credits' }], 120);
+
+        assert.deepEqual(
+            chaptersIngredient.sortedChapters.map(({ title, startSeconds, endSeconds }) => [title, startSeconds, endSeconds]),
+            [['Opening', 0, 60], ['Episode', 60, 90], ['Credits', 90, 120]]
+        );
+    });
+
+    it('requires the end of an appended chapter when the media duration is unknown', () => {
+        const chaptersIngredient = CreateChaptersIngredient();
+
+        assert.throws(() => chaptersIngredient.edit([{ type: 'add', start: 90, title: 'Credits' }]), IngredientChapterMissingEndError);
+        assert.throws(() => chaptersIngredient.edit([{ type: 'add', start: 120, title: 'Credits' }], 120), IngredientChapterMissingEndError);
+        assert.equal(chaptersIngredient.isModified, false);
+    });
+
+    it('rejects a chapter added at the start of another chapter', () => {
+        const chaptersIngredient = CreateChaptersIngredient();
+
+        assert.throws(() => chaptersIngredient.edit([{ type: 'add', start: 60, title: 'Episode' }], 120), IngredientChapterInvalidTimeError);
+        assert.equal(chaptersIngredient.chapters.length, 2);
+    });
+
+    it('does not reuse the id of a removed chapter', () => {
+        const chaptersIngredient = CreateChaptersIngredient();
+        chaptersIngredient.edit([
+            { type: 'remove', chapterId: 1 },
+            { type: 'add', start: 90, end: 120, title: 'New' }
+        ]);
+
+        assert.deepEqual(chaptersIngredient.chapters.map(({ id }) => id), [0, 2]);
+        assert.equal(chaptersIngredient.isModified, true);
+        assert.match(chaptersIngredient.buildChaptersText() ?? '', /title=New/);
+
+        const state = chaptersIngredient.exportState();
+        assert.deepEqual(state.removedChapterIds, [1]);
+        assert.deepEqual(state.added?.map(({ id, title }) => [id, title]), [[2, 'New']]);
+    });
+
+    it('does not reuse ids after an edit is rolled back', () => {
+        const chaptersIngredient = CreateChaptersIngredient();
+        assert.throws(() => chaptersIngredient.edit([
+            { type: 'add', start: 100, end: 110, title: 'Rolled back' },
+            { type: 'remove', chapterId: 5 }
+        ]));
+        chaptersIngredient.edit([{ type: 'add', start: 100, end: 110, title: 'Kept' }]);
+
+        assert.equal(chaptersIngredient.addedChapters.length, 1);
+        assert.equal(chaptersIngredient.removedChapterIds.length, 0);
+    });
+
+    it('rejects edits resulting in overlapping chapters and keeps the previous chapters', () => {
+        const chaptersIngredient = CreateChaptersIngredient();
+        assert.throws(() => chaptersIngredient.edit([{ type: 'update', chapterId: 1, start: 30 }]));
+
+        assert.equal(chaptersIngredient.getChapter(1).startSeconds, 60);
+        assert.equal(chaptersIngredient.isModified, false);
+    });
+
+    it('splits and merges chapters', () => {
+        const chaptersIngredient = CreateChaptersIngredient();
+        const [splitChapter] = chaptersIngredient.edit([{ type: 'split', chapterId: 0, at: 20, title: 'Cold open' }])
+            .filter(({ title }) => title === 'Cold open');
+
+        assert.equal(splitChapter.startSeconds, 20);
+        assert.equal(chaptersIngredient.getChapter(0).endSeconds, 20);
+
+        chaptersIngredient.edit([{ type: 'merge', chapterId: 0 }]);
+        assert.deepEqual(chaptersIngredient.chapters.map(({ id }) => id), [0, 1]);
+        assert.equal(chaptersIngredient.getChapter(0).endSeconds, 60);
+    });
+
+    it('keeps the edits of the copied ingredient', () => {
+        const chaptersIngredient = CreateChaptersIngredient();
+        chaptersIngredient.edit([
+            { type: 'remove', chapterId: 1 },
+            { type: 'add', start: 90, end: 120, title: 'New' }
+        ]);
+        const copiedIngredient = chaptersIngredient.copy();
+
+        assert.equal(copiedIngredient.isModified, true);
+        assert.deepEqual(copiedIngredient.removedChapterIds, [1]);
+        assert.deepEqual(copiedIngredient.addedChapters.map(({ id }) => id), [2]);
+
+        copiedIngredient.edit([{ type: 'add', start: 120, end: 130, title: 'After copy' }]);
+        assert.deepEqual(copiedIngredient.chapters.map(({ id }) => id), [0, 2, 3]);
+    });
+
+    it('imports the exported state into a new ingredient', () => {
+        const chaptersIngredient = CreateChaptersIngredient();
+        chaptersIngredient.edit([
+            { type: 'update', chapterId: 0, title: 'Intro' },
+            { type: 'remove', chapterId: 1 },
+            { type: 'add', start: 90, end: 120, title: 'New' }
+        ]);
+
+        const importedIngredient = CreateChaptersIngredient();
+        assert.deepEqual(importedIngredient.importState(chaptersIngredient.exportState()), []);
+        assert.deepEqual(
+            importedIngredient.chapters.map(({ id, title }) => [id, title]),
+            [[0, 'Intro'], [2, 'New']]
+        );
+
+        importedIngredient.edit([{ type: 'add', start: 120, end: 130, title: 'After import' }]);
+        assert.equal(importedIngredient.getChapter(3).title, 'After import');
+    });
+});
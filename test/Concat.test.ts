@@ -0,0 +1,87 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+import { IngredientBowl } from '../src/Bowl.js';
+import { GetConcatMethod, GetConcatParts, MergeConcatChapters } from '../src/Concat.js';
+import { Chapter } from '../src/Ingredient.js';
+import { RunInFfmpegEnvironment } from '../src/utils/ffmpeg/FfmpegEnvironment.js';
+
+interface FakePart {
+    duration: number;
+    sampleRate?: number;
+    title?: string;
+    chapters?: [number, number, string][]; // Start and end in milliseconds, title
+}
+
+function ChapterSeconds(chapters: Chapter[]) {
+    return chapters.map(({ id, start, end, title }) => [id, start / 1000, end / 1000, title]);
+}
+
+// Parts are probed by a fake ffprobe printing the probe file next to the input
+describe('Concat', { skip: process.platform === 'win32' }, () => {
+    let directory: string;
+    let ffprobePath: string;
+
+    async function ImportPart(name: string, { duration, sampleRate = 48000, title, chapters = [] }: FakePart) {
+        const inputPath = path.join(directory, `${name}.mka`);
+        const probeOutput = [
+            '[STREAM]', 'index=0', 'codec_name=flac', 'codec_type=audio', `sample_rate=${sampleRate}`, 'channels=2', '[/STREAM]',
+            ...chapters.flatMap(([start, end, chapterTitle], id) => [
+                '[CHAPTER]', `id=${id}`, 'time_base=1/1000', `start=${start}`, `end=${end}`, `TAG:title=${chapterTitle}`, '[/CHAPTER]'
+            ]),
+            '[FORMAT]', `filename=${inputPath}`, 'nb_streams=1', 'format_name=matroska,webm', `duration=${duration}`,
+            ...(title ? [`TAG:title=${title}`] : []),
+            '[/FORMAT]'
+        ].join('\n');
+        fs.writeFileSync(inputPath, '');
+        fs.writeFileSync(`${inputPath}.probe`, probeOutput);
+
+        return RunInFfmpegEnvironment({ ffprobePath }, () => IngredientBowl.Initialize(inputPath));
+    }
+
+    before(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'video-salad-test-'));
+        ffprobePath = path.join(directory, 'ffprobe');
+        fs.writeFileSync(ffprobePath, '#!/bin/sh\nfor input; do :; done\ncat "$input.probe"\n', { mode: 0o755 });
+    });
+
+    after(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('places every part after the previous one', async () => {
+        const parts = [await ImportPart('op', { duration: 90 }), await ImportPart('episode', { duration: 1200.5 })];
+
+        assert.deepEqual(GetConcatParts(parts).map(({ offset, duration }) => [offset, duration]), [[0, 90], [90, 1200.5]]);
+    });
+
+    it('merges the chapters of every part, titling parts without chapters after the part', async () => {
+        const parts = [
+            await ImportPart('op', { duration: 90, title: 'Opening' }),
+            await ImportPart('episode', {
+                duration: 600,
+                chapters: [[0, 300000, 'Part A'], [300000, 610000, 'Part B'], [650000, 700000, 'After the end']]
+            }),
+            await ImportPart('ed', { duration: 90 })
+        ];
+
+        assert.deepEqual(ChapterSeconds(MergeConcatChapters(parts)), [
+            [0, 0, 90, 'Opening'],
+            [1, 90, 390, 'Part A'],
+            [2, 390, 690, 'Part B'],
+            [3, 690, 780, 'ed']
+        ]);
+    });
+
+    it('stream copies parts with the same codec parameters only', async () => {
+        const first = await ImportPart('first', { duration: 60 });
+        const same = await ImportPart('same', { duration: 30 });
+        const resampled = await ImportPart('resampled', { duration: 30, sampleRate: 44100 });
+
+        assert.equal(GetConcatMethod([first, same], first.ingredients), 'demuxer');
+        assert.equal(GetConcatMethod([first, resampled], first.ingredients), 'filter');
+    });
+});
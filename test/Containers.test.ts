@@ -0,0 +1,83 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { FfprobeStream } from 'fluent-ffmpeg';
+
+import { MixingBowl } from '../src/Bowl.js';
+import { GetContainerCodecSupport, GetContainerFormat, GetElementaryStreamFormat, SUPPORTED_FORMATS } from '../src/Containers.js';
+import { AttachmentIngredient, AudioIngredient, StreamIngredientType, SubtitleIngredient, VideoIngredient } from '../src/Ingredient.js';
+
+describe('Containers', () => {
+    it('finds container formats by extension', () => {
+        assert.equal(GetContainerFormat('.MKV'), SUPPORTED_FORMATS.mkv);
+        assert.equal(GetContainerFormat('m4a')?.ffmpegName, 'ipod');
+        assert.equal(GetContainerFormat('.xyz'), undefined);
+    });
+
+    it('checks codec support, falling back to any codec', () => {
+        assert.equal(GetContainerCodecSupport(SUPPORTED_FORMATS.mkv, StreamIngredientType.audio, 'truehd'), 'full');
+        assert.equal(GetContainerCodecSupport(SUPPORTED_FORMATS.mkv, StreamIngredientType.subtitle, 'dvb_subtitle'), 'limited');
+        assert.equal(GetContainerCodecSupport(SUPPORTED_FORMATS.mkv, StreamIngredientType.subtitle, 'mov_text'), undefined);
+        assert.equal(GetContainerCodecSupport(SUPPORTED_FORMATS.mp4, StreamIngredientType.video, 'vp9'), 'limited');
+        assert.equal(GetContainerCodecSupport(SUPPORTED_FORMATS.mp4, StreamIngredientType.attachment, 'ttf'), undefined);
+    });
+
+    it('finds the elementary stream format of a codec', () => {
+        assert.equal(GetElementaryStreamFormat(StreamIngredientType.subtitle, 'ass')?.name, 'ass');
+        assert.equal(GetElementaryStreamFormat(StreamIngredientType.audio, 'flac')?.name, 'flac');
+        assert.equal(GetElementaryStreamFormat(StreamIngredientType.audio, 'truehd'), undefined);
+    });
+
+    describe('MixingBowl.validate', () => {
+        function CreateMixingBowl(output: string) {
+            const mixingBowl = new MixingBowl(output);
+            mixingBowl.addIngredient(new VideoIngredient('input.mkv', { index: 0, codec_name: 'vp9', codec_type: 'video' } as FfprobeStream));
+            mixingBowl.addIngredient(new AudioIngredient('input.mkv', { index: 1, codec_name: 'flac', codec_type: 'audio' } as FfprobeStream));
+            mixingBowl.addIngredient(new SubtitleIngredient('input.mkv', { index: 2, codec_name: 'ass', codec_type: 'subtitle' } as FfprobeStream));
+            mixingBowl.addIngredient(new AttachmentIngredient('input.mkv', { index: 3, codec_name: 'ttf', codec_type: 'attachment' } as FfprobeStream));
+            return mixingBowl;
+        }
+
+        it('accepts every ingredient in Matroska', () => {
+            const validation = CreateMixingBowl('output.mkv').validate();
+
+            assert.equal(validation.valid, true);
+            assert.equal(validation.container, 'mkv');
+            assert.deepEqual([...validation.errors, ...validation.warnings], []);
+        });
+
+        it('reports unsupported stream types, unsupported codecs and limited support', () => {
+            const mixingBowl = CreateMixingBowl('output.mp4');
+            const [video, audio, subtitle, attachment] = mixingBowl.ingredients;
+            const validation = mixingBowl.validate();
+
+            assert.equal(validation.valid, false);
+            assert.deepEqual(
+                validation.errors.map(({ code, ingredientId }) => [code, ingredientId]),
+                [['unsupportedCodec', subtitle.id], ['unsupportedStreamType', attachment.id]]
+            );
+            assert.deepEqual(
+                validation.warnings.map(({ code, ingredientId }) => [code, ingredientId]),
+                [['limitedCodecSupport', video.id], ['limitedCodecSupport', audio.id]]
+            );
+        });
+
+        it('checks pending conversions instead of the original codec', () => {
+            const mixingBowl = CreateMixingBowl('output.mp4');
+            const [video, audio, subtitle] = mixingBowl.ingredients as [VideoIngredient, AudioIngredient, SubtitleIngredient];
+            video.convert({ codec: 'h264' });
+            audio.convert({ codec: 'aac' });
+            subtitle.convert({ codec: 'mov_text' });
+            const validation = mixingBowl.validate();
+
+            assert.deepEqual(validation.errors.map(({ code, codec }) => [code, codec]), [['unsupportedStreamType', 'ttf']]);
+            assert.deepEqual(validation.warnings, []);
+        });
+
+        it('warns about unknown containers', () => {
+            const validation = CreateMixingBowl('output.xyz').validate();
+
+            assert.equal(validation.valid, true);
+            assert.deepEqual(validation.warnings.map(({ code }) => code), ['unknownContainer']);
+        });
+    });
+});
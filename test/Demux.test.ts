@@ -0,0 +1,53 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { FfprobeStream } from 'fluent-ffmpeg';
+
+import { IngredientBowl } from '../src/Bowl.js';
+import { SUPPORTED_FORMATS } from '../src/Containers.js';
+import { DemuxOutputReceives, GetDemuxFormat, GetDemuxVariables } from '../src/Demux.js';
+import { AudioIngredient, StreamIngredientType, SubtitleIngredient, VideoIngredient } from '../src/Ingredient.js';
+
+const video = new VideoIngredient('movie.mkv', { index: 0, codec_name: 'h264', codec_type: 'video' } as FfprobeStream);
+const audio = new AudioIngredient('movie.mkv', { index: 1, codec_name: 'truehd', codec_type: 'audio', tags: { language: 'jpn' } } as FfprobeStream);
+const subtitles = new SubtitleIngredient('movie.mkv', { index: 2, codec_name: 'subrip', codec_type: 'subtitle', tags: { title: 'Signs' } } as FfprobeStream);
+
+describe('Demux', () => {
+    it('writes streams to the Matroska container of their type', () => {
+        assert.equal(GetDemuxFormat(video), SUPPORTED_FORMATS.mkv);
+        assert.equal(GetDemuxFormat(audio), SUPPORTED_FORMATS.mka);
+        assert.equal(GetDemuxFormat(subtitles), SUPPORTED_FORMATS.mks);
+    });
+
+    it('extracts elementary streams when the codec has an elementary stream format', () => {
+        assert.equal(GetDemuxFormat(video, true).name, 'h264');
+        assert.equal(GetDemuxFormat(subtitles, true).name, 'srt');
+        // TrueHD has no elementary stream format
+        assert.equal(GetDemuxFormat(audio, true), SUPPORTED_FORMATS.mka);
+    });
+
+    it('adds attachments and chapters to the selected containers only', () => {
+        assert.equal(DemuxOutputReceives(SUPPORTED_FORMATS.mks, subtitles, StreamIngredientType.subtitle), true);
+        assert.equal(DemuxOutputReceives(SUPPORTED_FORMATS.mka, audio, StreamIngredientType.subtitle), false);
+        assert.equal(DemuxOutputReceives(SUPPORTED_FORMATS.mka, audio, 'all'), true);
+        assert.equal(DemuxOutputReceives(SUPPORTED_FORMATS.mkv, video, 'none'), false);
+        // Elementary streams cannot hold them
+        assert.equal(DemuxOutputReceives(SUPPORTED_FORMATS.srt, subtitles, 'all'), false);
+    });
+
+    it('names outputs after the Ingredient Bowl and the stream', () => {
+        const ingredientBowl = { path: '/videos/movie.mkv' } as IngredientBowl;
+
+        assert.deepEqual(GetDemuxVariables(ingredientBowl, subtitles, SUPPORTED_FORMATS.srt), {
+            stem: 'movie',
+            dir: '/videos',
+            id: subtitles.id,
+            index: 2,
+            type: 'subtitle',
+            codec: 'srt',
+            language: 'und',
+            title: 'Signs',
+            ext: 'srt'
+        });
+        assert.equal(GetDemuxVariables(ingredientBowl, audio, SUPPORTED_FORMATS.mka).language, 'jpn');
+    });
+});
@@ -0,0 +1,76 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import Ffmpeg from 'fluent-ffmpeg';
+
+import { CreateFfmpegCommand, GetTempDir, RunInFfmpegEnvironment } from '../src/utils/ffmpeg/FfmpegEnvironment.js';
+import { VideoSalad } from '../src/VideoSalad.js';
+
+// fluent-ffmpeg lookup of the ffmpeg binary of a command
+function GetCommandFfmpegPath(command: ReturnType<typeof CreateFfmpegCommand>) {
+    return new Promise<string>((resolve, reject) => {
+        (command as unknown as { _getFfmpegPath(callback: (error: Error | null, path: string) => void): void })
+            ._getFfmpegPath((error, ffmpegPath) => error ? reject(error) : resolve(ffmpegPath));
+    });
+}
+
+describe('FfmpegEnvironment', () => {
+    it('creates commands running the binaries of the current environment', async () => {
+        const command = RunInFfmpegEnvironment({ ffmpegPath: '/opt/ffmpeg-6/ffmpeg' }, () => CreateFfmpegCommand());
+
+        assert.equal(await GetCommandFfmpegPath(command), '/opt/ffmpeg-6/ffmpeg');
+    });
+
+    // The public path setters are process-wide, per-instance paths break if fluent-ffmpeg drops its private lookups
+    it('relies on binary lookups fluent-ffmpeg still provides', () => {
+        const prototype = Ffmpeg.prototype as unknown as Record<string, unknown>;
+
+        assert.equal(typeof prototype._getFfmpegPath, 'function');
+        assert.equal(typeof prototype._getFfprobePath, 'function');
+    });
+
+    it('uses the temporary directory of the current environment', () => {
+        assert.equal(RunInFfmpegEnvironment({ tempDir: '/scratch' }, () => GetTempDir()), '/scratch');
+        assert.equal(GetTempDir(), os.tmpdir());
+    });
+
+    // Fake ffmpeg records its arguments, fake ffprobe reports a single audio stream
+    describe('binaries of a VideoSalad', { skip: process.platform === 'win32' }, () => {
+        let directory: string;
+        let ffmpegPath: string;
+        let ffprobePath: string;
+        let inputPath: string;
+
+        before(() => {
+            directory = fs.mkdtempSync(path.join(os.tmpdir(), 'video-salad-test-'));
+            ffmpegPath = path.join(directory, 'ffmpeg');
+            ffprobePath = path.join(directory, 'ffprobe');
+            inputPath = path.join(directory, 'input.mka');
+
+            // fluent-ffmpeg parses the default ffprobe output format
+            const probeOutput = [
+                '[STREAM]', 'index=0', 'codec_name=flac', 'codec_type=audio', 'channels=2', '[/STREAM]',
+                '[FORMAT]', `filename=${inputPath}`, 'nb_streams=1', 'format_name=matroska,webm', 'duration=10.000000', '[/FORMAT]'
+            ].join('\n');
+            fs.writeFileSync(ffmpegPath, `#!/bin/sh\necho "$@" >> "${directory}/ffmpeg.log"\nexit 1\n`, { mode: 0o755 });
+            fs.writeFileSync(ffprobePath, `#!/bin/sh\necho '${probeOutput}'\n`, { mode: 0o755 });
+            fs.writeFileSync(inputPath, '');
+        });
+
+        after(() => {
+            fs.rmSync(directory, { recursive: true, force: true });
+        });
+
+        it('mixes Mixing Bowls called directly with the binaries of the instance that created them', async () => {
+            const videoSalad = new VideoSalad({ ffmpegPath, ffprobePath, logger: { console: false, file: false } });
+            const [ingredientBowl] = await videoSalad.importBowls([inputPath]);
+            const [mixingBowl] = await videoSalad.createBowls([path.join(directory, 'output.mka')]);
+            await videoSalad.addIngredientToBowl(mixingBowl.id, ingredientBowl.ingredients[0].id);
+
+            await assert.rejects(mixingBowl.mix());
+            assert.ok(fs.existsSync(path.join(directory, 'ffmpeg.log')));
+        });
+    });
+});
@@ -0,0 +1,127 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { CommandJournal, HistoryCreation, HistorySubject } from '../src/History.js';
+import { VideoSaladTransactionError, VideoSaladType } from '../src/utils/errors/VideoSaladError.js';
+
+interface Counter {
+    value: number;
+}
+
+function CounterSubject(counter: Counter, id = 0): HistorySubject {
+    return {
+        target: { type: VideoSaladType.MixingBowl, id },
+        snapshot: () => {
+            const { value } = counter;
+            return () => {
+                counter.value = value;
+            };
+        }
+    };
+}
+
+// Command adding to the counter, recorded by the journal
+function Add(journal: CommandJournal, counter: Counter, amount: number, commandId = 0) {
+    return journal.record('add', commandId, [CounterSubject(counter)], async () => {
+        counter.value += amount;
+        return counter.value;
+    });
+}
+
+describe('CommandJournal', () => {
+    it('undoes and redoes recorded commands', async () => {
+        const journal = new CommandJournal();
+        const counter = { value: 0 };
+        await Add(journal, counter, 1, 0);
+        await Add(journal, counter, 2, 1);
+
+        assert.equal(journal.undo()?.commandIds[0], 1);
+        assert.equal(counter.value, 1);
+        journal.undo();
+        assert.equal(counter.value, 0);
+        assert.equal(journal.undo(), undefined);
+
+        journal.redo();
+        assert.equal(counter.value, 1);
+        assert.deepEqual(journal.state.redo.map(({ commandIds }) => commandIds), [[1]]);
+    });
+
+    it('drops the undone commands once a new command is recorded', async () => {
+        const journal = new CommandJournal();
+        const counter = { value: 0 };
+        await Add(journal, counter, 1);
+        journal.undo();
+        await Add(journal, counter, 5);
+
+        assert.equal(journal.canRedo, false);
+        assert.equal(journal.state.undo.length, 1);
+    });
+
+    it('restores the subjects and records nothing when a command throws', async () => {
+        const journal = new CommandJournal();
+        const counter = { value: 0 };
+        await assert.rejects(journal.record('fail', 0, [CounterSubject(counter)], async () => {
+            counter.value = 10;
+            throw new Error('Failed');
+        }));
+
+        assert.equal(counter.value, 0);
+        assert.equal(journal.canUndo, false);
+    });
+
+    it('discards created objects on undo and restores them on redo', async () => {
+        const journal = new CommandJournal();
+        const registry = new Map<number, Counter>();
+        const created: HistoryCreation[] = [];
+
+        await journal.record('create', 0, [], async () => {
+            const counter = { value: 3 };
+            registry.set(7, counter);
+            created.push({
+                ...CounterSubject(counter, 7),
+                snapshot: () => () => registry.set(7, counter),
+                discard: () => registry.delete(7)
+            });
+        }, () => created);
+
+        journal.undo();
+        assert.equal(registry.has(7), false);
+        journal.redo();
+        assert.equal(registry.get(7)?.value, 3);
+        assert.deepEqual(journal.state.undo[0].targets, [{ type: VideoSaladType.MixingBowl, id: 7 }]);
+    });
+
+    it('records a transaction as a single entry and undoes it entirely when it throws', async () => {
+        const journal = new CommandJournal();
+        const counter = { value: 0 };
+        await journal.transaction('batch', async () => {
+            await Add(journal, counter, 1, 0);
+            assert.throws(() => journal.undo(), VideoSaladTransactionError);
+            await Add(journal, counter, 2, 1);
+        });
+
+        assert.deepEqual(journal.state.undo.map(({ label, commandIds }) => [label, commandIds]), [['batch', [0, 1]]]);
+        journal.undo();
+        assert.equal(counter.value, 0);
+
+        await assert.rejects(journal.transaction('failed', async () => {
+            await Add(journal, counter, 4);
+            throw new Error('Failed');
+        }));
+        assert.equal(counter.value, 0);
+        assert.equal(journal.state.undo.length, 0);
+    });
+
+    it('keeps the most recent entries within the limit', async () => {
+        const journal = new CommandJournal(2);
+        const counter = { value: 0 };
+        for (let commandId = 0; commandId < 3; commandId++) {
+            await Add(journal, counter, 1, commandId);
+        }
+
+        assert.deepEqual(journal.state.undo.map(({ commandIds }) => commandIds[0]), [1, 2]);
+        journal.limit = 1;
+        assert.deepEqual(journal.state.undo.map(({ commandIds }) => commandIds[0]), [2]);
+        assert.throws(() => new CommandJournal(0), RangeError);
+    });
+});
@@ -0,0 +1,83 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { FfprobeStream } from 'fluent-ffmpeg';
+
+import { METADATA_INPUT, MixingBowl } from '../src/Bowl.js';
+import { AudioIngredient, ChaptersIngredient, ChaptersIngredientChapter, SubtitleIngredient, VideoIngredient } from '../src/Ingredient.js';
+import { BowlMixInvalidOutputError, BowlMixNoIngredientsError, BowlMixNoOutputError, BowlMixValidationError } from '../src/utils/errors/BowlError.js';
+
+// Video and audio of movie.mkv, with its chapters
+function CreateMixingBowl(output = 'output.mkv') {
+    const mixingBowl = new MixingBowl(output);
+    mixingBowl.addIngredient(new VideoIngredient('movie.mkv', { index: 0, codec_name: 'h264', codec_type: 'video' } as FfprobeStream));
+    mixingBowl.addIngredient(new AudioIngredient('movie.mkv', { index: 1, codec_name: 'flac', codec_type: 'audio' } as FfprobeStream));
+    mixingBowl.chapters = new ChaptersIngredient('movie.mkv', [new ChaptersIngredientChapter(0, '1/1000', 0, 60000, 'Opening')]);
+    return mixingBowl;
+}
+
+describe('MixingBowl.plan', () => {
+    it('reads streams of the same file and delay from one input', async () => {
+        const mixingBowl = CreateMixingBowl();
+        mixingBowl.tags = { title: 'Movie' };
+        const plan = await mixingBowl.plan();
+
+        assert.deepEqual(plan.args, [
+            '-i', METADATA_INPUT, '-y',
+            '-i', 'movie.mkv',
+            '-map_chapters', '1',
+            '-map', '1:0', '-c:0', 'copy', '-map_metadata:s:0', '1:s:0',
+            '-map', '1:1', '-c:1', 'copy', '-map_metadata:s:1', '1:s:1',
+            '-metadata', 'title=Movie',
+            'output.mkv'
+        ]);
+        assert.deepEqual(plan.inputs.map(({ inputIndex, source }) => [inputIndex, source]), [[0, METADATA_INPUT], [1, 'movie.mkv']]);
+        assert.equal(plan.chaptersText, ';FFMETADATA1\n');
+        assert.equal(plan.customChapters, false);
+    });
+
+    it('reads delayed streams from their own input and places converted streams in bowl order', async () => {
+        const mixingBowl = CreateMixingBowl();
+        const [video, audio] = mixingBowl.ingredients as [VideoIngredient, AudioIngredient];
+        mixingBowl.addIngredient(new SubtitleIngredient('movie.en.ass', { index: 0, codec_name: 'ass', codec_type: 'subtitle' } as FfprobeStream));
+        audio.delay = 0.5;
+        audio.convert({ codec: 'aac', bitrate: 128000 });
+        const plan = await mixingBowl.plan();
+
+        assert.deepEqual(plan.options, [
+            '-i', 'movie.mkv',
+            '-itsoffset', '0.500', '-i', 'movie.mkv',
+            '-i', 'movie.en.ass',
+            '-map_chapters', '1',
+            '-map', '1:0', '-c:0', 'copy', '-map_metadata:s:0', '1:s:0',
+            '-map', '2:1', '-map_metadata:s:1', '2:s:1', '-c:1', 'aac', '-b:1', '128000',
+            '-map', '3:0', '-c:2', 'copy', '-map_metadata:s:2', '3:s:0'
+        ]);
+        assert.deepEqual(
+            plan.inputs.slice(1).map(({ delay, ingredients }) => [delay, ingredients.map(({ ingredientId }) => ingredientId)]),
+            [[0, [video.id]], [0.5, [audio.id]], [0, [mixingBowl.ingredients[2].id]]]
+        );
+        assert.deepEqual(plan.syncs.map(({ ingredientId, strategy }) => [ingredientId, strategy]), [[audio.id, 'offset']]);
+    });
+
+    it('pipes edited chapters and drops the chapters of the inputs once every chapter is removed', async () => {
+        const mixingBowl = CreateMixingBowl();
+        mixingBowl.chapters?.edit([{ type: 'update', chapterId: 0, title: 'Intro' }]);
+        const edited = await mixingBowl.plan();
+
+        assert.equal(edited.customChapters, true);
+        assert.match(edited.chaptersText, /title=Intro/);
+        assert.equal(edited.args.includes('-map_chapters'), false);
+
+        mixingBowl.chapters?.edit([{ type: 'remove', chapterId: 0 }]);
+        const removed = await mixingBowl.plan();
+
+        assert.deepEqual(removed.options.slice(0, 4), ['-i', 'movie.mkv', '-map_chapters', '-1']);
+    });
+
+    it('rejects bowls that cannot be mixed', async () => {
+        await assert.rejects(CreateMixingBowl('').plan(), BowlMixNoOutputError);
+        await assert.rejects(new MixingBowl('output.mkv').plan(), BowlMixNoIngredientsError);
+        await assert.rejects(CreateMixingBowl('movie.mkv').plan(), BowlMixInvalidOutputError);
+        await assert.rejects(CreateMixingBowl('output.webm').plan(), BowlMixValidationError);
+    });
+});
@@ -0,0 +1,166 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+import { MixingBowl, MixingBowlStatus } from '../src/Bowl.js';
+import { MixingQueue } from '../src/MixingQueue.js';
+import { BowlMixCanceledError } from '../src/utils/errors/BowlError.js';
+import { VideoSalad } from '../src/VideoSalad.js';
+
+// Fake ffmpeg logs the output it writes, outputs named hold-* keep mixing until they are killed
+describe('MixingQueue', { skip: process.platform === 'win32' }, () => {
+    let directory: string;
+    let logPath: string;
+    let videoSalad: VideoSalad;
+
+    // Mixing Bowls with the audio of the input, mixed by the fake ffmpeg
+    async function CreateMixingBowls(names: string[]) {
+        const [ingredientBowl] = await videoSalad.importBowls([path.join(directory, 'input.mka')]);
+        const mixingBowls = await videoSalad.createBowls(names.map(name => path.join(directory, `${name}.mka`)));
+        for (const mixingBowl of mixingBowls) {
+            await videoSalad.addIngredientToBowl(mixingBowl.id, ingredientBowl.ingredients[0].id);
+        }
+        return mixingBowls;
+    }
+
+    // Names of the outputs ffmpeg started writing, in order
+    function MixedOutputs() {
+        return fs.existsSync(logPath) ? fs.readFileSync(logPath, 'utf8').trim().split('\n').map(output => path.basename(output, '.mka')) : [];
+    }
+
+    // Resolves once ffmpeg runs for the bowl
+    function WaitForFfmpeg(statuses: Map<number, MixingBowlStatus[]>, mixingBowl: MixingBowl) {
+        return new Promise<void>((resolve) => {
+            const poll = setInterval(() => {
+                if (statuses.get(mixingBowl.id)?.some(({ fullFfmpegCommand }) => fullFfmpegCommand)) {
+                    clearInterval(poll);
+                    resolve();
+                }
+            }, 10);
+        });
+    }
+
+    function CreateQueue(maxConcurrentMixes = 1, onStatusChange?: (bowl: MixingBowl, status: MixingBowlStatus) => void) {
+        const statuses = new Map<number, MixingBowlStatus[]>();
+        const queue = new MixingQueue({
+            maxConcurrentMixes,
+            onStatusChange: (bowl, status) => {
+                statuses.set(bowl.id, [...statuses.get(bowl.id) ?? [], status]);
+                onStatusChange?.(bowl, status);
+            }
+        });
+        return { queue, statuses };
+    }
+
+    before(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'video-salad-test-'));
+        logPath = path.join(directory, 'ffmpeg.log');
+        const ffmpegPath = path.join(directory, 'ffmpeg');
+        const ffprobePath = path.join(directory, 'ffprobe');
+
+        const probeOutput = [
+            '[STREAM]', 'index=0', 'codec_name=flac', 'codec_type=audio', 'channels=2', '[/STREAM]',
+            '[FORMAT]', 'nb_streams=1', 'format_name=matroska,webm', 'duration=10.000000', '[/FORMAT]'
+        ].join('\n');
+        fs.writeFileSync(ffmpegPath, [
+            '#!/bin/sh',
+            'for output; do :; done',
+            // Capability lists, ex. -formats, are empty
+            'case "$output" in -*) exit 0 ;; esac',
+            `echo "$output" >> "${logPath}"`,
+            'case "$output" in *hold-*) exec sleep 10 ;; esac',
+            ': > "$output"'
+        ].join('\n'), { mode: 0o755 });
+        fs.writeFileSync(ffprobePath, `#!/bin/sh\necho '${probeOutput}'\n`, { mode: 0o755 });
+        fs.writeFileSync(path.join(directory, 'input.mka'), '');
+
+        videoSalad = new VideoSalad({ ffmpegPath, ffprobePath, logger: { console: false, file: false } });
+    });
+
+    after(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('mixes the highest priority first, then in queue order', async () => {
+        fs.rmSync(logPath, { force: true });
+        const { queue } = CreateQueue();
+        const [first, low, high, lowAgain] = await CreateMixingBowls(['first', 'low', 'high', 'low-again']);
+
+        queue.enqueue(first);
+        queue.enqueue(low);
+        queue.enqueue(high, 5);
+        queue.enqueue(lowAgain);
+        const results = await queue.drain();
+
+        assert.deepEqual(results.map(({ status }) => status), ['fulfilled', 'fulfilled', 'fulfilled', 'fulfilled']);
+        assert.deepEqual(MixedOutputs(), ['first', 'high', 'low', 'low-again']);
+        assert.equal(queue.isIdle, true);
+    });
+
+    it('mixes at most the maximum number of concurrent bowls', async () => {
+        const { queue } = CreateQueue(2);
+        const mixingBowls = await CreateMixingBowls(['one', 'two', 'three']);
+
+        mixingBowls.forEach(mixingBowl => queue.enqueue(mixingBowl));
+
+        assert.deepEqual(queue.mixingBowls, mixingBowls.slice(0, 2));
+        assert.deepEqual(queue.queuedBowls, mixingBowls.slice(2));
+
+        // Raising the limit starts the waiting bowl
+        queue.maxConcurrentMixes = 3;
+        assert.deepEqual(queue.mixingBowls, mixingBowls);
+        assert.deepEqual(queue.queuedBowls, []);
+        await queue.drain();
+    });
+
+    it('cancels queued bowls without starting them and kills mixing bowls', async () => {
+        fs.rmSync(logPath, { force: true });
+        const { queue, statuses } = CreateQueue();
+        const [held, waiting] = await CreateMixingBowls(['hold-cancel', 'waiting']);
+
+        const heldMix = queue.enqueue(held);
+        const waitingMix = queue.enqueue(waiting);
+        queue.cancel(waiting);
+
+        await assert.rejects(waitingMix, BowlMixCanceledError);
+        assert.equal(waiting.status.state, 'canceled');
+        assert.equal(queue.has(waiting), false);
+
+        await WaitForFfmpeg(statuses, held);
+        queue.cancel(held);
+
+        await assert.rejects(heldMix, BowlMixCanceledError);
+        assert.deepEqual(MixedOutputs(), ['hold-cancel']);
+        assert.equal(queue.isIdle, true);
+    });
+
+    it('keeps draining while bowls are queued by the drained bowls', async () => {
+        const [first, second] = await CreateMixingBowls(['drained', 'queued-while-draining']);
+        const { queue } = CreateQueue(1, (bowl, status) => {
+            // Queue the second bowl once the first one is done
+            if (bowl === first && status.state === 'done') {
+                queue.enqueue(second);
+            }
+        });
+
+        queue.enqueue(first);
+        const results = await queue.drain();
+
+        assert.deepEqual(results.map(({ status }) => status), ['fulfilled', 'fulfilled']);
+        assert.equal(second.status.state, 'done');
+        assert.deepEqual(await queue.drain(), []);
+    });
+
+    it('reports bowls that cannot start mixing as errors', async () => {
+        const { queue } = CreateQueue();
+        const [mixingBowl] = await videoSalad.createBowls(['']);
+
+        queue.enqueue(mixingBowl);
+        const [result] = await queue.drain();
+
+        assert.equal(result.status, 'rejected');
+        assert.equal(mixingBowl.status.state, 'error');
+    });
+});
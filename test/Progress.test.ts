@@ -0,0 +1,116 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { FfprobeStream } from 'fluent-ffmpeg';
+
+import { FfmpegProgress } from '../src/Bowl.js';
+import { AudioIngredient, VideoIngredient } from '../src/Ingredient.js';
+import { AggregateProgress, GetExpectedMixDuration, NormalizeProgress, ParseTimemark } from '../src/Progress.js';
+
+// 60s of the output written in 30s, 10 MiB at 1536 kb/s
+const progress: FfmpegProgress = {
+    frames: 1440,
+    currentFps: 48,
+    currentKbps: 1536,
+    targetSize: 10240,
+    timemark: '00:01:00.00',
+    percent: NaN
+};
+
+describe('Progress', () => {
+    it('parses timemarks and plain seconds', () => {
+        assert.equal(ParseTimemark('01:02:03.50'), 3723.5);
+        assert.equal(ParseTimemark('-00:00:01.25'), -1.25);
+        // Matroska DURATION tags have nanosecond precision
+        assert.equal(ParseTimemark(' 00:23:40.021000000 '), 1420.021);
+        assert.equal(ParseTimemark('90.5'), 90.5);
+        assert.equal(ParseTimemark(12), 12);
+        assert.equal(ParseTimemark('N/A'), undefined);
+        assert.equal(ParseTimemark(''), undefined);
+        assert.equal(ParseTimemark(NaN), undefined);
+        assert.equal(ParseTimemark(undefined), undefined);
+    });
+
+    it('expects the duration of the longest delayed ingredient, limited to the kept ranges', () => {
+        const video = new VideoIngredient('movie.mkv', { index: 0, codec_name: 'h264', codec_type: 'video', duration: '100.000000' } as FfprobeStream);
+        // Stream without a duration, ex. Matroska
+        const audio = new AudioIngredient('movie.mkv', { index: 1, codec_name: 'flac', codec_type: 'audio', tags: { 'DURATION-eng': '00:01:30.000000000' } } as FfprobeStream);
+        audio.delay = 15;
+
+        assert.equal(GetExpectedMixDuration([video, audio]), 105);
+        assert.equal(GetExpectedMixDuration([video, audio], [{ start: 10, end: 20 }, { start: 100 }]), 15);
+        assert.equal(GetExpectedMixDuration([], [{ start: 10, end: 20 }]), 10);
+        assert.equal(GetExpectedMixDuration([], [{ start: 10 }]), undefined);
+    });
+
+    describe('NormalizeProgress', () => {
+        it('measures progress against the expected duration', () => {
+            assert.deepEqual(NormalizeProgress(progress, 240, 30), {
+                processedSeconds: 60,
+                totalSeconds: 240,
+                percent: 25,
+                speed: 2,
+                eta: 90,
+                outputBytes: 10485760,
+                bitrate: 1536000,
+                frames: 1440,
+                fps: 48
+            });
+        });
+
+        it('adds the offset of previous passes and leaves unknown values out', () => {
+            const mixProgress = NormalizeProgress({ ...progress, currentKbps: NaN, frames: NaN, currentFps: NaN }, undefined, 30, 60);
+
+            assert.deepEqual(mixProgress, {
+                processedSeconds: 120,
+                speed: 4,
+                outputBytes: 10485760,
+                // Average bitrate of the output written so far
+                bitrate: 10485760 * 8 / 120,
+                frames: undefined,
+                fps: undefined
+            });
+        });
+
+        it('caps the percent at 100', () => {
+            assert.equal(NormalizeProgress(progress, 50, 30).percent, 100);
+            assert.equal(NormalizeProgress(progress, 50, 30).eta, 0);
+        });
+    });
+
+    describe('AggregateProgress', () => {
+        it('combines the progress of every bowl', () => {
+            const aggregate = AggregateProgress([
+                { bowlId: 1, progress: NormalizeProgress(progress, 240, 30) },
+                { bowlId: 2, progress: NormalizeProgress({ ...progress, timemark: '00:00:30.00' }, 60, 30) }
+            ]);
+
+            assert.deepEqual(aggregate, {
+                bowlIds: [1, 2],
+                processedSeconds: 90,
+                totalSeconds: 300,
+                percent: 30,
+                speed: 3,
+                eta: 90,
+                outputBytes: 20971520,
+                bitrate: 3072000
+            });
+        });
+
+        it('leaves the total out while the duration of any bowl is unknown', () => {
+            const aggregate = AggregateProgress([
+                { bowlId: 1, progress: NormalizeProgress(progress, 240, 30) },
+                { bowlId: 2, progress: NormalizeProgress(progress, undefined, 0) }
+            ]);
+
+            assert.equal(aggregate.processedSeconds, 120);
+            assert.equal(aggregate.totalSeconds, undefined);
+            assert.equal(aggregate.percent, undefined);
+            assert.equal(aggregate.speed, undefined);
+            assert.equal(aggregate.eta, undefined);
+        });
+
+        it('is empty without mixing bowls', () => {
+            assert.deepEqual(AggregateProgress([]), { bowlIds: [], processedSeconds: 0, outputBytes: 0, bitrate: 0 });
+        });
+    });
+});
@@ -0,0 +1,77 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { FfprobeStream } from 'fluent-ffmpeg';
+
+import { IngredientBowl } from '../src/Bowl.js';
+import { AudioIngredient, StreamIngredientType, SubtitleIngredient, VideoIngredient } from '../src/Ingredient.js';
+import { FilterRecipeIngredients, GroupIngredientBowls, MatchStreamFilter } from '../src/Recipe.js';
+
+const video = new VideoIngredient('movie.mkv', { index: 0, codec_name: 'h264', codec_type: 'video' } as FfprobeStream);
+const englishAudio = new AudioIngredient('movie.mkv', {
+    index: 1, codec_name: 'eac3', codec_type: 'audio', channels: 6, tags: { language: 'eng' }, disposition: { default: 1 }
+} as FfprobeStream);
+const commentary = new AudioIngredient('movie.mkv', {
+    index: 2, codec_name: 'aac', codec_type: 'audio', channels: 2, tags: { language: 'eng', title: 'Commentary' }, disposition: { default: 0 }
+} as FfprobeStream);
+const subtitles = new SubtitleIngredient('movie.mkv', { index: 3, codec_name: 'ass', codec_type: 'subtitle' } as FfprobeStream);
+const ingredients = [video, englishAudio, commentary, subtitles];
+
+function IngredientIndexes(filtered: { index: number }[]) {
+    return filtered.map(({ index }) => index);
+}
+
+describe('Recipe', () => {
+    describe('MatchStreamFilter', () => {
+        it('matches every condition, list values match any entry', () => {
+            assert.deepEqual(IngredientIndexes(ingredients.filter(ingredient => MatchStreamFilter(ingredient, { type: StreamIngredientType.audio, codec: ['aac', 'opus'] }))), [2]);
+            assert.deepEqual(IngredientIndexes(ingredients.filter(ingredient => MatchStreamFilter(ingredient, { tags: { title: ['Commentary', 'Director'] } }))), [2]);
+            assert.deepEqual(IngredientIndexes(ingredients.filter(ingredient => MatchStreamFilter(ingredient, {}))), [0, 1, 2, 3]);
+        });
+
+        it('matches streams without a language as und', () => {
+            assert.deepEqual(IngredientIndexes(ingredients.filter(ingredient => MatchStreamFilter(ingredient, { language: 'und' }))), [0, 3]);
+        });
+
+        it('matches set and unset dispositions', () => {
+            assert.equal(MatchStreamFilter(englishAudio, { dispositions: { default: true } }), true);
+            assert.equal(MatchStreamFilter(commentary, { dispositions: { default: true } }), false);
+            assert.equal(MatchStreamFilter(commentary, { dispositions: { default: false } }), true);
+        });
+
+        it('matches channels of audio streams only', () => {
+            assert.deepEqual(IngredientIndexes(ingredients.filter(ingredient => MatchStreamFilter(ingredient, { channels: { min: 6 } }))), [1]);
+            assert.deepEqual(IngredientIndexes(ingredients.filter(ingredient => MatchStreamFilter(ingredient, { channels: { max: 2 } }))), [2]);
+        });
+
+        it('inverts nested filters', () => {
+            assert.deepEqual(IngredientIndexes(ingredients.filter(ingredient => MatchStreamFilter(ingredient, { type: StreamIngredientType.audio, not: { tags: { title: 'Commentary' } } }))), [1]);
+        });
+    });
+
+    it('keeps included streams that are not excluded', () => {
+        assert.deepEqual(IngredientIndexes(FilterRecipeIngredients({ output: '{stem}.mkv' }, ingredients)), [0, 1, 2, 3]);
+        assert.deepEqual(IngredientIndexes(FilterRecipeIngredients({
+            output: '{stem}.mkv',
+            include: [{ type: StreamIngredientType.video }, { language: 'eng' }],
+            exclude: [{ tags: { title: 'Commentary' } }]
+        }, ingredients)), [0, 1]);
+    });
+
+    describe('GroupIngredientBowls', () => {
+        const ingredientBowls = ['/b/movie.mka', '/a/movie.mkv', '/a/extra.mkv'].map(path => ({ path }) as IngredientBowl);
+
+        it('groups bowls with the same stem, sorted by path', () => {
+            assert.deepEqual(
+                GroupIngredientBowls(ingredientBowls).map(({ stem, ingredientBowls }) => [stem, ingredientBowls.map(({ path }) => path)]),
+                [['extra', ['/a/extra.mkv']], ['movie', ['/a/movie.mkv', '/b/movie.mka']]]
+            );
+        });
+
+        it('mixes every bowl on its own when grouping by file', () => {
+            assert.deepEqual(
+                GroupIngredientBowls(ingredientBowls, 'file').map(({ stem, ingredientBowls }) => [stem, ingredientBowls.length]),
+                [['extra', 1], ['movie', 1], ['movie', 1]]
+            );
+        });
+    });
+});
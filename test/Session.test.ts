@@ -0,0 +1,115 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+import { AudioIngredient } from '../src/Ingredient.js';
+import { VideoSaladInvalidSessionError, VideoSaladSessionVersionError } from '../src/utils/errors/VideoSaladError.js';
+import { VideoSalad } from '../src/VideoSalad.js';
+
+const logger = { console: false, file: false };
+
+// Sources are probed by a fake ffprobe printing the probe file next to the input
+describe('Session', { skip: process.platform === 'win32' }, () => {
+    let directory: string;
+    let ffprobePath: string;
+
+    // Video and audio with two chapters
+    function CreateSource(name: string) {
+        const inputPath = path.join(directory, `${name}.mkv`);
+        const probeOutput = [
+            '[STREAM]', 'index=0', 'codec_name=h264', 'codec_type=video', 'width=1920', 'height=1080', '[/STREAM]',
+            '[STREAM]', 'index=1', 'codec_name=flac', 'codec_type=audio', 'channels=2', 'TAG:language=eng', '[/STREAM]',
+            '[CHAPTER]', 'id=0', 'time_base=1/1000', 'start=0', 'end=60000', 'TAG:title=Opening', '[/CHAPTER]',
+            '[CHAPTER]', 'id=1', 'time_base=1/1000', 'start=60000', 'end=120000', 'TAG:title=Episode', '[/CHAPTER]',
+            '[FORMAT]', `filename=${inputPath}`, 'nb_streams=2', 'format_name=matroska,webm', 'duration=120.000000', '[/FORMAT]'
+        ].join('\n');
+        fs.writeFileSync(inputPath, 'source');
+        fs.writeFileSync(`${inputPath}.probe`, probeOutput);
+        return inputPath;
+    }
+
+    // Mixing Bowl with the converted audio, retagged video and edited chapters of the source
+    async function CreateSession(videoSalad: VideoSalad, inputPath: string) {
+        const [ingredientBowl] = await videoSalad.importBowls([inputPath]);
+        const [video, audio] = ingredientBowl.ingredients;
+        const chaptersIngredientId = ingredientBowl.chapters?.id;
+        assert.ok(chaptersIngredientId !== undefined);
+        (audio as AudioIngredient).convert({ codec: 'aac', bitrate: 128000 });
+        await videoSalad.updateIngredient(video.id, { tags: { title: 'Main', language: undefined } });
+        await videoSalad.updateChapters(chaptersIngredientId, [{ type: 'update', chapterId: 1, title: 'Part A' }]);
+
+        const [mixingBowl] = await videoSalad.createBowls([path.join(directory, 'output.mkv')]);
+        await videoSalad.updateBowl(mixingBowl.id, {
+            tags: { title: 'Movie' },
+            ingredientIds: [video.id, audio.id],
+            chaptersIngredientId
+        });
+
+        return mixingBowl;
+    }
+
+    before(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'video-salad-test-'));
+        ffprobePath = path.join(directory, 'ffprobe');
+        fs.writeFileSync(ffprobePath, '#!/bin/sh\nfor input; do :; done\ncat "$input.probe"\n', { mode: 0o755 });
+    });
+
+    after(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('restores the bowls and changes of an exported session', async () => {
+        const exporter = new VideoSalad({ ffprobePath, logger });
+        const mixingBowl = await CreateSession(exporter, CreateSource('movie'));
+        const session = JSON.stringify(await exporter.exportSession());
+
+        const importer = new VideoSalad({ ffprobePath, logger });
+        const result = await importer.importSession(session);
+
+        assert.deepEqual(result.issues, []);
+        assert.equal(result.mixingBowls.length, 1);
+        assert.deepEqual(
+            (await importer.planBowl(result.mixingBowls[0].id)).args,
+            (await exporter.planBowl(mixingBowl.id)).args
+        );
+        assert.deepEqual(
+            result.mixingBowls[0].chapters?.sortedChapters.map(({ title }) => title),
+            ['Opening', 'Part A']
+        );
+        assert.deepEqual(
+            (await importer.exportSession()).mixingBowls.map(({ output, tags }) => [output, tags]),
+            [[path.join(directory, 'output.mkv'), { title: 'Movie' }]]
+        );
+    });
+
+    it('reports changed and missing source files', async () => {
+        const exporter = new VideoSalad({ ffprobePath, logger });
+        const changedPath = CreateSource('changed');
+        const missingPath = CreateSource('missing');
+        await exporter.importBowls([changedPath]);
+        const [missingBowl] = await exporter.importBowls([missingPath]);
+        const [mixingBowl] = await exporter.createBowls([path.join(directory, 'missing-output.mkv')]);
+        await exporter.updateBowl(mixingBowl.id, { ingredientIds: [missingBowl.ingredients[0].id] });
+        const session = await exporter.exportSession();
+
+        fs.writeFileSync(changedPath, 'changed source');
+        fs.rmSync(missingPath);
+        const result = await new VideoSalad({ ffprobePath, logger }).importSession(session);
+
+        assert.deepEqual(result.changedFiles, [changedPath]);
+        assert.deepEqual(result.missingFiles, [missingPath]);
+        assert.deepEqual(result.issues.map(({ code }) => code).sort(), ['changedFile', 'missingFile', 'missingIngredient']);
+        assert.equal(result.ingredientBowls.length, 1);
+        assert.deepEqual(result.mixingBowls[0].ingredients, []);
+    });
+
+    it('rejects invalid sessions and sessions of other versions', async () => {
+        const videoSalad = new VideoSalad({ ffprobePath, logger });
+
+        await assert.rejects(videoSalad.importSession('{'), VideoSaladInvalidSessionError);
+        await assert.rejects(videoSalad.importSession('{"version":1}'), VideoSaladInvalidSessionError);
+        await assert.rejects(videoSalad.importSession('{"version":2}'), VideoSaladSessionVersionError);
+    });
+});
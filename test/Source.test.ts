@@ -0,0 +1,103 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Readable } from 'node:stream';
+import { after, before, describe, it } from 'node:test';
+
+import { CacheSource, GetSourceFilePath, GetSourceName, IsCachedSource, ParseSource, ReleaseCachedSource } from '../src/Source.js';
+import { RunInFfmpegEnvironment } from '../src/utils/ffmpeg/FfmpegEnvironment.js';
+import { VideoSalad } from '../src/VideoSalad.js';
+
+const logger = { console: false, file: false };
+
+describe('Source', () => {
+    let directory: string;
+
+    before(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'video-salad-test-'));
+    });
+
+    after(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('parses file and HTTP URL strings', () => {
+        assert.deepEqual(ParseSource('http://localhost:8080/episode.mkv'), new URL('http://localhost:8080/episode.mkv'));
+        assert.deepEqual(ParseSource('HTTPS://localhost/episode.mkv'), new URL('https://localhost/episode.mkv'));
+        assert.equal(ParseSource('./http://episode.mkv'), './http://episode.mkv');
+        assert.equal(ParseSource('C:\\episode.mkv'), 'C:\\episode.mkv');
+    });
+
+    it('reads file paths and file URLs from disk only', { skip: process.platform === 'win32' }, () => {
+        assert.equal(GetSourceFilePath('./episode.mkv'), './episode.mkv');
+        assert.equal(GetSourceFilePath('file:///media/episode%201.mkv'), '/media/episode 1.mkv');
+        assert.equal(GetSourceFilePath(new URL('file:///media/episode.mkv')), '/media/episode.mkv');
+        assert.equal(GetSourceFilePath('http://localhost/episode.mkv'), undefined);
+        assert.equal(GetSourceFilePath(Buffer.from('')), undefined);
+    });
+
+    it('names sources in logs and errors', () => {
+        assert.equal(GetSourceName(new URL('http://localhost/episode.mkv')), 'http://localhost/episode.mkv');
+        assert.equal(GetSourceName(Buffer.from('')), '<buffer>');
+        assert.equal(GetSourceName(Readable.from([])), '<stream>');
+    });
+
+    it('caches streams to the temporary directory until they are released', async () => {
+        const cachePath = await RunInFfmpegEnvironment({ tempDir: directory }, () => CacheSource(Readable.from(['media']), '<stream>', '.mkv'));
+
+        assert.equal(path.dirname(cachePath), directory);
+        assert.equal(path.extname(cachePath), '.mkv');
+        assert.equal(fs.readFileSync(cachePath, 'utf8'), 'media');
+        assert.equal(IsCachedSource(cachePath), true);
+
+        await ReleaseCachedSource(cachePath);
+
+        assert.equal(IsCachedSource(cachePath), false);
+        assert.equal(fs.existsSync(cachePath), false);
+    });
+
+    // Fake ffprobe reports a single audio stream, or fails for the broken ffprobe
+    describe('cached Ingredient Bowls', { skip: process.platform === 'win32' }, () => {
+        let tempDir: string;
+        let ffprobePath: string;
+        let brokenFfprobePath: string;
+
+        before(() => {
+            tempDir = path.join(directory, 'cache');
+            ffprobePath = path.join(directory, 'ffprobe');
+            brokenFfprobePath = path.join(directory, 'ffprobe-broken');
+
+            const probeOutput = [
+                '[STREAM]', 'index=0', 'codec_name=flac', 'codec_type=audio', 'channels=2', '[/STREAM]',
+                '[FORMAT]', 'nb_streams=1', 'format_name=matroska,webm', 'duration=10.000000', '[/FORMAT]'
+            ].join('\n');
+            fs.mkdirSync(tempDir);
+            fs.writeFileSync(ffprobePath, `#!/bin/sh\necho '${probeOutput}'\n`, { mode: 0o755 });
+            fs.writeFileSync(brokenFfprobePath, '#!/bin/sh\nexit 1\n', { mode: 0o755 });
+        });
+
+        it('deletes cached sources that cannot be probed', async () => {
+            const videoSalad = new VideoSalad({ ffprobePath: brokenFfprobePath, tempDir, logger });
+
+            await assert.rejects(videoSalad.importBowls([Buffer.from('media')]));
+
+            assert.deepEqual(fs.readdirSync(tempDir), []);
+        });
+
+        it('keeps the cached sources of removed bowls until the instance releases them', async () => {
+            const videoSalad = new VideoSalad({ ffprobePath, tempDir, logger });
+            const [ingredientBowl] = await videoSalad.importBowls([Buffer.from('media')], { extension: 'mka' });
+
+            await videoSalad.removeImportedBowl(ingredientBowl.id);
+            assert.deepEqual(videoSalad.ingredientBowls, []);
+            assert.equal(fs.existsSync(ingredientBowl.path), true);
+
+            await videoSalad.undo();
+            assert.deepEqual(videoSalad.ingredientBowls, [ingredientBowl]);
+
+            await videoSalad.releaseCachedSources();
+            assert.equal(fs.existsSync(ingredientBowl.path), false);
+        });
+    });
+});
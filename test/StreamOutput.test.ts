@@ -0,0 +1,91 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { PassThrough } from 'node:stream';
+import { describe, it } from 'node:test';
+import { FfprobeStream } from 'fluent-ffmpeg';
+
+import { MixingBowl } from '../src/Bowl.js';
+import { SUPPORTED_FORMATS } from '../src/Containers.js';
+import { AudioIngredient } from '../src/Ingredient.js';
+import { CopyToStream, GetStreamOutputEnd, GetStreamOutputOptions, GetTempFileOutputOptions, STREAM_OUTPUT } from '../src/StreamOutput.js';
+import { BowlMixNotStreamableError } from '../src/utils/errors/BowlError.js';
+
+describe('StreamOutput', () => {
+    it('streams containers written front to back, and MP4 only when fragmented', () => {
+        assert.deepEqual(GetStreamOutputOptions(SUPPORTED_FORMATS.mkv), ['-f', 'matroska']);
+        assert.equal(GetStreamOutputOptions(SUPPORTED_FORMATS.mp4), undefined);
+        assert.deepEqual(GetStreamOutputOptions(SUPPORTED_FORMATS.mp4, true), ['-f', 'mp4', '-movflags', 'frag_keyframe+empty_moov+default_base_moof']);
+        assert.equal(GetStreamOutputOptions(SUPPORTED_FORMATS.avi, true), undefined);
+    });
+
+    it('moves the index of temporary MP4 files to the front', () => {
+        assert.deepEqual(GetTempFileOutputOptions(SUPPORTED_FORMATS.mp4), ['-f', 'mp4', '-movflags', '+faststart']);
+        assert.deepEqual(GetTempFileOutputOptions(SUPPORTED_FORMATS.avi), ['-f', 'avi']);
+    });
+
+    it('ends streams other than stdout unless told otherwise', () => {
+        const stream = new PassThrough();
+
+        assert.equal(GetStreamOutputEnd({ stream, format: 'mkv' }), true);
+        assert.equal(GetStreamOutputEnd({ stream, format: 'mkv', end: false }), false);
+        assert.equal(GetStreamOutputEnd({ stream: process.stdout, format: 'mkv' }), false);
+    });
+
+    it('copies temporary files to the stream', async () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'video-salad-test-'));
+        try {
+            const filePath = path.join(directory, 'output.mp4');
+            fs.writeFileSync(filePath, 'mixed');
+            const stream = new PassThrough();
+            const chunks: Buffer[] = [];
+            stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+            await CopyToStream(filePath, { stream, format: 'mp4' });
+
+            assert.equal(Buffer.concat(chunks).toString(), 'mixed');
+            assert.equal(stream.writableEnded, true);
+        } finally {
+            fs.rmSync(directory, { recursive: true, force: true });
+        }
+    });
+
+    describe('MixingBowl.plan', () => {
+        function CreateMixingBowl() {
+            const mixingBowl = new MixingBowl('');
+            mixingBowl.addIngredient(new AudioIngredient('input.mka', { index: 0, codec_name: 'aac', codec_type: 'audio' } as FfprobeStream));
+            return mixingBowl;
+        }
+
+        it('writes streamed outputs to the stdout of ffmpeg', async () => {
+            const mixingBowl = CreateMixingBowl();
+            mixingBowl.outputStream = { stream: new PassThrough(), format: 'MKA' };
+            const plan = await mixingBowl.plan();
+
+            assert.equal(plan.output, STREAM_OUTPUT);
+            assert.deepEqual(plan.args.slice(-3), ['-f', 'matroska', STREAM_OUTPUT]);
+            assert.deepEqual(plan.streamOutput, { format: 'mka', ffmpegFormat: 'matroska' });
+        });
+
+        it('mixes formats that cannot be streamed to a temporary file only when allowed', async () => {
+            const mixingBowl = CreateMixingBowl();
+            mixingBowl.outputStream = { stream: new PassThrough(), format: 'mp4' };
+
+            await assert.rejects(mixingBowl.plan(), BowlMixNotStreamableError);
+
+            mixingBowl.outputStream = { stream: new PassThrough(), format: 'mp4', allowTempFile: true };
+            const plan = await mixingBowl.plan();
+
+            assert.equal(plan.output, plan.streamOutput?.tempFile);
+            assert.equal(path.extname(plan.output), '.mp4');
+            assert.deepEqual(plan.args.slice(-5, -1), ['-f', 'mp4', '-movflags', '+faststart']);
+        });
+
+        it('rejects unknown stream formats', () => {
+            assert.throws(() => {
+                CreateMixingBowl().outputStream = { stream: new PassThrough(), format: 'xyz' };
+            }, RangeError);
+        });
+    });
+});
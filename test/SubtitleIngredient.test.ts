@@ -0,0 +1,40 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { FfprobeStream } from 'fluent-ffmpeg';
+
+import { SubtitleIngredient } from '../src/Ingredient.js';
+import { IngredientConvertImageSubtitleError } from '../src/utils/errors/IngredientError.js';
+
+function CreateSubtitleIngredient(codecName: string) {
+    return new SubtitleIngredient('input.mkv', { index: 2, codec_name: codecName, codec_type: 'subtitle' } as FfprobeStream);
+}
+
+describe('SubtitleIngredient', () => {
+    it('stream copies only when the subtitles are not converted', () => {
+        const subtitleIngredient = CreateSubtitleIngredient('subrip');
+
+        assert.deepEqual(subtitleIngredient.buildOptions(0, 2), ['-map 0:2', '-c:2 copy', '-map_metadata:s:2 0:s:2']);
+
+        subtitleIngredient.convert({ codec: 'ass' });
+
+        assert.deepEqual(subtitleIngredient.buildOptions(0, 2), ['-map 0:2', '-map_metadata:s:2 0:s:2', '-c:2 ass']);
+    });
+
+    it('sets the height of MP4 text subtitles', () => {
+        const subtitleIngredient = CreateSubtitleIngredient('ass');
+        subtitleIngredient.convert({ codec: 'mov_text', height: 1080 });
+
+        assert.deepEqual(subtitleIngredient.buildOptions(0, 0).slice(2), ['-c:0 mov_text', '-height:0 1080']);
+    });
+
+    it('rejects converting image subtitles', () => {
+        for (const codecName of ['hdmv_pgs_subtitle', 'dvd_subtitle', 'dvb_subtitle', 'xsub']) {
+            const subtitleIngredient = CreateSubtitleIngredient(codecName);
+
+            assert.equal(subtitleIngredient.isImageBased, true);
+            assert.deepEqual(subtitleIngredient.conversionOptionsSchema, {});
+            assert.throws(() => subtitleIngredient.convert({ codec: 'srt' }), IngredientConvertImageSubtitleError);
+            assert.deepEqual(subtitleIngredient.buildOptions(0, 2), ['-map 0:2', '-c:2 copy', '-map_metadata:s:2 0:s:2']);
+        }
+    });
+});
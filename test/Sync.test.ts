@@ -0,0 +1,53 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { FormatSyncOffset, RetimeSubtitleText, RoundSyncOffset } from '../src/Sync.js';
+
+describe('Sync', () => {
+    it('rounds offsets to milliseconds', () => {
+        assert.equal(RoundSyncOffset(1.23456), 1.235);
+        assert.equal(FormatSyncOffset(-0.5), '-0.500');
+        assert.throws(() => RoundSyncOffset(NaN), RangeError);
+    });
+
+    describe('RetimeSubtitleText', () => {
+        it('shifts and renumbers SRT cues, dropping cues that end before the start', () => {
+            const srt = '\uFEFF1\r\n00:00:01,000 --> 00:00:02,000\r\nGone\r\n\r\n2\r\n00:00:02,500 --> 00:00:04,000 X1:10\r\nCut\r\n\r\n3\r\n00:01:00,000 --> 00:01:01,500\r\nMoved\r\n';
+            const { text, firstStart } = RetimeSubtitleText(srt, 'srt', -3);
+
+            assert.equal(text, '1\n00:00:00,000 --> 00:00:01,000 X1:10\nCut\n\n2\n00:00:57,000 --> 00:00:58,500\nMoved\n');
+            assert.equal(firstStart, 0);
+        });
+
+        it('delays WebVTT cues and keeps the header and cue settings', () => {
+            const vtt = 'WEBVTT\n\nNOTE kept\n\n00:59.500 --> 01:00.000 align:start\nLine';
+            const { text, firstStart } = RetimeSubtitleText(vtt, 'vtt', 1.25);
+
+            assert.equal(text, 'WEBVTT\n\nNOTE kept\n\n00:01:00.750 --> 00:01:01.250 align:start\nLine\n');
+            assert.equal(firstStart, 60.75);
+        });
+
+        it('shifts ASS dialogue and comments, only dialogue sets the first start', () => {
+            const ass = [
+                '[Events]',
+                'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+                'Comment: 0,0:00:00.50,0:00:01.00,Default,,0,0,0,,Note',
+                'Dialogue: 0,0:00:02.00,0:00:03.50,Default,,0,0,0,,Hello, world'
+            ].join('\n');
+            const { text, firstStart } = RetimeSubtitleText(ass, 'ass', 0.5);
+
+            assert.deepEqual(text.split('\n').slice(2), [
+                'Comment: 0,0:00:01.00,0:00:01.50,Default,,0,0,0,,Note',
+                'Dialogue: 0,0:00:02.50,0:00:04.00,Default,,0,0,0,,Hello, world'
+            ]);
+            assert.equal(firstStart, 2.5);
+        });
+
+        it('has no first start once every event is removed', () => {
+            const { text, firstStart } = RetimeSubtitleText('1\n00:00:01,000 --> 00:00:02,000\nGone\n', 'srt', -2);
+
+            assert.equal(text, '');
+            assert.equal(firstStart, undefined);
+        });
+    });
+});
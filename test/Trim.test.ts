@@ -0,0 +1,63 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { Chapter } from '../src/Ingredient.js';
+import { BuildConcatList, GetTrimOptions, MapTrimStart, MapTrimTime, NormalizeTrimRanges, TrimChapters, TrimRange } from '../src/Trim.js';
+
+// Keeps 10-20s and 40s until the end
+const ranges: TrimRange[] = [{ start: 10, end: 20 }, { start: 40 }];
+
+function ChapterSeconds(chapters: Chapter[]) {
+    return chapters.map(({ id, start, end }) => [id, start / 1000, end / 1000]);
+}
+
+describe('Trim', () => {
+    describe('NormalizeTrimRanges', () => {
+        it('orders ranges by start', () => {
+            assert.deepEqual(NormalizeTrimRanges([{ start: 40 }, { start: 10, end: 20 }]), ranges);
+        });
+
+        it('rejects missing, invalid and overlapping ranges', () => {
+            assert.throws(() => NormalizeTrimRanges([]), RangeError);
+            assert.throws(() => NormalizeTrimRanges([{ start: -1 }]), RangeError);
+            assert.throws(() => NormalizeTrimRanges([{ start: 10, end: 10 }]), RangeError);
+            assert.throws(() => NormalizeTrimRanges([{ start: NaN }]), RangeError);
+            assert.throws(() => NormalizeTrimRanges([{ start: 10, end: 30 }, { start: 20, end: 40 }]), RangeError);
+            // Only the last range can be open ended
+            assert.throws(() => NormalizeTrimRanges([{ start: 10 }, { start: 20, end: 40 }]), RangeError);
+        });
+
+        it('does not modify the given ranges', () => {
+            const unordered = [{ start: 40 }, { start: 10, end: 20 }];
+            NormalizeTrimRanges(unordered);
+
+            assert.deepEqual(unordered, [{ start: 40 }, { start: 10, end: 20 }]);
+        });
+    });
+
+    it('maps times to the trimmed timeline', () => {
+        assert.equal(MapTrimTime(15, ranges), 5);
+        assert.equal(MapTrimTime(40, ranges), 10);
+        assert.equal(MapTrimTime(100, ranges), 70);
+        assert.equal(MapTrimTime(30, ranges), undefined);
+        assert.equal(MapTrimStart(30, ranges), 10);
+        assert.equal(MapTrimStart(25, [{ start: 10, end: 20 }]), undefined);
+    });
+
+    it('cuts chapters to the kept ranges', () => {
+        const chapters: Chapter[] = [
+            { id: 0, timeBase: '1/1000', start: 0, end: 5000, title: 'Cut' },
+            { id: 1, timeBase: '1/1000', start: 5000, end: 15000, title: 'Clipped start' },
+            { id: 2, timeBase: '1/1000', start: 15000, end: 45000, title: 'Spans the cut' },
+            { id: 3, timeBase: '1/1000', start: 45000, end: 60000, title: 'Moved' }
+        ];
+
+        assert.deepEqual(ChapterSeconds(TrimChapters(chapters, ranges)), [[1, 0, 5], [2, 5, 15], [3, 15, 30]]);
+    });
+
+    it('builds cut options and concat lists', () => {
+        assert.deepEqual(GetTrimOptions({ start: 1.5, end: 3 }), ['-ss', '1.500', '-to', '3.000']);
+        assert.deepEqual(GetTrimOptions({ start: 40 }), ['-ss', '40.000']);
+        assert.equal(BuildConcatList(['/tmp/a.mkv', `/tmp/it's.mkv`]), `file '/tmp/a.mkv'\nfile '/tmp/it'\\''s.mkv'\n`);
+    });
+});
@@ -0,0 +1,58 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { FfprobeStream } from 'fluent-ffmpeg';
+
+import { VideoIngredient } from '../src/Ingredient.js';
+import { IngredientConvertInvalidOptionsError, IngredientConvertUnsupportedCodecError } from '../src/utils/errors/IngredientError.js';
+
+// H.264 video, stream 0 of its file
+function CreateVideoIngredient() {
+    return new VideoIngredient('input.mkv', { index: 0, codec_name: 'h264', codec_type: 'video' } as FfprobeStream);
+}
+
+describe('VideoIngredient', () => {
+    it('stream copies only when the video is not converted', () => {
+        const videoIngredient = CreateVideoIngredient();
+
+        assert.deepEqual(videoIngredient.buildOptions(1, 0), ['-map 1:0', '-c:0 copy', '-map_metadata:s:0 1:s:0']);
+
+        videoIngredient.convert({ codec: 'h264', crf: 20, preset: 'slow' });
+
+        assert.deepEqual(videoIngredient.buildOptions(1, 0), ['-map 1:0', '-map_metadata:s:0 1:s:0', '-c:0 libx264', '-preset:0 slow', '-crf:0 20']);
+    });
+
+    it('sets a zero target bitrate for constant quality VP9', () => {
+        const videoIngredient = CreateVideoIngredient();
+        videoIngredient.convert({ codec: 'vp9', crf: 31, preset: 'good', cpuUsed: 2 });
+
+        assert.deepEqual(
+            videoIngredient.buildOptions(1, 2).slice(2),
+            ['-c:2 libvpx-vp9', '-b:2 0', '-deadline:2 good', '-cpu-used:2 2', '-crf:2 31']
+        );
+    });
+
+    it('keeps the target bitrate of constrained quality VP9', () => {
+        const videoIngredient = CreateVideoIngredient();
+        videoIngredient.convert({ codec: 'vp9', crf: 31, bitrate: 2000000 });
+
+        assert.deepEqual(videoIngredient.buildOptions(1, 0).slice(2), ['-c:0 libvpx-vp9', '-crf:0 31', '-b:0 2000000']);
+    });
+
+    it('passes the AV1 tune through the SVT-AV1 parameters', () => {
+        const videoIngredient = CreateVideoIngredient();
+        videoIngredient.convert({ codec: 'av1', crf: 35, preset: 8, tune: 0 });
+
+        assert.deepEqual(
+            videoIngredient.buildOptions(1, 0).slice(2),
+            ['-c:0 libsvtav1', '-preset:0 8', '-svtav1-params:0 tune=0', '-crf:0 35']
+        );
+    });
+
+    it('rejects invalid and unsupported conversions', () => {
+        const videoIngredient = CreateVideoIngredient();
+
+        assert.throws(() => videoIngredient.convert({ codec: 'h264', crf: 20, bitrate: 2000000 }), IngredientConvertInvalidOptionsError);
+        assert.throws(() => videoIngredient.convert({ codec: 'mpeg2video' } as never), IngredientConvertUnsupportedCodecError);
+        assert.deepEqual(videoIngredient.buildOptions(1, 0), ['-map 1:0', '-c:0 copy', '-map_metadata:s:0 1:s:0']);
+    });
+});
@@ -0,0 +1,108 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { setImmediate } from 'node:timers/promises';
+
+import { BowlMixNoIngredientsError } from '../src/utils/errors/BowlError.js';
+import { NutritionLogSink, NutritionLogger } from '../src/utils/logging/NutritionLogger.js';
+import { VideoSalad, VideoSaladEvent, VideoSaladEvents } from '../src/VideoSalad.js';
+
+const logger = { console: false, file: false };
+
+describe('VideoSalad', () => {
+    it('throttles mix progress with the progress interval option', () => {
+        const videoSalad = new VideoSalad({ progressInterval: 500, logger });
+        assert.equal(videoSalad.progressInterval, 500);
+
+        videoSalad.progressInterval = 0;
+        assert.equal(videoSalad.progressInterval, 0);
+        assert.equal(new VideoSalad({ logger }).progressInterval, 0);
+    });
+
+    it('rejects invalid queue options', () => {
+        assert.throws(() => new VideoSalad({ progressInterval: -1, logger }), RangeError);
+        assert.throws(() => new VideoSalad({ maxConcurrentMixes: 0, logger }), RangeError);
+        assert.throws(() => new VideoSalad({ defaultContainer: 'unknown', logger }), RangeError);
+    });
+
+    describe('events', () => {
+        // Names and command ids of the emitted events, in order
+        function RecordEvents(videoSalad: VideoSalad, names: (keyof VideoSaladEvents & string)[]) {
+            const events: [string, number][] = [];
+            names.forEach(name => videoSalad.on(name, (event) => {
+                events.push([name, (event as VideoSaladEvent).commandId]);
+            }));
+            return events;
+        }
+
+        it('emits the changes of every command with the id of the command', async () => {
+            const videoSalad = new VideoSalad({ logger });
+            const events = RecordEvents(videoSalad, ['mixingBowlCreated', 'mixingBowlUpdated', 'mixingBowlRemoved', 'chaptersChanged', 'commandUndone', 'commandRedone']);
+
+            const [first, second] = await videoSalad.createBowls(['first.mkv', 'second.mkv']);
+            await videoSalad.updateBowl(first.id, { tags: { title: 'First' } });
+            const { chaptersIngredient } = await videoSalad.importChaptersText('start,end,title\n0,10,A\n');
+            await videoSalad.updateChapters(chaptersIngredient.id, [{ type: 'update', chapterId: 0, title: 'B' }]);
+            await videoSalad.removeBowl(second.id);
+            await videoSalad.undo();
+            await videoSalad.redo();
+
+            assert.deepEqual(events, [
+                ['mixingBowlCreated', 0],
+                ['mixingBowlCreated', 0],
+                ['mixingBowlUpdated', 1],
+                ['chaptersChanged', 3],
+                ['mixingBowlRemoved', 4],
+                ['commandUndone', 5],
+                ['commandRedone', 6]
+            ]);
+        });
+
+        it('emits the bowl and error of failed mixes', async () => {
+            const videoSalad = new VideoSalad({ logger });
+            const [mixingBowl] = await videoSalad.createBowls(['empty.mkv']);
+            const failed = new Promise<VideoSaladEvents['mixFailed'][0]>(resolve => videoSalad.once('mixFailed', resolve));
+            const events = RecordEvents(videoSalad, ['mixQueued', 'mixStarted', 'mixFailed', 'mixFinished']);
+
+            await assert.rejects(videoSalad.mixBowl(mixingBowl.id), BowlMixNoIngredientsError);
+            const event = await failed;
+
+            assert.deepEqual(events, [['mixQueued', 1], ['mixFailed', 1]]);
+            assert.equal(event.mixingBowl, mixingBowl);
+            assert.ok(event.error instanceof BowlMixNoIngredientsError);
+        });
+    });
+
+    describe('logger', () => {
+        // Collects the messages of error entries
+        function CreateSink() {
+            const errors: string[] = [];
+            const sink: NutritionLogSink = {
+                error: message => errors.push(message),
+                warn: () => undefined,
+                info: () => undefined,
+                debug: () => undefined
+            };
+            return { sink, errors };
+        }
+
+        it('logs methods called directly on bowls and ingredients to the logger of the instance', async () => {
+            const { sink, errors } = CreateSink();
+            const videoSalad = new VideoSalad({ logger: { console: false, file: false, sink } });
+
+            const [mixingBowl] = await videoSalad.createBowls(['']);
+            await assert.rejects(mixingBowl.plan());
+            const { chaptersIngredient } = await videoSalad.importChaptersText('start,end,title\n0,10,A\n');
+            assert.throws(() => chaptersIngredient.getChapter(99));
+            await setImmediate();
+
+            assert.deepEqual(errors, ['Invalid output path', 'Chapter not found']);
+        });
+
+        it('writes nothing outside of VideoSalad commands until a VideoSalad uses the shared logger', () => {
+            const { logger } = NutritionLogger.current;
+
+            assert.equal(logger.transports.length, 0);
+            assert.equal(logger.silent, true);
+        });
+    });
+});